@@ -5,38 +5,158 @@ import { nanoid } from "nanoid";
 import { QRCodeCanvas } from "qrcode.react";
 import { Scanner, type IDetectedBarcode } from "@yudiel/react-qr-scanner";
 
-import { encodeQR, decodeQR } from "./lib/qr";
-import { GROUP_COLORS, PROPERTY_DEFS, softBg } from "./lib/properties";
+import { QR_FRAME_MS, decodeQR, encodeQR, encodeSignalQR, gatherQR, isQRFrame, splitQR, type QRGather } from "./lib/qr";
+import { gatherSignal } from "./lib/signal";
+import { exportBoard, importBoard, KIND_LABEL, newGroupDef, newPropDef, validateBoard } from "./lib/board";
+import { exportGame, importGame } from "./lib/gamefile";
+import { fitsPeerChannel, makeHandoff, readHandoff, type BankHandoff } from "./lib/handoff";
 import {
-  addTx,
-  auctionSellTo,
-  declareBankruptcyToBank,
-  declareBankruptcyToPlayer,
-  doBuild,
-  doMortgage,
-  doSellBuilding,
-  doUnmortgage,
+  deleteGame,
+  hasIndexedDB,
+  listGames,
+  loadGame,
+  saveGame,
+  savedFrom,
+  setArchived,
+  type BankSecrets,
+  type GameSummary,
+  type SavedGame,
+} from "./lib/library";
+import { CLASSIC_BOARD, softBg } from "./lib/properties";
+import {
+  DEFAULT_RULES,
+  bankActionAmount,
+  checkInventory,
+  checkRules,
+  computeRent,
   formatMoney,
+  formatRate,
+  getDef,
+  groupColor,
+  joinKeyFor,
   makeGame,
+  mortgageInterest,
+  newGameId,
+  mortgageValue,
+  normalizeGame,
   normalizeName,
   playerDisplay,
-  transferCash,
-  transferProperty,
+  sellBuildingPlan,
+  TAG_LABEL,
+  type JoinKind,
+  type RuleResult,
 } from "./lib/rules";
-
-import type { ConnId, GameState, NetMsg, PlayerKey, Role } from "./lib/types";
+import {
+  AUCTION_COUNTDOWN_MS,
+  AUCTION_MIN_INCREMENT,
+  highestBid,
+  minNextBid,
+  openAuction,
+  placeBid,
+} from "./lib/auction";
+import {
+  EMPTY_HISTORY,
+  canRollbackTo,
+  discardedPlayerEvents,
+  pushHistory,
+  redo,
+  rollbackTo,
+  undo,
+  type History,
+} from "./lib/history";
+import { signLedgerHead, verifyLedger, verifyLedgerHead } from "./lib/ledger";
+import { applySyncPatch, diffState, type Synced } from "./lib/sync";
+import {
+  RESUME_TIMEOUT_MS,
+  checkResume,
+  issueResume,
+  linksOf,
+  meshPair,
+  newResumeToken,
+  pickBuddy,
+  type ResumeSession,
+  type ResumeTokens,
+} from "./lib/reconnect";
+import {
+  createDeviceKey,
+  createKeyPair,
+  hasWebCrypto,
+  helloAuth,
+  signHello,
+  verifyHello,
+  type DeviceKey,
+  type HelloAuth,
+} from "./lib/session";
+import { isEmptyBundle, mortgageFees } from "./lib/trade";
+import { currentTurn, JAIL_MAX_TURNS, jailCardsInPlay, MAX_JAIL_CARDS, turnOrder } from "./lib/turns";
+import {
+  appendEvent,
+  applyPlayerAction,
+  replay,
+  startLog,
+  verifyLog,
+  type GameCommand,
+  type GameLog,
+} from "./lib/events";
+import {
+  awardShortage,
+  buildKindFor,
+  demandFor,
+  fulfillBuildDemand,
+  highestShortageBid,
+  minShortageBid,
+  supplyOf,
+} from "./lib/shortage";
+import { createRateLimiter, parseNetMsg } from "./lib/validate";
+
+import type {
+  BankAction,
+  BoardDef,
+  CashTag,
+  ConnId,
+  GameRules,
+  GameState,
+  GroupDef,
+  NetMsg,
+  PlayerKey,
+  PlayerRequest,
+  PropertyDef,
+  PropertyKind,
+  Role,
+  TradeBundle,
+  TradeOffer,
+  TradeStatus,
+} from "./lib/types";
 import { Btn, Card, Divider, Input, Label, Row, Select, Textarea } from "./ui/primitives";
 
 type Persisted = {
   role: Role;
   deviceId: string;
   lastPlayerName?: string;
-  // banco: persistimos el estado para no perderlo si recarga
+  // jugador: credencial del dispositivo (ver session.ts)
+  deviceKey?: DeviceKey;
+  // jugador: última cabeza del ledger aceptada (para detectar historial reescrito)
+  ledgerSeen?: { gameId: string; bankPub?: string; head: string };
+  // jugador: token para reconectar sin aprobación (ver reconnect.ts)
+  resume?: ResumeSession;
+  // banco: partida abierta; las partidas viven en la biblioteca (IndexedDB, ver library.ts)
+  activeGameId?: string;
+  // banco, de la partida abierta (se guardan también en su entrada de la biblioteca):
+  // clave con la que firma el ledger (y la del Banco anterior si llegó por entrega), hashes de los tokens
+  // de reconexión y si la entregó a otro dispositivo
+  bankKey?: BankSecrets["bankKey"];
+  bankPrevPub?: BankSecrets["bankPrevPub"];
+  bankResume?: BankSecrets["bankResume"];
+  bankHandedOff?: BankSecrets["bankHandedOff"];
+  // versiones anteriores guardaban el log (o solo el estado) acá: se migran a la biblioteca
+  bankLog?: GameLog;
   bankState?: GameState;
 };
 
 const STORAGE_KEY = "propertybank.p2p.v1";
 
+const ICE_SERVERS = [{ urls: "stun:stun.l.google.com:19302" }];
+
 function useLocalStorageState<T>(key: string, initial: T) {
   const [value, setValue] = React.useState<T>(() => {
     try {
@@ -64,15 +184,6 @@ function safeSend(peer: PeerInstance, msg: NetMsg) {
   }
 }
 
-function safeParse(data: any): any | null {
-  try {
-    const str = typeof data === "string" ? data : new TextDecoder().decode(data);
-    return JSON.parse(str);
-  } catch {
-    return null;
-  }
-}
-
 export default function App() {
   const [persist, setPersist] = useLocalStorageState<Persisted>(STORAGE_KEY, {
     role: "bank",
@@ -118,99 +229,579 @@ type BankConn = {
   peer: PeerInstance;
   status: "creating" | "waiting_answer" | "connected";
   offer?: SignalData;
+  // conexión negociada por un compañero (RESUME): no tiene QR que mostrar
+  resumed?: boolean;
+};
+
+/** Partida del Banco: log de eventos + estado derivado. */
+type BankGame = { log: GameLog; state: GameState };
+
+/** `done` recibe el estado confirmado si el comando entró al log (no se llama si lo rechazan). */
+type Dispatch = (cmd: GameCommand, done?: (next: GameState) => void) => void;
+
+/** HELLO recibido, esperando que el Banco lo acepte. `pub` solo si la firma verificó. */
+type PendingJoin = { connId: ConnId; name: string; kind: JoinKind; pub: string | null; auth: HelloAuth };
+
+const AUTH_LABEL: Record<HelloAuth, { text: string; color: string }> = {
+  ok: { text: "Credencial verificada", color: "#166534" },
+  unbound: { text: "Sin credencial previa (se asocia al aceptar)", color: "#B45309" },
+  missing: { text: "Dispositivo sin credencial", color: "#B45309" },
+  invalid: { text: "Firma inválida", color: "#b91c1c" },
+  mismatch: { text: "Credencial distinta: ¿otro dispositivo?", color: "#b91c1c" },
+};
+
+/** Intento rechazado por las reglas: no va al registro de Tx, solo a diagnósticos. */
+type Diagnostic = { id: string; ts: number; action: string; by: PlayerKey | "BANK"; reason: string };
+
+const DIAGNOSTICS_LIMIT = 100;
+
+/** Color del pozo de Free Parking (chips del encabezado y del registro). */
+const POT_COLOR = "#B45309";
+
+/** Cómo se nombran en la confirmación de deshacer los eventos de jugadores que se descartan. */
+const PLAYER_EVENT_LABEL: Partial<Record<GameCommand["k"], string>> = {
+  player_join: "ingresos",
+  player_disconnect: "desconexiones",
+  player_request: "solicitudes y respuestas",
+  auction_bid: "ofertas de subasta",
 };
 
+/** Color de las acciones rápidas del catálogo del Banco. */
+const ACTION_COLOR = "#0E7490";
+
+/** Color del jugador de turno y de la cárcel. */
+const TURN_COLOR = "#7C3AED";
+const JAIL_COLOR = "#b91c1c";
+
+/**
+ * Entrada de biblioteca para una partida recibida de otro Banco (con sus tokens de reconexión).
+ * La clave del ledger se crea de nuevo en este dispositivo; la anterior queda para anunciar el cambio.
+ */
+function handoffSaved(res: { handoff: BankHandoff; log: GameLog; state: GameState }): SavedGame {
+  const { handoff, log, state } = res;
+  return savedFrom(log, state, {
+    bankPrevPub: handoff.bankPub ? { gameId: state.gameId, pub: handoff.bankPub } : undefined,
+    bankResume: handoff.resume,
+  });
+}
+
+/** Partida copiada o importada: nadie está conectado a ella todavía. */
+function withPlayersOffline(state: GameState): GameState {
+  const players = Object.fromEntries(
+    Object.entries(state.players).map(([k, p]) => [k, { ...p, connected: false, connId: null }])
+  );
+  return { ...state, players };
+}
+
+/** Lo del Banco para la partida abierta, tal como va en Persisted. */
+function secretsOf(saved: SavedGame | null): BankSecrets {
+  return {
+    bankKey: saved?.bankKey,
+    bankPrevPub: saved?.bankPrevPub,
+    bankResume: saved?.bankResume,
+    bankHandedOff: saved?.bankHandedOff,
+  };
+}
+
+/** Partida guardada en localStorage (versiones anteriores, o navegador sin IndexedDB). */
+function legacyBankGame(persist: Persisted): BankGame | null {
+  if (persist.bankLog?.length) {
+    try {
+      return { log: persist.bankLog, state: replay(persist.bankLog) };
+    } catch (e) {
+      console.warn("log inválido", e);
+    }
+  }
+  // partidas guardadas antes del log: el estado guardado pasa a ser el evento inicial
+  return persist.bankState ? startLog(persist.bankState) : null;
+}
+
 function BankScreen({ persist, setPersist }: { persist: Persisted; setPersist: (p: Persisted) => void }) {
-  const [state, setState] = React.useState<GameState | null>(() => persist.bankState ?? null);
+  // con IndexedDB la partida se abre async desde la biblioteca; sin ella queda en localStorage como antes
+  const [game, setGame] = React.useState<BankGame | null>(() => (hasIndexedDB() ? null : legacyBankGame(persist)));
+  const [loaded, setLoaded] = React.useState(!hasIndexedDB());
+  const state = game?.state ?? null;
   const [conns, setConns] = React.useState<Record<string, BankConn>>({});
+  // los handlers de cada peer se crean una sola vez: leen las conexiones actuales por ref
+  const connsRef = React.useRef(conns);
+  connsRef.current = conns;
+  const gameRef = React.useRef(game);
+  gameRef.current = game;
+  // deshacer/rehacer de las acciones del Banco (dispatch); en memoria, se pierde al recargar
+  const [history, setHistory] = React.useState<History>(EMPTY_HISTORY);
   const [scanOpen, setScanOpen] = React.useState(false);
   const [scanError, setScanError] = React.useState<string | null>(null);
 
-  const [pendingJoin, setPendingJoin] = React.useState<
-    Array<{ connId: ConnId; name: string; kind: "new" | "rejoin" | "duplicate" }>
-  >([]);
+  const [pendingJoin, setPendingJoin] = React.useState<PendingJoin[]>([]);
+  const [diagnostics, setDiagnostics] = React.useState<Diagnostic[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+  const errorTimer = React.useRef<number | null>(null);
+
+  // fecha de creación / archivado de la entrada de biblioteca de la partida abierta
+  const savedMeta = React.useRef<Pick<SavedGame, "createdAt" | "archived"> | undefined>(undefined);
+  const saveQueue = React.useRef<Promise<void>>(Promise.resolve());
+  const [libraryOpen, setLibraryOpen] = React.useState(false);
+  const [newGameOpen, setNewGameOpen] = React.useState(false);
+  const [library, setLibrary] = React.useState<GameSummary[]>([]);
 
   // Persist
   React.useEffect(() => {
-    setPersist({ ...persist, bankState: state ?? undefined });
+    if (!loaded) return;
+    if (!hasIndexedDB()) {
+      setPersist({ ...persistRef.current, bankLog: game?.log, bankState: undefined });
+      return;
+    }
+    if (!game) return;
+    const entry = savedFrom(game.log, game.state, persistRef.current, savedMeta.current);
+    saveQueue.current = saveQueue.current.then(() => saveGame(entry)).catch((e) => console.warn("no se pudo guardar la partida", e));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game, loaded, persist.bankKey, persist.bankResume, persist.bankHandedOff]);
+
+  // clave de la partida para firmar el ledger (se anuncia en el Offer)
+  const bankKey = state && persist.bankKey?.gameId === state.gameId ? persist.bankKey.key : null;
+  // partida recibida por entrega: el Offer anuncia qué clave reemplaza la nueva
+  const prevBankPub = state && persist.bankPrevPub?.gameId === state.gameId ? persist.bankPrevPub.pub : undefined;
+  const bankKeyRef = React.useRef(bankKey);
+  bankKeyRef.current = bankKey;
+  const persistRef = React.useRef(persist);
+  persistRef.current = persist;
+
+  const creatingKey = React.useRef<string | null>(null);
+
+  // partida entregada a otro dispositivo: todo queda en solo lectura
+  const handedOff = state && persist.bankHandedOff?.gameId === state.gameId ? persist.bankHandedOff : null;
+  const lockedRef = React.useRef(!!handedOff);
+  lockedRef.current = !!handedOff;
+  const [importOpen, setImportOpen] = React.useState(false);
+  const [importErrors, setImportErrors] = React.useState<string[]>([]);
+  const setImportError = (text: string | null) => setImportErrors(text ? [text] : []);
+
+  React.useEffect(() => {
+    if (!state || bankKey || !hasWebCrypto() || creatingKey.current === state.gameId) return;
+    const gameId = state.gameId;
+    creatingKey.current = gameId;
+    createKeyPair()
+      .then((key) => setPersist({ ...persistRef.current, bankKey: { gameId, key } }))
+      .catch((e) => console.warn("no se pudo crear la clave de la partida", e));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [state]);
+  }, [state?.gameId, bankKey]);
+
+  // STATE/PATCH salen en orden aunque la firma sea async (un jugador no debe ver un ledger más viejo después de uno nuevo)
+  const syncQueue = React.useRef<Promise<void>>(Promise.resolve());
+  // conexiones que ya recibieron un STATE (dijeron HELLO): solo a ellas van los PATCH
+  const syncedRef = React.useRef(new Set<ConnId>());
+  // mensajes por conexión (un peer que inunda el canal no traba al Banco)
+  const limiterRef = React.useRef(createRateLimiter());
+
+  const queueSync = React.useCallback((st: GameState, send: (ledgerSig?: string) => void) => {
+    syncQueue.current = syncQueue.current.then(async () => {
+      const key = bankKeyRef.current;
+      const head = st.tx[0]?.hash;
+      send(key && head ? await signLedgerHead(key, st.gameId, head).catch(() => undefined) : undefined);
+    });
+  }, []);
+
+  const toSynced = (msg: NetMsg) => {
+    Object.values(connsRef.current).forEach((c) => {
+      if (c.status === "connected" && syncedRef.current.has(c.connId)) safeSend(c.peer, msg);
+    });
+  };
 
-  const broadcastState = React.useCallback(
-    (next: GameState) => {
-      Object.values(conns).forEach((c) => {
-        if (c.status === "connected") safeSend(c.peer, { t: "STATE", state: next });
+  /** STATE completo: al unirse, ante un RESYNC o cuando el cambio no entra en un PATCH. */
+  const sendState = React.useCallback(
+    (g: BankGame, only?: PeerInstance) => {
+      queueSync(g.state, (ledgerSig) => {
+        const msg: NetMsg = { t: "STATE", state: g.state, version: g.log.length - 1, ledgerSig };
+        if (only) safeSend(only, msg);
+        else toSynced(msg);
       });
     },
-    [conns]
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [queueSync]
   );
 
-  const mutate = (fn: (cur: GameState) => GameState) => {
-    setState((cur) => {
-      if (!cur) return cur;
-      const next = fn(cur);
-      broadcastState(next);
-      return next;
+  const sendPatch = (base: GameState, from: number, g: BankGame, only?: PeerInstance) => {
+    const patch = diffState(base, g.state);
+    if (!patch) return sendState(g, only);
+    queueSync(g.state, (ledgerSig) => {
+      const msg: NetMsg = { t: "PATCH", from, to: g.log.length - 1, patch, ledgerSig };
+      if (only) safeSend(only, msg);
+      else toSynced(msg);
     });
   };
 
-  const createGame = () => {
-    setState(makeGame());
-    // cerrar conexiones
-    Object.values(conns).forEach((c) => {
-      try { c.peer.destroy(); } catch {}
-    });
-    setConns({});
+  const broadcast = (prev: BankGame, next: BankGame) => sendPatch(prev.state, prev.log.length - 1, next);
+
+  /** Primer envío a una conexión: PATCH desde la versión que ya tenía el jugador, o STATE completo. */
+  const syncPeer = (peer: PeerInstance, connId: ConnId, gameId?: string, version?: number) => {
+    const g = gameRef.current;
+    if (!g) return;
+    syncedRef.current.add(connId);
+    const v = version ?? -1;
+    if (gameId === g.state.gameId && Number.isInteger(v) && v >= 0 && v < g.log.length) {
+      sendPatch(replay(g.log, v), v, g, peer);
+    } else {
+      sendState(g, peer);
+    }
+  };
+
+  const sendToPlayer = (cur: GameState, key: PlayerKey, msg: NetMsg) => {
+    const connId = cur.players[key]?.connId;
+    const conn = connId ? connsRef.current[connId] : undefined;
+    if (conn && conn.status === "connected") safeSend(conn.peer, msg);
+  };
+
+  const showError = (text: string) => {
+    if (errorTimer.current) window.clearTimeout(errorTimer.current);
+    setError(text);
+    errorTimer.current = window.setTimeout(() => setError(null), 3500);
+  };
+
+  /** Guarda un intento rechazado; los del Banco además se muestran como error pasajero. */
+  const noteFailure = (action: string, reason: string, by: PlayerKey | "BANK" = "BANK", at = Date.now()) => {
+    const id = `${at}:${by}:${action}`;
+    // el id evita anotar dos veces el mismo intento
+    setDiagnostics((d) => (d.some((x) => x.id === id) ? d : [{ id, ts: at, action, by, reason }, ...d].slice(0, DIAGNOSTICS_LIMIT)));
+    if (by === "BANK") showError(reason);
+  };
+
+  /** Mensaje de red descartado: queda a nombre del jugador (o de la conexión, si todavía no se unió). */
+  const dropMessage = (connId: ConnId, reason: string) => {
+    const who = Object.values(gameRef.current?.state.players ?? {}).find((p) => p.connId === connId);
+    console.warn("mensaje descartado", connId, reason);
+    noteFailure("net_message", reason, who?.key ?? `conn:${connId}`);
+  };
+
+  /**
+   * Fija la partida nueva en el ref en el acto (el próximo mensaje ya la ve) y después en React.
+   * Los eventos se arman fuera de los updaters de setGame: StrictMode los corre dos veces y cada
+   * corrida generaría otro id de evento, además de repetir los envíos.
+   */
+  const commitGame = (next: BankGame | null) => {
+    gameRef.current = next;
+    setGame(next);
+  };
+
+  /** Agrega el comando al log y difunde el estado resultante; null si no hay partida o no se pudo. */
+  const record = (cmd: GameCommand, by: PlayerKey | "BANK" = "BANK"): BankGame | null => {
+    const cur = gameRef.current;
+    if (!cur || lockedRef.current) return null;
+    const at = Date.now();
+    const next = appendEvent(cur.log, cur.state, cmd, at);
+    if (!next.ok) {
+      noteFailure(cmd.k, next.reason, by, at);
+      return null;
+    }
+    commitGame(next);
+    broadcast(cur, next);
+    return next;
+  };
+
+  /** Acción del Banco: queda en el log y se puede deshacer. */
+  const dispatch: Dispatch = (cmd, done) => {
+    const at = Date.now();
+    if (lockedRef.current) {
+      noteFailure(cmd.k, "Este dispositivo entregó el Banco: solo lectura", "BANK", at);
+      return;
+    }
+    const cur = gameRef.current;
+    if (!cur) return;
+    const next = appendEvent(cur.log, cur.state, cmd, at);
+    if (!next.ok) {
+      noteFailure(cmd.k, next.reason, "BANK", at);
+      return;
+    }
+    if (next.state === cur.state) return; // sin efecto: no se registra
+    commitGame(next);
+    setHistory((h) => pushHistory(h, cur.log.length - 1));
+    broadcast(cur, next);
+    done?.(next.state);
+  };
+
+  const travel = (res: { history: History; seq: number } | null) => {
+    if (!res || !game) return;
+    // volver atrás también borra lo que los jugadores hicieron después (pagos, ofertas, ingresos)
+    const lost = discardedPlayerEvents(game.log, game.log.length - 1, res.seq);
+    if (lost.length) {
+      const kinds = [...new Set(lost.map((ev) => PLAYER_EVENT_LABEL[ev.k] ?? ev.k))].join(", ");
+      if (!confirm(`Esto también descarta ${lost.length} acción(es) de jugadores (${kinds}). ¿Seguir?`)) return;
+    }
+    setHistory(res.history);
+    record({ k: "restore", to: res.seq });
+  };
+
+  /** Abre una partida (nueva o de la biblioteca): corta las conexiones de la anterior, que queda guardada. */
+  const openGame = (g: BankGame | null, saved: SavedGame | null) => {
+    closeAll();
+    savedMeta.current = saved ? { createdAt: saved.createdAt, archived: saved.archived } : undefined;
+    const next = { ...persistRef.current, ...secretsOf(saved), activeGameId: g?.state.gameId };
+    persistRef.current = next;
+    setPersist(next);
+    commitGame(g);
+    setHistory(EMPTY_HISTORY);
     setPendingJoin([]);
     setScanError(null);
     setScanOpen(false);
   };
 
+  const openSaved = (saved: SavedGame) => openGame({ log: saved.log, state: replay(saved.log) }, saved);
+
+  const createGame = (rules: GameRules, board: BoardDef) => {
+    if (state && !confirm("La partida actual queda guardada en la biblioteca y se desconectan sus jugadores. ¿Crear otra?")) return;
+    openGame(startLog(makeGame(rules, board)), null);
+    setNewGameOpen(false);
+  };
+
+  // al montar: migrar la partida de localStorage a la biblioteca y abrir la activa
+  React.useEffect(() => {
+    if (!hasIndexedDB()) return;
+    let alive = true;
+    (async () => {
+      const p = persistRef.current;
+      let active = p.activeGameId;
+      const legacy = legacyBankGame(p);
+      if (legacy) {
+        await saveGame(savedFrom(legacy.log, legacy.state, p));
+        active = legacy.state.gameId;
+        const next = { ...persistRef.current, bankLog: undefined, bankState: undefined, activeGameId: active };
+        persistRef.current = next;
+        setPersist(next);
+      }
+      const saved = active ? await loadGame(active) : undefined;
+      if (alive && saved) openSaved(saved);
+    })()
+      .catch((e) => console.warn("no se pudo abrir la biblioteca", e))
+      .finally(() => alive && setLoaded(true));
+    return () => {
+      alive = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const refreshLibrary = () => {
+    saveQueue.current
+      .then(listGames)
+      .then(setLibrary)
+      .catch((e) => console.warn("no se pudo leer la biblioteca", e));
+  };
+
+  const switchGame = (gameId: string) => {
+    void saveQueue.current
+      .then(() => loadGame(gameId))
+      .then((saved) => {
+        if (saved) openSaved(saved);
+      });
+  };
+
+  const duplicateGame = (gameId: string) => {
+    void loadGame(gameId)
+      .then((saved) => {
+        if (!saved) return;
+        // copia desde el estado actual: historial nuevo, gameId nuevo (la clave del ledger se crea al abrirla)
+        const copy = startLog({ ...withPlayersOffline(replay(saved.log)), gameId: newGameId(), createdAt: Date.now() });
+        return saveGame(savedFrom(copy.log, copy.state, {}));
+      })
+      .then(refreshLibrary);
+  };
+
+  const toggleArchived = (g: GameSummary) => {
+    // la partida abierta se vuelve a guardar con cada cambio: que lo haga ya con la marca nueva
+    if (g.gameId === state?.gameId) savedMeta.current = { createdAt: g.createdAt, archived: !g.archived || undefined };
+    saveQueue.current = saveQueue.current
+      .then(() => setArchived(g.gameId, !g.archived))
+      .catch((e) => console.warn("no se pudo archivar la partida", e));
+    refreshLibrary();
+  };
+
+  const removeGame = (g: GameSummary) => {
+    if (!confirm(`¿Borrar la partida ${g.gameId}? No se puede recuperar.`)) return;
+    if (g.gameId === state?.gameId) openGame(null, null);
+    void saveQueue.current.then(() => deleteGame(g.gameId)).then(refreshLibrary);
+  };
+
+  /** Cierra la partida y limpia este dispositivo (la biblioteca no se toca). */
   const resetAll = () => {
-    setState(null);
-    Object.values(conns).forEach((c) => {
+    commitGame(null);
+    setHistory(EMPTY_HISTORY);
+    closeAll();
+    setPendingJoin([]);
+    setScanError(null);
+    setScanOpen(false);
+    const next = { role: persist.role, deviceId: persist.deviceId, deviceKey: persist.deviceKey };
+    persistRef.current = next;
+    setPersist(next);
+  };
+
+  const closeAll = () => {
+    Object.values(connsRef.current).forEach((c) => {
       try { c.peer.destroy(); } catch {}
     });
     setConns({});
+    meshRef.current.clear();
+  };
+
+  /**
+   * Entrega la partida: a un jugador conectado (su dispositivo pasa a ser el Banco) o por QR/archivo.
+   * Desde acá este dispositivo no acepta más cambios; los demás jugadores reciben BANK_MOVED.
+   */
+  const handOff = (to: PlayerKey | null) => {
+    const g = gameRef.current;
+    if (!g || lockedRef.current) return;
+    const at = Date.now();
+    const bundle = makeHandoff(g.log, g.state, persist.deviceId, bankKeyRef.current?.pub, persistRef.current.bankResume, at);
+    const target = to ? g.state.players[to]?.connId : undefined;
+    if (to && !fitsPeerChannel(bundle)) {
+      showError("La partida es muy grande para mandarla por el canal: usá QR o archivo");
+      return;
+    }
+
+    Object.values(connsRef.current).forEach((c) => {
+      if (c.status !== "connected") return;
+      safeSend(c.peer, c.connId === target ? { t: "HANDOFF", handoff: bundle } : { t: "BANK_MOVED" });
+    });
+    const next = { ...persistRef.current, bankHandedOff: { gameId: g.state.gameId, at, to: to ?? undefined } };
+    persistRef.current = next;
+    lockedRef.current = true;
+    setPersist(next);
     setPendingJoin([]);
-    setScanError(null);
     setScanOpen(false);
-    setPersist({ role: persist.role, deviceId: persist.deviceId });
+    // dar tiempo a que salgan los mensajes antes de cortar
+    window.setTimeout(closeAll, 1500);
+  };
+
+  const importHandoff = (raw: unknown) => {
+    const res = readHandoff(raw);
+    if (!res.ok) {
+      setImportError(res.reason);
+      return;
+    }
+    const saved = handoffSaved(res);
+    openGame({ log: res.log, state: res.state }, saved);
+    setImportError(null);
+    setImportOpen(false);
+  };
+
+  const onScanHandoff = (text: string) => {
+    try {
+      importHandoff(decodeQR<BankHandoff>(text));
+    } catch (e: any) {
+      setImportError(e?.message ?? "No se pudo leer QR");
+    }
+  };
+
+  /** Archivo de partida (ver gamefile.ts): se abre como partida nueva con su historial de Tx. */
+  const importGameFile = async (raw: unknown) => {
+    const res = importGame(raw);
+    if (!res.ok) {
+      setImportErrors(res.errors);
+      return;
+    }
+    let st = withPlayersOffline(res.state);
+    const existing = hasIndexedDB() ? await loadGame(st.gameId).catch(() => undefined) : undefined;
+    if ((existing || st.gameId === state?.gameId) && !confirm(`Ya existe la partida ${st.gameId}. ¿Reemplazarla? (Cancelar la importa como copia)`)) {
+      st = { ...st, gameId: newGameId() };
+    }
+    const g = startLog(st);
+    // si reemplaza, conserva la clave del ledger y los tokens: los jugadores siguen reconociendo al Banco
+    openGame(g, existing && existing.gameId === st.gameId ? { ...existing, log: g.log } : null);
+    setImportErrors([]);
+    setImportOpen(false);
+  };
+
+  const onImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    let raw: any;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      setImportError("El archivo no es JSON");
+      return;
+    }
+    if (raw?.kind === "HANDOFF") importHandoff(raw);
+    else await importGameFile(raw);
+  };
+
+  // enlaces directos entre jugadores que el Banco armó (para reconectar por un compañero)
+  const meshRef = React.useRef(new Set<string>());
+
+  /** Token nuevo para el jugador recién aceptado y, si no tiene, un compañero con quien enlazarse. */
+  const welcome = (peer: PeerInstance, gameId: string, key: PlayerKey) => {
+    const token = newResumeToken();
+    const next = { ...persistRef.current, bankResume: issueResume(persistRef.current.bankResume, gameId, key, token) };
+    persistRef.current = next;
+    setPersist(next);
+    safeSend(peer, { t: "WELCOME", key, token });
+    linkBuddy(peer, key);
+  };
+
+  const linkBuddy = (peer: PeerInstance, key: PlayerKey) => {
+    const cur = gameRef.current?.state;
+    if (!cur || linksOf(meshRef.current, key).length) return;
+    const buddy = pickBuddy(cur, key, meshRef.current);
+    if (!buddy) return;
+    meshRef.current.add(meshPair(key, buddy));
+    safeSend(peer, { t: "MESH", op: "link", peer: buddy });
+  };
+
+  /** Offer de reconexión que llega reenviado por `relay`: si el token vale, el Banco contesta por el mismo camino. */
+  const resumeVia = (relay: PeerInstance, msg: Extract<NetMsg, { t: "RESUME"; op: "offer" }>) => {
+    const g = gameRef.current;
+    const fail = (reason: string) => safeSend(relay, { t: "RESUME", op: "fail", key: msg.key, reason });
+    if (!g || !g.state.players[msg.key]) return fail("Jugador desconocido");
+    if (!checkResume(persistRef.current.bankResume, g.state.gameId, msg.key, msg.token)) return fail("Token de reconexión inválido");
+
+    const connId = nanoid(10);
+    const peer = new SimplePeer({ initiator: false, trickle: false, config: { iceServers: ICE_SERVERS } });
+    setConns((prev) => ({ ...prev, [connId]: { connId, peer, status: "creating", resumed: true } }));
+    peer.on("signal", (signal: SignalData) => safeSend(relay, { t: "RESUME", op: "answer", key: msg.key, connId, signal }));
+    wirePeer(peer, connId);
+    peer.signal(msg.signal);
   };
 
   const addConnectionOffer = () => {
     if (!state) return;
     const connId = nanoid(10);
 
+    // trickle: el QR se arma apenas hay candidatos suficientes, sin esperar toda la recolección
     const peer = new SimplePeer({
       initiator: true,
-      trickle: false,
-      config: { iceServers: [{ urls: "stun:stun.l.google.com:19302" }] },
+      trickle: true,
+      config: { iceServers: ICE_SERVERS },
     });
 
     const conn: BankConn = { connId, peer, status: "creating" };
     setConns((prev) => ({ ...prev, [connId]: conn }));
 
-    peer.on("signal", (offer: SignalData) => {
+    gatherSignal(peer, (offer) => {
       setConns((prev) => ({
         ...prev,
         [connId]: { ...prev[connId], offer, status: "waiting_answer" },
       }));
     });
 
+    wirePeer(peer, connId);
+  };
+
+  /** Handlers de una conexión con un jugador (por Offer QR o reanudada por un compañero). */
+  const wirePeer = (peer: PeerInstance, connId: ConnId) => {
     peer.on("connect", () => {
       setConns((prev) => ({ ...prev, [connId]: { ...prev[connId], status: "connected" } }));
-      // empujar state actual
-      setState((cur) => {
-        if (!cur) return cur;
-        broadcastState(cur);
-        return cur;
-      });
+      // el estado se manda al recibir HELLO (ahí el jugador dice qué versión tenía)
     });
 
     peer.on("data", (data: unknown) => {
-      const msg = safeParse(data) as NetMsg | null;
-      if (!msg) return;
+      const rate = limiterRef.current.take(connId);
+      if (!rate.ok) {
+        // se anota solo el primero de cada ráfaga
+        if (rate.dropped === 1) dropMessage(connId, "Demasiados mensajes seguidos");
+        return;
+      }
+      const parsed = parseNetMsg(data);
+      if (!parsed.ok) {
+        dropMessage(connId, parsed.reason);
+        return;
+      }
+      const msg = parsed.value;
 
       if (msg.t === "HELLO") {
         // jugador pide unirse o reconectar
@@ -221,58 +812,130 @@ function BankScreen({ persist, setPersist }: { persist: Persisted; setPersist: (
           return;
         }
 
-        setState((cur) => {
-          if (!cur) return cur;
+        const gameId = gameRef.current?.state.gameId;
+        if (!gameId) return;
+        syncPeer(peer, connId, msg.gameId, msg.version);
+        // sin WebCrypto (http fuera de localhost) el Banco no puede verificar: se trata como sin credencial
+        const pub = hasWebCrypto() && typeof msg.pub === "string" ? msg.pub : null;
+        // la firma se verifica contra el connId de ESTA conexión, no el que dice el mensaje
+        const proof = pub && msg.sig ? verifyHello(pub, gameId, connId, msg.sig) : Promise.resolve(false);
+
+        void proof.then((valid) => {
+          // token de reconexión válido: vuelve a su PlayerKey sin pasar por la aprobación
+          const resume = msg.resume;
+          const back = resume && gameRef.current?.state.players[resume.key];
+          if (resume && back && checkResume(persistRef.current.bankResume, gameId, resume.key, resume.token)) {
+            record({ k: "player_join", connId, name: back.name, kind: "rejoin", publicKey: valid ? pub ?? undefined : undefined }, resume.key);
+            welcome(peer, gameId, resume.key);
+            return;
+          }
+
+          const cur = gameRef.current;
+          if (!cur) return;
+
+          const exists = cur.state.players[key];
+          const auth = helloAuth(exists, pub, valid);
+          const entry = { connId, name, pub: valid ? pub : null, auth };
 
-          const exists = cur.players[key];
           if (!exists) {
             // nuevo: queda pendiente hasta que el Banco acepte
-            setPendingJoin((p) => [...p, { connId: msg.connId, name, kind: "new" }]);
-            return cur;
+            setPendingJoin((p) => [...p, { ...entry, kind: "new" }]);
+            return;
           }
 
-          if (exists.connected) {
-            // nombre ya usado por un jugador conectado
-            setPendingJoin((p) => [...p, { connId: msg.connId, name, kind: "duplicate" }]);
-            return cur;
+          if (exists.connected && auth !== "ok") {
+            // nombre ya usado por un jugador conectado (desde otro dispositivo)
+            setPendingJoin((p) => [...p, { ...entry, kind: "duplicate" }]);
+            return;
           }
 
-          // existe pero estaba desconectado => rejoin
-          setPendingJoin((p) => [...p, { connId: msg.connId, name, kind: "rejoin" }]);
-          return cur;
+          // desconectado, o el mismo dispositivo con una conexión vieja colgada => rejoin
+          setPendingJoin((p) => [...p, { ...entry, kind: "rejoin" }]);
         });
       }
 
+      if (msg.t === "RESYNC") {
+        const g = gameRef.current;
+        if (g && syncedRef.current.has(connId)) sendState(g, peer);
+      }
+
+      if (msg.t === "MESH") {
+        const cur = gameRef.current?.state;
+        const from = cur && Object.values(cur.players).find((p) => p.connId === connId);
+        if (!cur || !from || msg.peer === from.key) return;
+        if (msg.op === "signal") sendToPlayer(cur, msg.peer, { t: "MESH", op: "signal", peer: from.key, signal: msg.signal });
+        if (msg.op === "lost") {
+          meshRef.current.delete(meshPair(from.key, msg.peer));
+          linkBuddy(peer, from.key);
+        }
+      }
+
+      if (msg.t === "RESUME" && msg.op === "offer") {
+        // solo reenvía un jugador ya aceptado
+        const cur = gameRef.current?.state;
+        if (cur && Object.values(cur.players).some((p) => p.connId === connId)) resumeVia(peer, msg);
+      }
+
+      if (msg.t === "BID") {
+        const cur = gameRef.current;
+        if (!cur) return;
+        const bidder = Object.values(cur.state.players).find((p) => p.connId === connId);
+        const res = bidder
+          ? placeBid(cur.state, bidder.key, msg.auctionId, msg.amount)
+          : { ok: false as const, reason: "Todavía no fuiste aceptado por el Banco" };
+        if (bidder && !res.ok) noteFailure("auction_bid", res.reason, bidder.key);
+        // la respuesta sale de lo que quedó en el log, no de la validación previa
+        const next = bidder && res.ok ? record({ k: "auction_bid", player: bidder.key, auctionId: msg.auctionId, amount: msg.amount }, bidder.key) : null;
+        const reason = res.ok ? (next ? undefined : "El Banco no pudo registrar la oferta") : res.reason;
+        safeSend(peer, { t: "BID_RESULT", auctionId: msg.auctionId, ok: !!next, reason });
+      }
+
       if (msg.t === "REQUEST") {
-        // En MVP: requests solo de pago; quedan como TX “pendiente” (manual)
-        // Podés evolucionarlo a un panel de aprobación.
-        setState((cur) => {
-          if (!cur) return cur;
-          const note = `Solicitud: ${msg.req.k} (${msg.req.note ?? ""})`;
-          return addTx(cur, { type: "cash", from: "BANK", to: "BANK", note });
-        });
+        // pagos/rentas quedan pendientes hasta que el Banco los apruebe o rechace (panel de solicitudes)
+        const cur = gameRef.current;
+        if (!cur) return;
+        const requester = Object.values(cur.state.players).find((p) => p.connId === connId);
+        if (!requester) {
+          safeSend(peer, { t: "REJECT", reason: "Todavía no fuiste aceptado por el Banco" });
+          return;
+        }
+        const req = msg.req;
+        if (req.k === "PAY" || req.k === "RENT" || req.k === "BANK_ACTION") {
+          record({ k: "player_request", by: requester.key, req }, requester.key);
+          return;
+        }
+
+        // el resto se aplica al instante; si falla, se avisa al jugador
+        const res = applyPlayerAction(cur.state, requester.key, req);
+        if (!res.ok) {
+          safeSend(peer, { t: "NOTICE", text: res.reason, warn: true });
+          noteFailure(`player_request:${req.k}`, res.reason, requester.key);
+          return;
+        }
+        const next = record({ k: "player_request", by: requester.key, req }, requester.key);
+        if (!next) return;
+        if (req.k === "TRADE_PROPOSE") {
+          sendToPlayer(next.state, req.to, { t: "NOTICE", text: `Nueva propuesta de intercambio de ${requester.name}` });
+        }
+        if (req.k === "TRADE_RESPOND") {
+          const t = next.state.trades.find((x) => x.id === req.tradeId);
+          if (t?.status === "failed") safeSend(peer, { t: "NOTICE", text: `Intercambio fallido: ${t.reason}`, warn: true });
+          if (t) sendToPlayer(next.state, t.from === requester.key ? t.to : t.from, { t: "NOTICE", text: tradeStatusText(t.status) });
+        }
       }
     });
 
     peer.on("close", () => {
+      syncedRef.current.delete(connId);
+      limiterRef.current.forget(connId);
       setConns((prev) => {
         const copy = { ...prev };
         delete copy[connId];
         return copy;
       });
       // marcar jugador desconectado si estaba asociado
-      setState((cur) => {
-        if (!cur) return cur;
-        const players = { ...cur.players };
-        for (const k of Object.keys(players)) {
-          if (players[k].connId === connId) {
-            players[k] = { ...players[k], connId: null, connected: false };
-          }
-        }
-        const next = { ...cur, players };
-        broadcastState(next);
-        return next;
-      });
+      const cur = gameRef.current;
+      if (cur && Object.values(cur.state.players).some((p) => p.connId === connId)) record({ k: "player_disconnect", connId });
     });
 
     peer.on("error", (e: unknown) => console.warn("peer error", e));
@@ -296,69 +959,73 @@ function BankScreen({ persist, setPersist }: { persist: Persisted; setPersist: (
     }
   };
 
-  const acceptJoin = (req: { connId: ConnId; name: string; kind: "new" | "rejoin" | "duplicate" }, accept: boolean) => {
+  const resolveRequest = (id: string, approve: boolean) => {
+    if (!state) return;
+    const r = state.requests.find((x) => x.id === id);
+    if (!r || r.status !== "pending") return;
+
+    // el resultado sale del estado confirmado: si el comando no entra (solo lectura, estado viejo) no se avisa nada
+    dispatch({ k: "request_resolve", requestId: id, approve }, (next) => {
+      const done = next.requests.find((x) => x.id === id);
+      if (done && done.status !== "pending") {
+        sendToPlayer(next, r.by, { t: "REQUEST_RESULT", requestId: id, status: done.status, reason: done.reason });
+      }
+    });
+  };
+
+  const acceptJoin = (req: PendingJoin, accept: boolean) => {
     setPendingJoin((p) => p.filter((x) => x !== req));
 
     const conn = conns[req.connId];
-    if (!conn) return;
+    if (!conn || !state) return;
 
     if (!accept) {
       safeSend(conn.peer, { t: "REJECT", reason: "Rechazado por el Banco" });
       return;
     }
 
-    mutate((cur) => {
-      const key = normalizeName(req.name);
-      const players = { ...cur.players };
-
-      if (req.kind === "new") {
-        players[key] = {
-          key,
-          name: req.name,
-          connId: req.connId,
-          connected: true,
-          balance: cur.startingCash,
-        };
-        return { ...cur, players };
-      }
-
-      if (req.kind === "rejoin") {
-        const old = players[key];
-        if (!old) return cur;
-        players[key] = { ...old, connId: req.connId, connected: true, name: req.name };
-        return { ...cur, players };
-      }
-
-      // duplicate aceptado: forzamos nombre único agregando sufijo
-      let unique = key;
-      let n = 2;
-      while (players[unique]) {
-        unique = `${key} ${n}`;
-        n++;
-      }
-      players[unique] = {
-        key: unique,
-        name: unique,
-        connId: req.connId,
-        connected: true,
-        balance: cur.startingCash,
-      };
-      return { ...cur, players };
-    });
+    const key = joinKeyFor(state, req.name, req.kind);
+    // como las demás acciones de jugadores, el ingreso no entra en el deshacer del Banco
+    record({ k: "player_join", connId: req.connId, name: req.name, kind: req.kind, publicKey: req.pub ?? undefined });
+    welcome(conn.peer, state.gameId, key);
   };
 
   return (
     <>
+      {error && (
+        <div className="animate-pop sticky top-2 z-20 rounded-2xl border border-rose-200 bg-rose-100/90 px-3 py-2 text-xs font-black uppercase tracking-wide text-rose-900 shadow-sm">
+          {error}
+        </div>
+      )}
+
       <Card
         title="Partida"
         right={
           <Row>
-            <Btn onClick={createGame} disabled={!!state}>Crear</Btn>
+            <Btn onClick={() => setNewGameOpen((v) => !v)} disabled={!loaded}>
+              {newGameOpen ? "Cancelar" : "Crear"}
+            </Btn>
+            {hasIndexedDB() && (
+              <Btn
+                variant="ghost"
+                onClick={() => {
+                  if (!libraryOpen) refreshLibrary();
+                  setLibraryOpen((v) => !v);
+                }}
+              >
+                {libraryOpen ? "Cerrar partidas" : "Partidas"}
+              </Btn>
+            )}
+            <Btn variant="ghost" onClick={() => setImportOpen((v) => !v)} disabled={!loaded}>
+              {importOpen ? "Cerrar" : "Importar"}
+            </Btn>
             <Btn variant="danger" onClick={resetAll}>Reset</Btn>
           </Row>
         }
       >
-        {!state ? (
+        {!loaded ? (
+          <div style={{ color: "var(--muted)", fontSize: 13 }}>Abriendo partida…</div>
+        ) : !state ? (
           <div style={{ color: "var(--muted)", fontSize: 13, lineHeight: 1.4 }}>
             Creá una partida en este dispositivo (Banco). Luego generás Offers por QR y los jugadores se conectan.
           </div>
@@ -366,12 +1033,30 @@ function BankScreen({ persist, setPersist }: { persist: Persisted; setPersist: (
           <>
             <Row>
               <Chip label={`Game: ${state.gameId}`} color="#111827" />
-              <Chip label={`Inicial: ${formatMoney(state.startingCash)}`} color="#2ECC71" />
+              <Chip label={`Inicial: ${formatMoney(state.rules.startingCash)}`} color="#2ECC71" />
               <Chip label={`Jugadores: ${Object.keys(state.players).length}`} color="#1E3A8A" />
+              <Chip label={`Tablero: ${state.board.name}`} color="#6B7280" />
+              {state.rules.freeParking && <Chip label={`Pozo: ${formatMoney(state.pot)}`} color={POT_COLOR} />}
+              {currentTurn(state) && <Chip label={`Turno: ${playerDisplay(state, currentTurn(state)!)}`} color={TURN_COLOR} />}
             </Row>
             <Divider />
             <Row>
-              <Btn onClick={addConnectionOffer}>+ Offer (QR)</Btn>
+              <Btn variant="ghost" onClick={() => travel(undo(history, game!.log.length - 1))} disabled={!history.past.length}>
+                Deshacer
+              </Btn>
+              <Btn variant="ghost" onClick={() => travel(redo(history, game!.log.length - 1))} disabled={!history.future.length}>
+                Rehacer
+              </Btn>
+              <Btn variant="ghost" onClick={() => downloadJson(`partida-${state.gameId}.json`, exportGame(state))}>
+                Exportar JSON
+              </Btn>
+              <Btn variant="ghost" onClick={() => downloadJson(`tablero-${state.board.id}.json`, exportBoard(state.board))}>
+                Exportar tablero
+              </Btn>
+            </Row>
+            <Divider />
+            <Row>
+              <Btn onClick={addConnectionOffer} disabled={!!handedOff}>+ Offer (QR)</Btn>
               <Btn variant="ghost" onClick={() => setScanOpen((v) => !v)} disabled={!Object.keys(conns).length}>
                 {scanOpen ? "Cerrar escáner" : "Escanear Answer"}
               </Btn>
@@ -386,19 +1071,13 @@ function BankScreen({ persist, setPersist }: { persist: Persisted; setPersist: (
             Permití cámara. Si falla, el jugador puede copiar/pegar el texto.
           </div>
           <div style={{ borderRadius: 16, overflow: "hidden", border: "1px solid var(--border)" }}>
-            <Scanner
-              onScan={(codes: IDetectedBarcode[]) => {
-                const raw = codes?.[0]?.rawValue;
-                if (raw) onScanAnswer(raw);
-              }}
-              onError={(error: unknown) => console.warn(error)}
-            />
+            <QRScanner onText={onScanAnswer} onError={setScanError} />
           </div>
           {scanError && <div style={{ marginTop: 10, color: "var(--danger)", fontWeight: 900 }}>{scanError}</div>}
         </Card>
       )}
 
-      {state && <OffersPanel state={state} conns={conns} />}
+      {state && <OffersPanel state={state} conns={conns} bankPub={bankKey?.pub} prevBankPub={prevBankPub} />}
       {state && pendingJoin.length > 0 && (
         <Card title={`Solicitudes de unión / reconexión (${pendingJoin.length})`}>
           <div style={{ display: "grid", gap: 10 }}>
@@ -411,7 +1090,26 @@ function BankScreen({ persist, setPersist }: { persist: Persisted; setPersist: (
                   </span>
                 </div>
                 <Row>
-                  <Btn onClick={() => acceptJoin(r, true)}>Aceptar</Btn>
+                  <Chip label={AUTH_LABEL[r.auth].text} color={AUTH_LABEL[r.auth].color} />
+                </Row>
+                {r.kind === "rejoin" && r.auth !== "ok" && (
+                  <div style={{ fontSize: 12, color: "var(--danger)", fontWeight: 900 }}>
+                    {r.auth === "unbound"
+                      ? "No se puede comprobar que sea el mismo jugador."
+                      : "Este dispositivo no probó ser el de este jugador: al aceptar toma su saldo y propiedades."}
+                  </div>
+                )}
+                <Row>
+                  {r.kind === "rejoin" && (r.auth === "mismatch" || r.auth === "invalid" || r.auth === "missing") ? (
+                    <Btn
+                      variant="danger"
+                      onClick={() => confirm(`¿Reconectar a ${r.name} sin credencial válida?`) && acceptJoin(r, true)}
+                    >
+                      Aceptar igual
+                    </Btn>
+                  ) : (
+                    <Btn onClick={() => acceptJoin(r, true)}>Aceptar</Btn>
+                  )}
                   <Btn variant="ghost" onClick={() => acceptJoin(r, false)}>Rechazar</Btn>
                 </Row>
               </div>
@@ -420,18 +1118,95 @@ function BankScreen({ persist, setPersist }: { persist: Persisted; setPersist: (
         </Card>
       )}
 
-      {state && <BankPlayers state={state} mutate={mutate} />}
-      {state && <BankProperties state={state} mutate={mutate} />}
-      {state && <BankBuildMortgage state={state} mutate={mutate} />}
-      {state && <BankBankruptcy state={state} mutate={mutate} />}
-      {state && <BankAuctions state={state} mutate={mutate} />}
-      {state && <Audit state={state} />}
+      {newGameOpen && <NewGameForm onCreate={createGame} />}
+
+      {libraryOpen && (
+        <GameLibrary
+          games={library}
+          activeId={state?.gameId ?? null}
+          onOpen={(id) => {
+            if (state && !confirm("Se desconectan los jugadores de la partida actual (queda guardada). ¿Abrir la otra?")) return;
+            switchGame(id);
+          }}
+          onArchive={toggleArchived}
+          onDuplicate={duplicateGame}
+          onDelete={removeGame}
+        />
+      )}
+
+      {importOpen && (
+        <Card title="Importar partida / recibir Banco">
+          <div style={{ fontSize: 12, color: "var(--muted)", marginBottom: 8 }}>
+            Escaneá el QR animado del Banco anterior, o cargá su archivo de entrega o un archivo de partida (JSON).
+          </div>
+          <div style={{ borderRadius: 16, overflow: "hidden", border: "1px solid var(--border)" }}>
+            <QRScanner onText={onScanHandoff} onError={setImportError} />
+          </div>
+          <div style={{ marginTop: 10 }}>
+            <Label>Archivo</Label>
+            <Input type="file" accept="application/json,.json" onChange={(e) => void onImportFile(e.target.files?.[0])} />
+          </div>
+          {importErrors.length > 0 && (
+            <div style={{ marginTop: 10, color: "var(--danger)", fontWeight: 900, fontSize: 13 }}>
+              {importErrors.length > 1 && <div>El archivo tiene {importErrors.length} problemas:</div>}
+              {importErrors.slice(0, 12).map((e, i) => (
+                <div key={i}>{e}</div>
+              ))}
+              {importErrors.length > 12 && <div>… y {importErrors.length - 12} más</div>}
+            </div>
+          )}
+        </Card>
+      )}
+
+      {game && (
+        <BankTransfer
+          state={game.state}
+          log={game.log}
+          deviceId={persist.deviceId}
+          handedOff={handedOff}
+          bankPub={bankKey?.pub}
+          resume={persist.bankResume}
+          onHandOff={handOff}
+        />
+      )}
+      {state && <BankRequests state={state} onResolve={resolveRequest} />}
+      {state && <BankTurns state={state} dispatch={dispatch} />}
+      {state && <BankPlayers state={state} dispatch={dispatch} />}
+      {state && <BankRent state={state} dispatch={dispatch} />}
+      {state && <BankProperties state={state} dispatch={dispatch} />}
+      {state && <BankBuildMortgage state={state} dispatch={dispatch} />}
+      {state && <BankShortage state={state} dispatch={dispatch} />}
+      {state && <BankBankruptcy state={state} dispatch={dispatch} />}
+      {state && <BankAuctions state={state} dispatch={dispatch} />}
+      {state && <BankTrades state={state} dispatch={dispatch} />}
+      {game && (
+        <Audit
+          state={game.state}
+          log={game.log}
+          canRollback={(txId) => canRollbackTo(game.state, txId)}
+          onRollback={(txId) => {
+            if (!confirm("Volver a este movimiento. Todo lo posterior queda marcado como revertido.")) return;
+            travel(rollbackTo(history, game.state, game.log.length - 1, txId));
+          }}
+        />
+      )}
+      {state && <BankDiagnostics state={state} items={diagnostics} onClear={() => setDiagnostics([])} />}
     </>
   );
 }
 
-function OffersPanel({ state, conns }: { state: GameState; conns: Record<string, BankConn> }) {
-  const list = Object.values(conns);
+function OffersPanel({
+  state,
+  conns,
+  bankPub,
+  prevBankPub,
+}: {
+  state: GameState;
+  conns: Record<string, BankConn>;
+  bankPub?: string;
+  prevBankPub?: string;
+}) {
+  const list = Object.values(conns).filter((c) => !c.resumed);
   if (!list.length) return null;
 
   return (
@@ -440,7 +1215,7 @@ function OffersPanel({ state, conns }: { state: GameState; conns: Record<string,
         {list.map((c) => {
           const offerPayload =
             c.offer
-              ? encodeQR({ kind: "OFFER", gameId: state.gameId, connId: c.connId, signal: c.offer })
+              ? encodeSignalQR({ kind: "OFFER", gameId: state.gameId, connId: c.connId, signal: c.offer, bankPub, prevBankPub })
               : null;
           const offerLink = offerPayload ? buildOfferLink(offerPayload) : null;
 
@@ -457,17 +1232,607 @@ function OffersPanel({ state, conns }: { state: GameState; conns: Record<string,
                   </Btn>
                 )}
               </Row>
-
-              {offerLink ? (
-                <div style={{ display: "grid", justifyItems: "center", gap: 8, marginTop: 10 }}>
-                  <QRCodeCanvas value={offerLink} size={220} includeMargin />
-                  <div style={{ fontSize: 12, color: "var(--muted)", textAlign: "center" }}>
-                    El jugador escanea este QR y entra directo a la partida (link).
-                  </div>
-                </div>
-              ) : (
-                <div style={{ fontSize: 12, color: "var(--muted)", marginTop: 8 }}>Generando offer…</div>
-              )}
+
+              {offerLink ? (
+                <div style={{ display: "grid", justifyItems: "center", gap: 8, marginTop: 10 }}>
+                  <AnimatedQR value={offerLink} />
+                  <div style={{ fontSize: 12, color: "var(--muted)", textAlign: "center" }}>
+                    El jugador escanea este QR y entra directo a la partida (link).
+                  </div>
+                </div>
+              ) : (
+                <div style={{ fontSize: 12, color: "var(--muted)", marginTop: 8 }}>Generando offer…</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
+
+/** Inventario del Banco para mostrar ("sin límite" con edificios ilimitados). */
+function stockLabel(state: GameState, n: number): string {
+  return state.rules.unlimitedBuildings ? "sin límite" : String(n);
+}
+
+function formatDate(ts: number): string {
+  return new Date(ts).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+}
+
+/** Campos del formulario (texto mientras se edita; los porcentajes en %). */
+function rulesForm(r: GameRules) {
+  return {
+    startingCash: String(r.startingCash),
+    totalHouses: String(r.totalHouses),
+    totalHotels: String(r.totalHotels),
+    mortgagePct: String(r.mortgageRatio * 100),
+    interestPct: String(r.mortgageInterest * 100),
+    evenBuild: r.evenBuild,
+    unlimitedBuildings: r.unlimitedBuildings,
+    freeParking: r.freeParking,
+    actions: r.bankActions.map(actionForm),
+    jailBail: String(r.jailBail),
+  };
+}
+
+function actionForm(a: BankAction) {
+  return {
+    id: a.id,
+    label: a.label,
+    dir: a.dir,
+    amount: String(a.amount),
+    pct: a.netWorthPct ? String(a.netWorthPct * 100) : "",
+    tag: (a.tag ?? "") as CashTag | "",
+  };
+}
+
+function formAction(a: ReturnType<typeof actionForm>): BankAction {
+  return {
+    id: a.id,
+    label: a.label.trim(),
+    dir: a.dir,
+    amount: Number(a.amount),
+    ...(a.pct.trim() ? { netWorthPct: Number(a.pct) / 100 } : {}),
+    ...(a.dir === "to_bank" && a.tag ? { tag: a.tag } : {}),
+  };
+}
+
+/** Reglas de la casa y tablero para una partida nueva (después no se pueden cambiar). */
+function NewGameForm({ onCreate }: { onCreate: (rules: GameRules, board: BoardDef) => void }) {
+  const [f, setF] = React.useState(() => rulesForm(DEFAULT_RULES));
+  const [board, setBoard] = React.useState<BoardDef>(CLASSIC_BOARD);
+  const [editBoard, setEditBoard] = React.useState(false);
+  const set = (patch: Partial<typeof f>) => setF((cur) => ({ ...cur, ...patch }));
+  const setAction = (id: string, patch: Partial<(typeof f.actions)[number]>) =>
+    setF((cur) => ({ ...cur, actions: cur.actions.map((a) => (a.id === id ? { ...a, ...patch } : a)) }));
+
+  const rules: GameRules = {
+    startingCash: Number(f.startingCash),
+    totalHouses: Number(f.totalHouses),
+    totalHotels: Number(f.totalHotels),
+    mortgageRatio: Number(f.mortgagePct) / 100,
+    mortgageInterest: Number(f.interestPct) / 100,
+    evenBuild: f.evenBuild,
+    unlimitedBuildings: f.unlimitedBuildings,
+    freeParking: f.freeParking,
+    bankActions: f.actions.map(formAction),
+    jailBail: Number(f.jailBail),
+  };
+  const errors = [...checkRules(rules), ...validateBoard(board).map((e) => `Tablero: ${e}`)];
+
+  return (
+    <Card
+      title="Nueva partida"
+      right={
+        <Btn
+          variant="ghost"
+          onClick={() => setF(rulesForm(DEFAULT_RULES))}
+        >
+          Reglas oficiales
+        </Btn>
+      }
+    >
+      <div style={{ display: "grid", gap: 10 }}>
+        <Row>
+          <div style={{ flex: 1 }}>
+            <Label>Efectivo inicial</Label>
+            <Input inputMode="numeric" value={f.startingCash} onChange={(e) => set({ startingCash: e.target.value })} />
+          </div>
+          <div style={{ flex: 1 }}>
+            <Label>Fianza de la cárcel</Label>
+            <Input inputMode="numeric" value={f.jailBail} onChange={(e) => set({ jailBail: e.target.value })} />
+          </div>
+        </Row>
+
+        <Label>Casas y hoteles</Label>
+        <Select
+          value={f.unlimitedBuildings ? "unlimited" : "box"}
+          onChange={(e) => set({ unlimitedBuildings: e.target.value === "unlimited" })}
+        >
+          <option value="box">Los de la caja (hay escasez)</option>
+          <option value="unlimited">Sin límite</option>
+        </Select>
+        {!f.unlimitedBuildings && (
+          <Row>
+            <div style={{ flex: 1 }}>
+              <Label>Casas</Label>
+              <Input inputMode="numeric" value={f.totalHouses} onChange={(e) => set({ totalHouses: e.target.value })} />
+            </div>
+            <div style={{ flex: 1 }}>
+              <Label>Hoteles</Label>
+              <Input inputMode="numeric" value={f.totalHotels} onChange={(e) => set({ totalHotels: e.target.value })} />
+            </div>
+          </Row>
+        )}
+
+        <Label>Construcción</Label>
+        <Select value={f.evenBuild ? "even" : "free"} onChange={(e) => set({ evenBuild: e.target.value === "even" })}>
+          <option value="even">Pareja dentro del grupo</option>
+          <option value="free">Libre</option>
+        </Select>
+
+        <Label>Free Parking</Label>
+        <Select value={f.freeParking ? "pot" : "none"} onChange={(e) => set({ freeParking: e.target.value === "pot" })}>
+          <option value="none">Sin pozo (oficial)</option>
+          <option value="pot">Impuestos y multas van al pozo</option>
+        </Select>
+
+        <Label>Acciones rápidas del Banco</Label>
+        {f.actions.map((a) => (
+          <Row key={a.id}>
+            <div style={{ flex: 3, minWidth: 140 }}>
+              <Input value={a.label} onChange={(e) => setAction(a.id, { label: e.target.value })} placeholder="Nombre" />
+            </div>
+            <div style={{ flex: 2, minWidth: 110 }}>
+              <Select value={a.dir} onChange={(e) => setAction(a.id, { dir: e.target.value as BankAction["dir"] })}>
+                <option value="to_player">Cobra el jugador</option>
+                <option value="to_bank">Paga al Banco</option>
+              </Select>
+            </div>
+            <div style={{ flex: 1, minWidth: 70 }}>
+              <Input inputMode="numeric" value={a.amount} onChange={(e) => setAction(a.id, { amount: e.target.value })} title="Monto" />
+            </div>
+            <div style={{ flex: 1, minWidth: 70 }}>
+              <Input
+                inputMode="decimal"
+                value={a.pct}
+                onChange={(e) => setAction(a.id, { pct: e.target.value })}
+                placeholder="% patrim."
+                title="% del patrimonio (opcional: se usa lo menor entre monto y porcentaje)"
+              />
+            </div>
+            {a.dir === "to_bank" && (
+              <div style={{ flex: 1, minWidth: 90 }}>
+                <Select value={a.tag} onChange={(e) => setAction(a.id, { tag: e.target.value as CashTag | "" })}>
+                  <option value="">Pago</option>
+                  <option value="tax">{TAG_LABEL.tax}</option>
+                  <option value="fine">{TAG_LABEL.fine}</option>
+                </Select>
+              </div>
+            )}
+            <Btn variant="ghost" onClick={() => set({ actions: f.actions.filter((x) => x.id !== a.id) })}>✕</Btn>
+          </Row>
+        ))}
+        <Row>
+          <Btn
+            variant="ghost"
+            onClick={() =>
+              set({ actions: [...f.actions, actionForm({ id: nanoid(6), label: "", dir: "to_bank", amount: 100 })] })
+            }
+          >
+            + Acción
+          </Btn>
+        </Row>
+
+        <Label>Tablero</Label>
+        <Row>
+          <Chip label={`${board.name} • ${board.props.length} propiedades • ${board.groups.length} grupos`} color="#6B7280" />
+          <Btn variant="ghost" onClick={() => setEditBoard((v) => !v)}>{editBoard ? "Cerrar editor" : "Editar tablero"}</Btn>
+        </Row>
+        {editBoard && <BoardEditor board={board} onChange={setBoard} />}
+
+        <Row>
+          <div style={{ flex: 1 }}>
+            <Label>Hipoteca (% del precio)</Label>
+            <Input inputMode="decimal" value={f.mortgagePct} onChange={(e) => set({ mortgagePct: e.target.value })} />
+          </div>
+          <div style={{ flex: 1 }}>
+            <Label>Interés de hipoteca (%)</Label>
+            <Input inputMode="decimal" value={f.interestPct} onChange={(e) => set({ interestPct: e.target.value })} />
+          </div>
+        </Row>
+
+        {errors.length > 0 && (
+          <div style={{ fontSize: 12, color: "var(--danger)", fontWeight: 900, lineHeight: 1.4 }}>
+            {errors.map((e) => (
+              <div key={e}>{e}</div>
+            ))}
+          </div>
+        )}
+        <Row>
+          <Btn onClick={() => onCreate(rules, board)} disabled={errors.length > 0}>Crear partida</Btn>
+        </Row>
+      </div>
+    </Card>
+  );
+}
+
+/** Renta como lista separada por comas; guarda el texto mientras se escribe ("10, " no se pisa). */
+function RentInput({ value, onChange }: { value: number[]; onChange: (rent: number[]) => void }) {
+  const parse = (t: string) => t.split(",").map((x) => x.trim()).filter(Boolean).map(Number);
+  const [text, setText] = React.useState(value.join(", "));
+  // cambios de afuera (tablero clásico, importado)
+  React.useEffect(() => {
+    if (parse(text).join() !== value.join()) setText(value.join(", "));
+  }, [value]); // eslint-disable-line react-hooks/exhaustive-deps
+  return (
+    <Input
+      value={text}
+      placeholder="renta, separada por comas"
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parse(e.target.value));
+      }}
+    />
+  );
+}
+
+/** Editor de la edición del tablero: grupos con sus propiedades, validación e import/export JSON. */
+function BoardEditor({ board, onChange }: { board: BoardDef; onChange: (board: BoardDef) => void }) {
+  const [importErrors, setImportErrors] = React.useState<string[]>([]);
+  // al tocar el clásico pasa a ser un tablero propio
+  const edit = (patch: Partial<BoardDef>) =>
+    onChange({ ...board, ...patch, id: board.id === CLASSIC_BOARD.id ? newGameId() : board.id });
+  const setGroup = (id: string, patch: Partial<GroupDef>) =>
+    edit({ groups: board.groups.map((g) => (g.id === id ? { ...g, ...patch } : g)) });
+  const setProp = (id: string, patch: Partial<PropertyDef>) =>
+    edit({ props: board.props.map((p) => (p.id === id ? { ...p, ...patch } : p)) });
+  const removeGroup = (g: GroupDef) => {
+    const n = board.props.filter((p) => p.group === g.id).length;
+    if (n && !confirm(`¿Borrar el grupo ${g.label} y sus ${n} propiedades?`)) return;
+    edit({ groups: board.groups.filter((x) => x.id !== g.id), props: board.props.filter((p) => p.group !== g.id) });
+  };
+
+  const onImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      setImportErrors(["El archivo no es JSON"]);
+      return;
+    }
+    const res = importBoard(raw);
+    if (!res.ok) return setImportErrors(res.errors);
+    setImportErrors([]);
+    onChange(res.board);
+  };
+
+  const errors = validateBoard(board);
+
+  return (
+    <div style={{ display: "grid", gap: 10, padding: 10, borderRadius: 16, border: "1px solid var(--border)" }}>
+      <Row>
+        <Btn variant="ghost" onClick={() => onChange(CLASSIC_BOARD)}>Tablero clásico</Btn>
+        <Btn variant="ghost" onClick={() => downloadJson(`tablero-${board.id}.json`, exportBoard(board))}>Exportar tablero</Btn>
+      </Row>
+      <div>
+        <Label>Importar tablero (JSON)</Label>
+        <Input type="file" accept="application/json,.json" onChange={(e) => void onImportFile(e.target.files?.[0])} />
+      </div>
+      {importErrors.length > 0 && (
+        <div style={{ fontSize: 12, color: "var(--danger)", fontWeight: 900, lineHeight: 1.4 }}>
+          {importErrors.slice(0, 12).map((e, i) => (
+            <div key={i}>{e}</div>
+          ))}
+          {importErrors.length > 12 && <div>… y {importErrors.length - 12} más</div>}
+        </div>
+      )}
+
+      <Label>Nombre</Label>
+      <Input value={board.name} onChange={(e) => edit({ name: e.target.value })} />
+
+      {board.groups.map((g) => (
+        <div key={g.id} style={{ display: "grid", gap: 6, padding: 8, borderRadius: 12, background: softBg(g.color) }}>
+          <Row>
+            <Input type="color" value={g.color} onChange={(e) => setGroup(g.id, { color: e.target.value })} style={{ width: 48, padding: 2 }} />
+            <div style={{ flex: 2 }}>
+              <Input value={g.label} onChange={(e) => setGroup(g.id, { label: e.target.value })} placeholder="Nombre del grupo" />
+            </div>
+            <div style={{ flex: 1 }}>
+              <Input
+                inputMode="numeric"
+                value={String(g.buildCost)}
+                onChange={(e) => setGroup(g.id, { buildCost: Number(e.target.value) })}
+                title="Costo de casa/hotel"
+              />
+            </div>
+            <Btn variant="danger" onClick={() => removeGroup(g)}>✕</Btn>
+          </Row>
+          {board.props
+            .filter((p) => p.group === g.id)
+            .map((p) => (
+              <Row key={p.id}>
+                <div style={{ flex: 2, minWidth: 120 }}>
+                  <Input value={p.label} onChange={(e) => setProp(p.id, { label: e.target.value })} placeholder="Nombre" />
+                </div>
+                <div style={{ flex: 1, minWidth: 90 }}>
+                  <Select value={p.kind} onChange={(e) => setProp(p.id, { kind: e.target.value as PropertyKind })}>
+                    {(Object.keys(KIND_LABEL) as PropertyKind[]).map((k) => (
+                      <option key={k} value={k}>{KIND_LABEL[k]}</option>
+                    ))}
+                  </Select>
+                </div>
+                <div style={{ flex: 1, minWidth: 90 }}>
+                  <Select value={p.group} onChange={(e) => setProp(p.id, { group: e.target.value })}>
+                    {board.groups.map((x) => (
+                      <option key={x.id} value={x.id}>{x.label}</option>
+                    ))}
+                  </Select>
+                </div>
+                <div style={{ flex: 1, minWidth: 70 }}>
+                  <Input inputMode="numeric" value={String(p.price)} onChange={(e) => setProp(p.id, { price: Number(e.target.value) })} title="Precio" />
+                </div>
+                <div style={{ flex: 3, minWidth: 160 }}>
+                  <RentInput value={p.rent} onChange={(rent) => setProp(p.id, { rent })} />
+                </div>
+                <Btn variant="ghost" onClick={() => edit({ props: board.props.filter((x) => x.id !== p.id) })}>✕</Btn>
+              </Row>
+            ))}
+          <Row>
+            {(Object.keys(KIND_LABEL) as PropertyKind[]).map((k) => (
+              <Btn key={k} variant="ghost" onClick={() => edit({ props: [...board.props, newPropDef(board, k, g.id)] })}>
+                + {KIND_LABEL[k]}
+              </Btn>
+            ))}
+          </Row>
+        </div>
+      ))}
+      <Row>
+        <Btn variant="ghost" onClick={() => edit({ groups: [...board.groups, newGroupDef(board)] })}>+ Grupo</Btn>
+      </Row>
+
+      {errors.length > 0 && (
+        <div style={{ fontSize: 12, color: "var(--danger)", fontWeight: 900, lineHeight: 1.4 }}>
+          {errors.slice(0, 12).map((e, i) => (
+            <div key={i}>{e}</div>
+          ))}
+          {errors.length > 12 && <div>… y {errors.length - 12} más</div>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function GameLibrary({
+  games,
+  activeId,
+  onOpen,
+  onArchive,
+  onDuplicate,
+  onDelete,
+}: {
+  games: GameSummary[];
+  activeId: string | null;
+  onOpen: (gameId: string) => void;
+  onArchive: (g: GameSummary) => void;
+  onDuplicate: (gameId: string) => void;
+  onDelete: (g: GameSummary) => void;
+}) {
+  const [showArchived, setShowArchived] = React.useState(false);
+  const list = games.filter((g) => showArchived || !g.archived || g.gameId === activeId);
+  const archivedCount = games.filter((g) => g.archived).length;
+
+  return (
+    <Card
+      title={`Partidas guardadas (${games.length})`}
+      right={
+        archivedCount > 0 && (
+          <Btn variant="ghost" onClick={() => setShowArchived((v) => !v)}>
+            {showArchived ? "Ocultar archivadas" : `Ver archivadas (${archivedCount})`}
+          </Btn>
+        )
+      }
+    >
+      {!list.length ? (
+        <div style={{ color: "var(--muted)", fontSize: 13 }}>Todavía no hay partidas guardadas.</div>
+      ) : (
+        <div style={{ display: "grid", gap: 10 }}>
+          {list.map((g) => (
+            <div key={g.gameId} className={rowBlock()}>
+              <Row>
+                <div style={{ fontWeight: 900 }}>{g.gameId}</div>
+                {g.gameId === activeId && <Chip label="Abierta" color="#2ECC71" />}
+                {g.archived && <Chip label="Archivada" color="#6B7280" />}
+              </Row>
+              <div style={{ fontSize: 12, color: "var(--muted)", marginTop: 4 }}>
+                Creada {formatDate(g.createdAt)} · última actividad {formatDate(g.updatedAt)} · {g.events} eventos
+              </div>
+              <div style={{ fontSize: 12, marginTop: 4 }}>{g.players.length ? g.players.join(", ") : "Sin jugadores"}</div>
+              <Row>
+                <Btn onClick={() => onOpen(g.gameId)} disabled={g.gameId === activeId}>Abrir</Btn>
+                <Btn variant="ghost" onClick={() => onDuplicate(g.gameId)}>Duplicar</Btn>
+                <Btn variant="ghost" onClick={() => onArchive(g)}>{g.archived ? "Desarchivar" : "Archivar"}</Btn>
+                <Btn variant="danger" onClick={() => onDelete(g)}>Borrar</Btn>
+              </Row>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function downloadJson(filename: string, data: unknown) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data)], { type: "application/json" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function BankTransfer({
+  state,
+  log,
+  deviceId,
+  handedOff,
+  bankPub,
+  resume,
+  onHandOff,
+}: {
+  state: GameState;
+  log: GameLog;
+  deviceId: string;
+  handedOff: { at: number; to?: PlayerKey } | null;
+  bankPub?: string;
+  resume?: ResumeTokens;
+  onHandOff: (to: PlayerKey | null) => void;
+}) {
+  const [to, setTo] = React.useState("");
+  const connected = Object.values(state.players).filter((p) => p.connected);
+
+  // la partida ya no cambia: el paquete se puede volver a exportar cuantas veces haga falta
+  const bundle = React.useMemo(
+    () => (handedOff ? makeHandoff(log, state, deviceId, bankPub, resume, handedOff.at) : null),
+    [handedOff, log, state, deviceId, bankPub, resume]
+  );
+  const qr = React.useMemo(() => (bundle ? encodeQR(bundle) : null), [bundle]);
+
+  if (handedOff && bundle && qr) {
+    return (
+      <Card title="Banco entregado">
+        <div className="grid gap-3">
+          <div className="rounded-2xl border border-rose-200 bg-rose-100/80 px-3 py-2 text-xs font-black uppercase tracking-wide text-rose-900">
+            {handedOff.to
+              ? `Partida pasada a ${state.players[handedOff.to]?.name ?? handedOff.to}. Este dispositivo quedó en solo lectura.`
+              : "Este dispositivo quedó en solo lectura. Importá la partida en el nuevo Banco."}
+          </div>
+          <AnimatedQR value={qr} />
+          <Row>
+            <Btn variant="ghost" onClick={() => downloadJson(`banco-${state.gameId}.json`, bundle)}>Descargar archivo</Btn>
+          </Row>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card title="Entregar el Banco">
+      <div className="grid gap-3">
+        <div style={{ fontSize: 12, color: "var(--muted)" }}>
+          Si este dispositivo se queda sin batería, pasá la partida a otro. Los jugadores reconectan al nuevo Banco sin aprobación
+          (con un aviso de que cambió la clave del Banco) y este queda en solo lectura.
+        </div>
+        <Row>
+          <Select value={to} onChange={(e) => setTo(e.target.value)}>
+            <option value="">Elegí un jugador conectado</option>
+            {connected.map((p) => (
+              <option key={p.key} value={p.key}>{p.name}</option>
+            ))}
+          </Select>
+          <Btn
+            disabled={!to}
+            onClick={() => confirm(`¿Pasar el Banco al dispositivo de ${state.players[to]?.name ?? to}?`) && onHandOff(to)}
+          >
+            Pasar a este jugador
+          </Btn>
+        </Row>
+        <Row>
+          <Btn
+            variant="ghost"
+            onClick={() => confirm("Exportar la partida por QR / archivo. Este dispositivo queda en solo lectura.") && onHandOff(null)}
+          >
+            Exportar (QR / archivo)
+          </Btn>
+        </Row>
+      </div>
+    </Card>
+  );
+}
+
+/** Turnos y cárcel: el Banco anota las tiradas (los dados son físicos) y todos ven quién juega. */
+function BankTurns({ state, dispatch }: { state: GameState; dispatch: Dispatch }) {
+  const order = turnOrder(state);
+  const current = currentTurn(state);
+  const jailed = current ? state.players[current].jail : undefined;
+  const move = (i: number, d: number) => {
+    const next = [...order];
+    [next[i], next[i + d]] = [next[i + d], next[i]];
+    dispatch({ k: "turn_order", order: next });
+  };
+
+  if (!order.length) return null;
+
+  return (
+    <Card title={current ? `Turno ${state.turn.number}` : "Turnos"}>
+      <div style={{ display: "grid", gap: 10 }}>
+        <Row>
+          {current ? (
+            <Chip label={`Juega: ${playerDisplay(state, current)}`} color={TURN_COLOR} />
+          ) : (
+            <div style={{ fontSize: 13, color: "var(--muted)" }}>Elegí el orden y arrancá con el primero.</div>
+          )}
+          {current && state.turn.doubles > 0 && <Chip label={`Dobles seguidos: ${state.turn.doubles}`} color="#1E3A8A" />}
+          {jailed && <Chip label={`Preso • turno ${jailed.turns + 1} de ${JAIL_MAX_TURNS}`} color={JAIL_COLOR} />}
+        </Row>
+        <Row>
+          <Btn onClick={() => dispatch({ k: "turn_next" })}>{current ? "Siguiente turno" : "Arrancar"}</Btn>
+          {current && (
+            <>
+              <Btn variant="ghost" onClick={() => dispatch({ k: "turn_roll", doubles: true })}>Sacó dobles</Btn>
+              <Btn variant="ghost" onClick={() => dispatch({ k: "turn_roll", doubles: false })}>Sin dobles</Btn>
+            </>
+          )}
+        </Row>
+        {jailed && jailed.turns === JAIL_MAX_TURNS - 1 && (
+          <div style={{ fontSize: 12, color: "var(--danger)", fontWeight: 900 }}>
+            Último turno preso: sin dobles paga {formatMoney(state.rules.jailBail)} y sale.
+          </div>
+        )}
+
+        <Divider />
+
+        {order.map((k, i) => {
+          const p = state.players[k];
+          return (
+            <div key={k} className={rowBlock()}>
+              <Row>
+                <div style={{ fontWeight: 900 }}>
+                  {i + 1}. {p.name}
+                </div>
+                {k === current && <Chip label="Turno" color={TURN_COLOR} />}
+                {p.jail && <Chip label={`Preso • turno ${p.jail.turns + 1} de ${JAIL_MAX_TURNS}`} color={JAIL_COLOR} />}
+                {!!p.jailCards && <Chip label={`Tarjetas: ${p.jailCards}`} color="#111827" />}
+                <div style={{ marginLeft: "auto" }}>
+                  <Row>
+                    <Btn variant="ghost" onClick={() => move(i, -1)} disabled={i === 0}>↑</Btn>
+                    <Btn variant="ghost" onClick={() => move(i, 1)} disabled={i === order.length - 1}>↓</Btn>
+                  </Row>
+                </div>
+              </Row>
+              <Row>
+                {p.jail ? (
+                  <>
+                    <Btn variant="ghost" onClick={() => dispatch({ k: "jail_bail", player: k })} disabled={p.balance < state.rules.jailBail}>
+                      Fianza {formatMoney(state.rules.jailBail)}
+                    </Btn>
+                    <Btn variant="ghost" onClick={() => dispatch({ k: "jail_card_use", player: k })} disabled={!p.jailCards}>
+                      Usar tarjeta
+                    </Btn>
+                  </>
+                ) : (
+                  <Btn variant="danger" onClick={() => dispatch({ k: "jail_send", player: k })}>A la cárcel</Btn>
+                )}
+                <Btn
+                  variant="ghost"
+                  onClick={() => dispatch({ k: "jail_card_give", player: k })}
+                  disabled={jailCardsInPlay(state) >= MAX_JAIL_CARDS}
+                >
+                  + Tarjeta
+                </Btn>
+              </Row>
             </div>
           );
         })}
@@ -476,18 +1841,29 @@ function OffersPanel({ state, conns }: { state: GameState; conns: Record<string,
   );
 }
 
-function BankPlayers({ state, mutate }: { state: GameState; mutate: (fn: (s: GameState) => GameState) => void }) {
+function BankPlayers({ state, dispatch }: { state: GameState; dispatch: Dispatch }) {
   const keys = Object.keys(state.players);
 
   const [from, setFrom] = React.useState<string>("BANK");
   const [to, setTo] = React.useState<string>(keys[0] ?? "BANK");
   const [amount, setAmount] = React.useState<string>("200");
   const [note, setNote] = React.useState<string>("");
+  const [tag, setTag] = React.useState<CashTag | "">("");
+  const [collector, setCollector] = React.useState<string>(keys[0] ?? "");
+  const [actor, setActor] = React.useState<string>(keys[0] ?? "");
 
   React.useEffect(() => {
     if (keys.length && to === "BANK") setTo(keys[0]);
   }, [keys, to]);
 
+  React.useEffect(() => {
+    if (keys.length && !keys.includes(collector)) setCollector(keys[0]);
+  }, [keys, collector]);
+
+  React.useEffect(() => {
+    if (keys.length && !keys.includes(actor)) setActor(keys[0]);
+  }, [keys, actor]);
+
   return (
     <Card title="Transacciones (dinero)">
       <div style={{ display: "grid", gap: 10 }}>
@@ -509,13 +1885,25 @@ function BankPlayers({ state, mutate }: { state: GameState; mutate: (fn: (s: Gam
 
           <Label>Motivo</Label>
           <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="renta, compra, impuesto..." />
+
+          {state.rules.freeParking && to === "BANK" && (
+            <>
+              <Label>Tipo de pago</Label>
+              <Select value={tag} onChange={(e) => setTag(e.target.value as CashTag | "")}>
+                <option value="">Al Banco</option>
+                <option value="tax">{TAG_LABEL.tax} (al pozo)</option>
+                <option value="fine">{TAG_LABEL.fine} (al pozo)</option>
+              </Select>
+            </>
+          )}
         </div>
 
         <Row>
           <Btn
             onClick={() => {
               const amt = Number(amount);
-              mutate((s) => transferCash(s, from as any, to as any, amt, note || "Transferencia"));
+              const tagged = state.rules.freeParking && to === "BANK" && tag ? { tag } : {};
+              dispatch({ k: "cash", from, to, amount: amt, note: note || (tag ? TAG_LABEL[tag] : "Transferencia"), ...tagged });
             }}
           >
             Ejecutar
@@ -527,6 +1915,54 @@ function BankPlayers({ state, mutate }: { state: GameState; mutate: (fn: (s: Gam
           <Btn variant="ghost" onClick={() => setAmount("500")}>500</Btn>
         </Row>
 
+        {state.rules.bankActions.length > 0 && (
+          <>
+            <Divider />
+            <div style={{ fontWeight: 900 }}>Acciones rápidas</div>
+            <Select value={actor} onChange={(e) => setActor(e.target.value)} disabled={!keys.length}>
+              {keys.map((k) => <option key={k} value={k}>{state.players[k].name}</option>)}
+            </Select>
+            <Row>
+              {state.rules.bankActions.map((a) => {
+                const amt = actor ? bankActionAmount(state, a, actor) : 0;
+                return (
+                  <Btn
+                    key={a.id}
+                    variant="ghost"
+                    onClick={() => dispatch({ k: "bank_action", player: actor, actionId: a.id })}
+                    disabled={!actor || amt <= 0}
+                  >
+                    {a.label} {a.dir === "to_player" ? "+" : "−"}{formatMoney(amt)}
+                  </Btn>
+                );
+              })}
+            </Row>
+          </>
+        )}
+
+        {state.rules.freeParking && (
+          <>
+            <Divider />
+            <Row>
+              <div style={{ fontWeight: 900 }}>Pozo de Free Parking</div>
+              <div style={{ marginLeft: "auto", fontWeight: 900 }}>{formatMoney(state.pot)}</div>
+            </Row>
+            <Row>
+              <div style={{ flex: 1 }}>
+                <Select value={collector} onChange={(e) => setCollector(e.target.value)} disabled={!keys.length}>
+                  {keys.map((k) => <option key={k} value={k}>{state.players[k].name}</option>)}
+                </Select>
+              </div>
+              <Btn
+                onClick={() => dispatch({ k: "pot_collect", player: collector })}
+                disabled={!collector || state.pot <= 0}
+              >
+                Cobrar pozo
+              </Btn>
+            </Row>
+          </>
+        )}
+
         <Divider />
 
         <div style={{ display: "grid", gap: 8 }}>
@@ -553,20 +1989,80 @@ function BankPlayers({ state, mutate }: { state: GameState; mutate: (fn: (s: Gam
   );
 }
 
-function BankProperties({ state, mutate }: { state: GameState; mutate: (fn: (s: GameState) => GameState) => void }) {
+function BankRequests({ state, onResolve }: { state: GameState; onResolve: (id: string, approve: boolean) => void }) {
+  const pending = state.requests.filter((r) => r.status === "pending");
+  if (!pending.length) return null;
+
+  return (
+    <Card title={`Solicitudes de pago (${pending.length})`}>
+      <div style={{ display: "grid", gap: 10 }}>
+        {pending.map((r) => {
+          const payer = state.players[r.from];
+          const short = payer ? payer.balance < r.amount : false;
+          return (
+            <div key={r.id} className={rowBlock()}>
+              <Row>
+                <div style={{ fontWeight: 900 }}>
+                  {playerDisplay(state, r.from)} → {playerDisplay(state, r.to)}: {formatMoney(r.amount)}
+                </div>
+                <span style={{ fontSize: 12, color: "var(--muted)" }}>{new Date(r.ts).toLocaleTimeString()}</span>
+              </Row>
+              {r.note && <div style={{ fontSize: 12, color: "var(--muted)" }}>{r.note}</div>}
+              {(r.tag || r.action) && (
+                <Row>
+                  {r.action && <Chip label="Acción rápida" color={ACTION_COLOR} />}
+                  {r.tag && <Chip label={state.rules.freeParking ? `${TAG_LABEL[r.tag]} → pozo` : TAG_LABEL[r.tag]} color={POT_COLOR} />}
+                </Row>
+              )}
+              {short && (
+                <div style={{ fontSize: 12, color: "var(--danger)", fontWeight: 900 }}>
+                  Saldo insuficiente ({formatMoney(payer!.balance)})
+                </div>
+              )}
+              <Row>
+                <Btn onClick={() => onResolve(r.id, true)}>Aprobar</Btn>
+                <Btn variant="ghost" onClick={() => onResolve(r.id, false)}>Rechazar</Btn>
+              </Row>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
+
+function BankRent({ state, dispatch }: { state: GameState; dispatch: Dispatch }) {
+  const owned = state.board.props.filter((d) => state.props[d.id]?.owner).map((d) => d.id);
+
+  return (
+    <Card title="Cobrar renta">
+      {!owned.length ? (
+        <div style={{ fontSize: 13, color: "var(--muted)" }}>Ninguna propiedad tiene dueño todavía.</div>
+      ) : (
+        <RentForm
+          state={state}
+          propIds={owned}
+          onSubmit={(propId, payer, dice) => dispatch({ k: "rent", propId, payer, dice })}
+        />
+      )}
+    </Card>
+  );
+}
+
+function BankProperties({ state, dispatch }: { state: GameState; dispatch: Dispatch }) {
   const players = Object.keys(state.players);
-  const [propId, setPropId] = React.useState(PROPERTY_DEFS[0]?.id ?? "");
+  const [propId, setPropId] = React.useState(state.board.props[0]?.id ?? "");
   const [owner, setOwner] = React.useState<string>("BANK");
 
   const ps = state.props[propId];
-  const def = PROPERTY_DEFS.find((d) => d.id === propId);
+  const def = state.board.props.find((d) => d.id === propId);
 
   return (
     <Card title="Propiedades (asignar / transferir)">
       <div style={{ display: "grid", gap: 10 }}>
         <Label>Propiedad</Label>
         <Select value={propId} onChange={(e) => setPropId(e.target.value)}>
-          {PROPERTY_DEFS.map((p) => (
+          {state.board.props.map((p) => (
             <option key={p.id} value={p.id}>
               {p.label}
             </option>
@@ -576,7 +2072,7 @@ function BankProperties({ state, mutate }: { state: GameState; mutate: (fn: (s:
           <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-emerald-900/60">
             <span
               className="h-3 w-8 rounded-full border"
-              style={{ background: softBg(GROUP_COLORS[def.group]), borderColor: GROUP_COLORS[def.group] }}
+              style={{ background: softBg(groupColor(state, def.group)), borderColor: groupColor(state, def.group) }}
             />
             Color del grupo
           </div>
@@ -590,7 +2086,7 @@ function BankProperties({ state, mutate }: { state: GameState; mutate: (fn: (s:
 
         {def && (
           <Row>
-            <Chip label={`${def.kind.toUpperCase()} • ${formatMoney(def.price)}`} color={GROUP_COLORS[def.group]} />
+            <Chip label={`${def.kind.toUpperCase()} • ${formatMoney(def.price)}`} color={groupColor(state, def.group)} />
             <Chip label={`Dueño: ${ps?.owner ? state.players[ps.owner]?.name ?? ps.owner : "BANCO"}`} color="#111827" />
             <Chip label={`Hipoteca: ${ps?.mortgaged ? "sí" : "no"}`} color={ps?.mortgaged ? "#b91c1c" : "#2ECC71"} />
             {def.kind === "street" && <Chip label={`Edificios: ${ps?.buildings ?? 0}`} color="#6B7280" />}
@@ -598,7 +2094,7 @@ function BankProperties({ state, mutate }: { state: GameState; mutate: (fn: (s:
         )}
 
         <Row>
-          <Btn onClick={() => mutate((s) => transferProperty(s, propId, owner === "BANK" ? null : (owner as PlayerKey), "Asignación"))}>
+          <Btn onClick={() => dispatch({ k: "property_transfer", propId, to: owner === "BANK" ? null : owner, note: "Asignación" })}>
             Aplicar
           </Btn>
         </Row>
@@ -619,8 +2115,8 @@ function BankProperties({ state, mutate }: { state: GameState; mutate: (fn: (s:
                 <Row>
                   {owned.length ? (
                     owned.map((id) => {
-                      const d = PROPERTY_DEFS.find((x) => x.id === id);
-                      const c = d ? GROUP_COLORS[d.group] : "#6B7280";
+                      const d = state.board.props.find((x) => x.id === id);
+                      const c = d ? groupColor(state, d.group) : "#6B7280";
                       const mort = state.props[id].mortgaged;
                       return (
                         <span
@@ -653,24 +2149,26 @@ function BankProperties({ state, mutate }: { state: GameState; mutate: (fn: (s:
   );
 }
 
-function BankBuildMortgage({ state, mutate }: { state: GameState; mutate: (fn: (s: GameState) => GameState) => void }) {
-  const [propId, setPropId] = React.useState(PROPERTY_DEFS[0]?.id ?? "");
+function BankBuildMortgage({ state, dispatch }: { state: GameState; dispatch: Dispatch }) {
+  const [propId, setPropId] = React.useState(state.board.props[0]?.id ?? "");
   const ps = state.props[propId];
-  const def = PROPERTY_DEFS.find((d) => d.id === propId);
+  const def = state.board.props.find((d) => d.id === propId);
   const ownerName = ps?.owner ? state.players[ps.owner]?.name ?? ps.owner : "BANCO";
+  const inv = checkInventory(state);
+  const sellPlan = ps?.buildings ? sellBuildingPlan(state, propId) : null;
 
   return (
-    <Card title="Hipotecas + Construcción (reglas oficiales)">
+    <Card title="Hipotecas + Construcción">
       <div style={{ display: "grid", gap: 10 }}>
         <Label>Propiedad</Label>
         <Select value={propId} onChange={(e) => setPropId(e.target.value)}>
-          {PROPERTY_DEFS.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+          {state.board.props.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
         </Select>
         {def && (
           <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-emerald-900/60">
             <span
               className="h-3 w-8 rounded-full border"
-              style={{ background: softBg(GROUP_COLORS[def.group]), borderColor: GROUP_COLORS[def.group] }}
+              style={{ background: softBg(groupColor(state, def.group)), borderColor: groupColor(state, def.group) }}
             />
             Color del grupo
           </div>
@@ -680,18 +2178,29 @@ function BankBuildMortgage({ state, mutate }: { state: GameState; mutate: (fn: (
           <Chip label={`Dueño: ${ownerName}`} color="#111827" />
           <Chip label={`Hipotecada: ${ps?.mortgaged ? "sí" : "no"}`} color={ps?.mortgaged ? "#b91c1c" : "#2ECC71"} />
           {def?.kind === "street" && <Chip label={`Edificios: ${ps?.buildings ?? 0}`} color="#6B7280" />}
-          <Chip label={`Casas: ${state.bank.housesAvailable} • Hoteles: ${state.bank.hotelsAvailable}`} color="#1E3A8A" />
+          <Chip
+            label={`Casas: ${stockLabel(state, state.bank.housesAvailable)} • Hoteles: ${stockLabel(state, state.bank.hotelsAvailable)}`}
+            color="#1E3A8A"
+          />
+          <Chip label={inv.ok ? "Inventario OK" : "Inventario inconsistente"} color={inv.ok ? "#2ECC71" : "#b91c1c"} />
         </Row>
 
+        {!inv.ok && (
+          <div style={{ fontSize: 12, color: "var(--danger)", fontWeight: 900, lineHeight: 1.4 }}>
+            Casas: {inv.houses.bank} banco + {inv.houses.board} tablero = {inv.houses.total} (debe ser {state.rules.totalHouses}).{" "}
+            Hoteles: {inv.hotels.bank} banco + {inv.hotels.board} tablero = {inv.hotels.total} (debe ser {state.rules.totalHotels}).
+          </div>
+        )}
+
         <Row>
           <Btn
-            onClick={() => mutate((s) => doMortgage(s, propId))}
+            onClick={() => dispatch({ k: "mortgage", propId })}
             disabled={!ps?.owner || ps.mortgaged}
           >
             Hipotecar
           </Btn>
           <Btn
-            onClick={() => mutate((s) => doUnmortgage(s, propId))}
+            onClick={() => dispatch({ k: "unmortgage", propId })}
             disabled={!ps?.owner || !ps.mortgaged}
             variant="ghost"
           >
@@ -703,13 +2212,13 @@ function BankBuildMortgage({ state, mutate }: { state: GameState; mutate: (fn: (
 
         <Row>
           <Btn
-            onClick={() => mutate((s) => doBuild(s, propId))}
+            onClick={() => dispatch({ k: "build", propId })}
             disabled={def?.kind !== "street" || !ps?.owner}
           >
             + Construir (casa/hotel)
           </Btn>
           <Btn
-            onClick={() => mutate((s) => doSellBuilding(s, propId))}
+            onClick={() => dispatch({ k: "sell_build", propId })}
             disabled={def?.kind !== "street" || !ps?.owner || (ps?.buildings ?? 0) <= 0}
             variant="ghost"
           >
@@ -717,19 +2226,118 @@ function BankBuildMortgage({ state, mutate }: { state: GameState; mutate: (fn: (
           </Btn>
         </Row>
 
+        {sellPlan?.ok && sellPlan.forced && (
+          <div style={{ fontSize: 12, color: "var(--danger)", fontWeight: 900, lineHeight: 1.4 }}>
+            Banco sin casas suficientes para desarmar el hotel: vender baja el grupo parejo {sellPlan.steps} edificios
+            ({formatMoney(sellPlan.value)}).
+          </div>
+        )}
+
         <div style={{ fontSize: 12, color: "var(--muted)", lineHeight: 1.4 }}>
-          Reglas implementadas: construcción pareja y restricción por hipotecas; hipoteca requiere grupo sin edificios; levantar hipoteca paga principal + 10%.
+          Reglas de esta partida: {state.rules.evenBuild ? "construcción pareja" : "construcción libre (sin pareja)"} y restricción por
+          hipotecas; hipoteca requiere grupo sin edificios y paga {formatRate(state.rules.mortgageRatio)} del precio; levantarla paga
+          principal + {formatRate(state.rules.mortgageInterest)};{" "}
+          {state.rules.unlimitedBuildings
+            ? "casas y hoteles sin límite."
+            : "vender un hotel requiere 4 casas del Banco (si no hay, el grupo baja hasta donde alcance)."}
         </div>
       </div>
     </Card>
   );
 }
 
-function BankBankruptcy({ state, mutate }: { state: GameState; mutate: (fn: (s: GameState) => GameState) => void }) {
+function BankShortage({ state, dispatch }: { state: GameState; dispatch: Dispatch }) {
+  const [error, setError] = React.useState<string | null>(null);
+  if (!state.buildDemand.length && !state.shortage) return null;
+
+  // valida contra el estado actual para mostrar el motivo; si pasa, va al log
+  const run = (check: RuleResult, cmd: GameCommand) => {
+    if (!check.ok) {
+      setError(check.reason);
+      return;
+    }
+    setError(null);
+    dispatch(cmd);
+  };
+
+  const sh = state.shortage;
+  const best = highestShortageBid(state);
+  const bids = sh ? Object.entries(sh.bids).sort((a, b) => b[1] - a[1]) : [];
+
+  return (
+    <Card title={sh ? `Subasta por escasez (${sh.kind === "hotel" ? "hoteles" : "casas"})` : "Pedidos de construcción"}>
+      <div style={{ display: "grid", gap: 10 }}>
+        <Row>
+          <Chip label={`Casas: ${stockLabel(state, supplyOf(state, "house"))} • pedidas: ${demandFor(state, "house").length}`} color="#1E3A8A" />
+          <Chip label={`Hoteles: ${stockLabel(state, supplyOf(state, "hotel"))} • pedidos: ${demandFor(state, "hotel").length}`} color="#b91c1c" />
+        </Row>
+
+        {state.buildDemand.map((d) => {
+          const def = getDef(state, d.propId);
+          return (
+            <div key={d.player} className={rowBlock()}>
+              <Row>
+                <div style={{ fontWeight: 900 }}>{playerDisplay(state, d.player)}</div>
+                {def && <Chip label={`${def.label} • ${d.kind === "hotel" ? "hotel" : "casa"}`} color={groupColor(state, def.group)} />}
+                {sh?.kind === d.kind && (
+                  <div style={{ marginLeft: "auto", fontWeight: 900 }}>
+                    {sh.bids[d.player] !== undefined ? formatMoney(sh.bids[d.player]) : "sin oferta"}
+                  </div>
+                )}
+              </Row>
+              {sh?.kind !== d.kind && (
+                <Row>
+                  <Btn onClick={() => run(fulfillBuildDemand(state, d.player), { k: "shortage_fulfill", player: d.player })}>
+                    Construir
+                  </Btn>
+                  <Btn variant="ghost" onClick={() => dispatch({ k: "shortage_withdraw", player: d.player })}>Quitar</Btn>
+                </Row>
+              )}
+            </div>
+          );
+        })}
+
+        {sh && (
+          <>
+            <Divider />
+            <div style={{ fontSize: 12, color: "var(--muted)", lineHeight: 1.4 }}>
+              Hay más interesados que {sh.kind === "hotel" ? "hoteles" : "casas"} en el Banco: los jugadores ofertan desde su
+              teléfono y cada unidad se adjudica al mejor postor.
+            </div>
+            <Row>
+              {best ? (
+                <Chip label={`Mejor: ${playerDisplay(state, best.player)} • ${formatMoney(best.amount)}`} color="#2ECC71" />
+              ) : (
+                <Chip label="Sin ofertas todavía" color="#6B7280" />
+              )}
+              <Chip label={`Ofertas: ${bids.length}`} color="#111827" />
+            </Row>
+            <Row>
+              <Btn onClick={() => run(awardShortage(state), { k: "shortage_award" })} disabled={!best}>
+                Adjudicar 1 unidad
+              </Btn>
+              <Btn variant="danger" onClick={() => dispatch({ k: "shortage_cancel" })}>Cancelar subasta</Btn>
+            </Row>
+          </>
+        )}
+
+        {error && <div style={{ color: "var(--danger)", fontWeight: 900, fontSize: 12 }}>{error}</div>}
+      </div>
+    </Card>
+  );
+}
+
+function BankBankruptcy({ state, dispatch }: { state: GameState; dispatch: Dispatch }) {
   const players = Object.keys(state.players);
   const [debtor, setDebtor] = React.useState(players[0] ?? "");
   const [creditor, setCreditor] = React.useState(players[1] ?? "");
   const [mode, setMode] = React.useState<"toPlayer" | "toBank">("toPlayer");
+  const [lift, setLift] = React.useState<string[]>([]);
+
+  const debtorMortgaged = state.board.props.filter((d) => {
+    const ps = state.props[d.id];
+    return ps?.owner === debtor && ps.mortgaged;
+  });
 
   React.useEffect(() => {
     const p = Object.keys(state.players);
@@ -761,12 +2369,44 @@ function BankBankruptcy({ state, mutate }: { state: GameState; mutate: (fn: (s:
               {players.filter((k) => k !== debtor).map((k) => <option key={k} value={k}>{state.players[k].name}</option>)}
             </Select>
 
+            {debtorMortgaged.length > 0 && (
+              <>
+                <Label>Hipotecadas: el acreedor elige</Label>
+                <div style={{ display: "grid", gap: 8 }}>
+                  {debtorMortgaged.map((d) => {
+                    const lifting = lift.includes(d.id);
+                    const interest = mortgageInterest(state, d.id);
+                    return (
+                      <div key={d.id} className={rowBlock()}>
+                        <Row>
+                          <Chip label={d.label} color={groupColor(state, d.group)} />
+                          <Btn
+                            variant={lifting ? "ghost" : "primary"}
+                            onClick={() => setLift((l) => l.filter((x) => x !== d.id))}
+                          >
+                            Pagar {formatRate(state.rules.mortgageInterest)} ({formatMoney(interest)})
+                          </Btn>
+                          <Btn
+                            variant={lifting ? "primary" : "ghost"}
+                            onClick={() => setLift((l) => (l.includes(d.id) ? l : [...l, d.id]))}
+                          >
+                            Levantar ({formatMoney(mortgageValue(state, d.id) + interest)})
+                          </Btn>
+                        </Row>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+
             <Btn
               variant="danger"
               onClick={() => {
                 if (!debtor || !creditor || debtor === creditor) return;
                 if (!confirm("Confirmar bancarrota hacia jugador (transferencia total + reglas de hipoteca/edificios).")) return;
-                mutate((s) => declareBankruptcyToPlayer(s, debtor as PlayerKey, creditor as PlayerKey));
+                dispatch({ k: "bankruptcy_player", debtor, creditor, liftMortgages: lift });
+                setLift([]);
               }}
               disabled={!debtor || !creditor || debtor === creditor}
             >
@@ -780,7 +2420,7 @@ function BankBankruptcy({ state, mutate }: { state: GameState; mutate: (fn: (s:
               onClick={() => {
                 if (!debtor) return;
                 if (!confirm("Confirmar bancarrota al Banco (propiedades pasan a subasta).")) return;
-                mutate((s) => declareBankruptcyToBank(s, debtor as PlayerKey));
+                dispatch({ k: "bankruptcy_bank", debtor });
               }}
               disabled={!debtor}
             >
@@ -790,101 +2430,290 @@ function BankBankruptcy({ state, mutate }: { state: GameState; mutate: (fn: (s:
         )}
 
         <div style={{ fontSize: 12, color: "var(--muted)", lineHeight: 1.4 }}>
-          Bancarrota implementa transferencia total; propiedades hipotecadas exigen 10% inmediato al banco al recibirlas.
+          Bancarrota implementa transferencia total: todos los edificios se venden parejo al Banco (la mitad va al acreedor);
+          por cada hipotecada el acreedor paga el interés ({formatRate(state.rules.mortgageInterest)}) ya o la levanta en el acto
+          (si no le alcanza, paga el interés).
         </div>
       </div>
     </Card>
   );
 }
 
-function BankAuctions({ state, mutate }: { state: GameState; mutate: (fn: (s: GameState) => GameState) => void }) {
+function BankAuctions({ state, dispatch }: { state: GameState; dispatch: Dispatch }) {
   const q = state.auctionQueue;
-  const players = Object.keys(state.players);
+  const unowned = state.board.props.filter((d) => !state.props[d.id]?.owner && !q.includes(d.id)).map((d) => d.id);
+  const candidates = [...q, ...unowned];
 
-  const [propId, setPropId] = React.useState(q[0] ?? "");
-  const [winner, setWinner] = React.useState(players[0] ?? "");
-  const [price, setPrice] = React.useState("1");
+  const [propId, setPropId] = React.useState("");
+  const [error, setError] = React.useState<string | null>(null);
+  const a = state.auction;
+  const now = useNow(!!a?.closesAt);
 
+  // temporizador: al terminar la cuenta regresiva se liquida la subasta
+  const closesAt = a?.closesAt ?? null;
   React.useEffect(() => {
-    if (q.length && !propId) setPropId(q[0]);
-  }, [q, propId]);
+    if (closesAt === null) return;
+    const id = window.setTimeout(
+      () => dispatch({ k: "auction_settle", onlyIfDue: true }),
+      Math.max(0, closesAt - Date.now()) + 50
+    );
+    return () => window.clearTimeout(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [closesAt]);
 
-  if (!q.length) {
+  if (!a) {
+    const current = candidates.includes(propId) ? propId : candidates[0] ?? "";
     return (
-      <Card title="Subastas (cuando quiebran al Banco)">
-        <div style={{ fontSize: 13, color: "var(--muted)", lineHeight: 1.4 }}>
-          No hay propiedades en cola de subasta.
-        </div>
+      <Card title={`Subastas${q.length ? ` (cola: ${q.length})` : ""}`}>
+        {!candidates.length ? (
+          <div style={{ fontSize: 13, color: "var(--muted)", lineHeight: 1.4 }}>Todas las propiedades tienen dueño.</div>
+        ) : (
+          <div style={{ display: "grid", gap: 10 }}>
+            <Label>Propiedad</Label>
+            <Select value={current} onChange={(e) => setPropId(e.target.value)}>
+              {candidates.map((id) => (
+                <option key={id} value={id}>
+                  {getDef(state, id)?.label ?? id}
+                  {q.includes(id) ? " (cola de bancarrota)" : ""}
+                </option>
+              ))}
+            </Select>
+            <div style={{ fontSize: 12, color: "var(--muted)", lineHeight: 1.4 }}>
+              Subastá las propiedades de la cola o la que un jugador decidió no comprar. Los jugadores ofertan desde su teléfono.
+            </div>
+            <Btn
+              onClick={() => {
+                const res = openAuction(state, current);
+                if (!res.ok) {
+                  setError(res.reason);
+                  return;
+                }
+                setError(null);
+                dispatch({ k: "auction_open", propId: current });
+              }}
+              disabled={!current}
+            >
+              Abrir subasta
+            </Btn>
+            {error && <div style={{ color: "var(--danger)", fontWeight: 900, fontSize: 12 }}>{error}</div>}
+          </div>
+        )}
       </Card>
     );
   }
 
-  const def = PROPERTY_DEFS.find((d) => d.id === propId);
+  const def = getDef(state, a.propId);
+  const best = highestBid(a);
 
   return (
-    <Card title={`Subastas (cola: ${q.length})`}>
+    <Card title="Subasta en vivo" right={a.closesAt !== null ? <Countdown closesAt={a.closesAt} now={now} /> : undefined}>
       <div style={{ display: "grid", gap: 10 }}>
-        <Label>Propiedad</Label>
-        <Select value={propId} onChange={(e) => setPropId(e.target.value)}>
-          {q.map((id) => {
-            const d = PROPERTY_DEFS.find((x) => x.id === id);
-            return <option key={id} value={id}>{d?.label ?? id}</option>;
-          })}
-        </Select>
-
         <Row>
-          {def && <Chip label={`${def.label} • ${formatMoney(def.price)}`} color={GROUP_COLORS[def.group]} />}
-          <Chip label="Se decide verbalmente el mejor postor; el Banco carga el resultado" color="#111827" />
+          {def && <Chip label={`${def.label} • ${formatMoney(def.price)}`} color={groupColor(state, def.group)} />}
+          <Chip label={a.source === "queue" ? "Cola de bancarrota" : "No comprada"} color="#111827" />
+          <Chip label={`Incremento mínimo: ${formatMoney(AUCTION_MIN_INCREMENT)}`} color="#6B7280" />
         </Row>
 
-        <Label>Ganador</Label>
-        <Select value={winner} onChange={(e) => setWinner(e.target.value)}>
-          {players.map((k) => <option key={k} value={k}>{state.players[k].name}</option>)}
-        </Select>
+        <div style={{ fontWeight: 900, fontSize: 18 }}>
+          {best ? `${playerDisplay(state, best.player)}: ${formatMoney(best.amount)}` : "Sin ofertas todavía"}
+        </div>
 
-        <Label>Precio</Label>
-        <Input inputMode="numeric" value={price} onChange={(e) => setPrice(e.target.value)} />
+        {a.bids.length > 1 && (
+          <div style={{ display: "grid", gap: 4 }}>
+            {a.bids
+              .slice(0, -1)
+              .slice(-6)
+              .reverse()
+              .map((b) => (
+                <div key={`${b.player}-${b.ts}`} style={{ fontSize: 12, color: "var(--muted)" }}>
+                  {playerDisplay(state, b.player)}: {formatMoney(b.amount)}
+                </div>
+              ))}
+          </div>
+        )}
 
-        <Btn
-          onClick={() => {
-            const p = Number(price);
-            if (!propId || !winner || !Number.isFinite(p) || p <= 0) return;
-            mutate((s) => auctionSellTo(s, propId, winner as PlayerKey, p));
-          }}
-        >
-          Cerrar subasta
-        </Btn>
+        <Row>
+          {a.closesAt === null ? (
+            <Btn onClick={() => dispatch({ k: "auction_countdown" })}>
+              Cuenta regresiva ({AUCTION_COUNTDOWN_MS / 1000}s)
+            </Btn>
+          ) : null}
+          <Btn
+            variant="ghost"
+            onClick={() => {
+              if (!confirm(best ? "Cerrar ahora y adjudicar al mejor postor." : "Cerrar sin ofertas (queda sin dueño).")) return;
+              dispatch({ k: "auction_settle", onlyIfDue: false });
+            }}
+          >
+            Cerrar ya
+          </Btn>
+          <Btn variant="danger" onClick={() => dispatch({ k: "auction_cancel" })}>Cancelar</Btn>
+        </Row>
+      </div>
+    </Card>
+  );
+}
+
+function BankTrades({ state, dispatch }: { state: GameState; dispatch: Dispatch }) {
+  if (!state.trades.length) return null;
+  const pending = state.trades.filter((t) => t.status === "pending");
+
+  return (
+    <Card title={`Intercambios${pending.length ? ` (pendientes: ${pending.length})` : ""}`}>
+      <div style={{ display: "grid", gap: 10 }}>
+        {state.trades.slice(0, 8).map((t) => (
+          <div key={t.id} className={rowBlock()}>
+            <TradeSummary state={state} trade={t} />
+            {t.status === "pending" && (
+              <Row>
+                <Btn variant="danger" onClick={() => dispatch({ k: "trade_cancel", tradeId: t.id })}>Anular</Btn>
+              </Row>
+            )}
+          </div>
+        ))}
+        <div style={{ fontSize: 12, color: "var(--muted)", lineHeight: 1.4 }}>
+          Los jugadores proponen y aceptan desde su teléfono; al aceptar, el Banco aplica todo junto (sin edificios en el grupo,
+          {formatRate(state.rules.mortgageInterest)} por cada hipotecada recibida).
+        </div>
       </div>
     </Card>
   );
 }
 
-function Audit({ state }: { state: GameState }) {
+function Audit({
+  state,
+  log,
+  canRollback,
+  onRollback,
+}: {
+  state: GameState;
+  log?: GameLog;
+  canRollback?: (txId: string) => boolean;
+  onRollback?: (txId: string) => void;
+}) {
+  const [check, setCheck] = React.useState<string | null>(null);
+
   return (
-    <Card title="Registro (auditoría simple)">
+    <Card
+      title="Registro (auditoría)"
+      right={
+        log ? (
+          <Row>
+            <Chip label={`Eventos: ${log.length}`} color="#111827" />
+            <Btn
+              variant="ghost"
+              onClick={() => {
+                const res = verifyLog(log, state);
+                setCheck(res.ok ? `Verificado: ${res.events} eventos re-ejecutados` : `Falla: ${res.reason}`);
+              }}
+            >
+              Verificar
+            </Btn>
+          </Row>
+        ) : undefined
+      }
+    >
+      {check && (
+        <div
+          className="mb-3 text-xs font-black uppercase tracking-wide"
+          style={{ color: check.startsWith("Verificado") ? "#166534" : "var(--danger)" }}
+        >
+          {check}
+        </div>
+      )}
       {!state.tx.length ? (
         <div style={{ fontSize: 13, color: "var(--muted)" }}>Sin movimientos todavía.</div>
       ) : (
         <div style={{ display: "grid", gap: 8 }}>
           {state.tx.slice(0, 40).map((t) => (
-            <div key={t.id} className="rounded-2xl border border-emerald-900/15 bg-white/70 p-3 shadow-sm">
-              <div className="text-xs font-semibold uppercase tracking-wide text-emerald-900/60">
+            <div
+              key={t.id}
+              className="rounded-2xl border border-emerald-900/15 bg-white/70 p-3 shadow-sm"
+              style={{ opacity: t.reverted ? 0.55 : 1 }}
+            >
+              <div className="flex flex-wrap items-center gap-2 text-xs font-semibold uppercase tracking-wide text-emerald-900/60">
                 {new Date(t.ts).toLocaleTimeString()}
+                {t.hash && <span title={t.hash}>#{t.hash.slice(0, 8)}</span>}
+                {t.reverted && <Chip label="Revertido" color="#b91c1c" />}
+                {onRollback && canRollback?.(t.id) && (
+                  <button className="ml-auto font-black underline" onClick={() => onRollback(t.id)}>
+                    Volver acá
+                  </button>
+                )}
               </div>
-              <div className="mt-1 flex flex-wrap items-center gap-2 text-sm font-black">
+              <div
+                className="mt-1 flex flex-wrap items-center gap-2 text-sm font-black"
+                style={{ textDecoration: t.reverted ? "line-through" : undefined }}
+              >
                 <span>
                   {playerDisplay(state, t.from as any)} → {playerDisplay(state, t.to as any)}
                   {typeof t.amount === "number" ? `: ${formatMoney(t.amount)}` : ""}
                 </span>
+                {(t.from === "POT" || t.to === "POT") && <Chip label="Pozo" color={POT_COLOR} />}
+                {t.tag && <Chip label={TAG_LABEL[t.tag]} color="#6B7280" />}
+                {t.action && <Chip label="Acción rápida" color={ACTION_COLOR} />}
                 {t.propertyId ? (
                   (() => {
-                    const def = PROPERTY_DEFS.find((p) => p.id === t.propertyId);
-                    const color = def ? GROUP_COLORS[def.group] : "#111827";
+                    const def = state.board.props.find((p) => p.id === t.propertyId);
+                    const color = def ? groupColor(state, def.group) : "#111827";
                     return <Chip label={def?.label ?? t.propertyId} color={color} />;
                   })()
                 ) : null}
               </div>
-              <div className="text-xs font-semibold uppercase tracking-wide text-emerald-900/60">{t.note}</div>
+              <div className="text-xs font-semibold uppercase tracking-wide text-emerald-900/60">
+                {t.groupId ? `[${t.groupId}] ` : ""}
+                {t.note}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+/** Intentos rechazados (del Banco o de jugadores), separados del registro de movimientos. */
+function BankDiagnostics({ state, items, onClear }: { state: GameState; items: Diagnostic[]; onClear: () => void }) {
+  const [by, setBy] = React.useState<string>("ALL");
+  const [action, setAction] = React.useState<string>("ALL");
+
+  if (!items.length) return null;
+
+  const actions = [...new Set(items.map((d) => d.action))].sort();
+  const authors = [...new Set(items.map((d) => d.by))];
+  const shown = items.filter((d) => (by === "ALL" || d.by === by) && (action === "ALL" || d.action === action));
+
+  return (
+    <Card title="Diagnóstico (intentos rechazados)" right={<Btn variant="ghost" onClick={onClear}>Limpiar</Btn>}>
+      <div className="grid gap-2 sm:grid-cols-2">
+        <div>
+          <Label>Quién</Label>
+          <Select value={by} onChange={(e) => setBy(e.target.value)}>
+            <option value="ALL">Todos</option>
+            {authors.map((k) => <option key={k} value={k}>{playerDisplay(state, k)}</option>)}
+          </Select>
+        </div>
+        <div>
+          <Label>Acción</Label>
+          <Select value={action} onChange={(e) => setAction(e.target.value)}>
+            <option value="ALL">Todas</option>
+            {actions.map((a) => <option key={a} value={a}>{a}</option>)}
+          </Select>
+        </div>
+      </div>
+      <Divider />
+      {!shown.length ? (
+        <div style={{ fontSize: 13, color: "var(--muted)" }}>Nada con ese filtro.</div>
+      ) : (
+        <div style={{ display: "grid", gap: 8 }}>
+          {shown.map((d) => (
+            <div key={d.id} className="rounded-2xl border border-rose-900/15 bg-white/70 p-3 shadow-sm">
+              <div className="flex flex-wrap items-center gap-2 text-xs font-semibold uppercase tracking-wide text-emerald-900/60">
+                {new Date(d.ts).toLocaleTimeString()}
+                <Chip label={d.action} color="#b91c1c" />
+                <span>{playerDisplay(state, d.by)}</span>
+              </div>
+              <div className="mt-1 text-sm font-black">{d.reason}</div>
             </div>
           ))}
         </div>
@@ -895,6 +2724,11 @@ function Audit({ state }: { state: GameState }) {
 
 /* ------------------------------ PLAYER ------------------------------ */
 
+type LedgerStatus = { level: "ok" | "warn" | "alert"; text: string };
+
+/** Enlace con el Banco; `connId` se completa al recibir el answer cuando se reanuda por un compañero. */
+type BankLink = { gameId: string; connId: ConnId; bankPub?: string; prevBankPub?: string };
+
 function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist: (p: Persisted) => void }) {
   const [name, setName] = React.useState(persist.lastPlayerName ?? "");
   const [offerText, setOfferText] = React.useState("");
@@ -908,14 +2742,44 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
   const [peer, setPeer] = React.useState<PeerInstance | null>(null);
   const [connId, setConnId] = React.useState<string>("");
   const [state, setState] = React.useState<GameState | null>(null);
-  const [status, setStatus] = React.useState<"idle" | "have_offer" | "show_answer" | "connected">("idle");
+  const [status, setStatus] = React.useState<"idle" | "have_offer" | "show_answer" | "connected" | "resuming">("idle");
   const [rejected, setRejected] = React.useState<string | null>(null);
+  const [ledger, setLedger] = React.useState<LedgerStatus | null>(null);
+  const ledgerCheck = React.useRef(0);
+  const syncRef = React.useRef<Synced | null>(null);
+  const resyncPending = React.useRef(false);
+  // los handlers viven más que un render: leen el enlace actual con el Banco por ref
+  const bankPeerRef = React.useRef<PeerInstance | null>(null);
+  // enlaces directos con otros jugadores (ver reconnect.ts)
+  const meshRef = React.useRef(new Map<PlayerKey, PeerInstance>());
+  const resumeRef = React.useRef<{ peer: PeerInstance; link: BankLink; timer: number } | null>(null);
+  // el Banco se mudó de dispositivo: el corte que sigue no se reintenta por un compañero
+  const bankMovedRef = React.useRef(false);
+  const [bankMoved, setBankMoved] = React.useState(false);
+  const [incomingBank, setIncomingBank] = React.useState<BankHandoff | null>(null);
 
   React.useEffect(() => {
     setPersist({ ...persist, lastPlayerName: name });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [name]);
 
+  // la credencial se crea async: al terminar, guardarla sobre el persist más reciente
+  const persistRef = React.useRef(persist);
+  persistRef.current = persist;
+
+  const ensureDeviceKey = async (): Promise<DeviceKey | null> => {
+    const cur = persistRef.current.deviceKey;
+    if (cur) return cur;
+    if (!hasWebCrypto()) return null;
+    try {
+      const key = await createDeviceKey();
+      setPersist({ ...persistRef.current, deviceKey: key });
+      return key;
+    } catch {
+      return null;
+    }
+  };
+
   React.useEffect(() => {
     return () => {
       if (flashTimer.current) window.clearTimeout(flashTimer.current);
@@ -948,62 +2812,289 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
     flashTimer.current = window.setTimeout(() => setFlash(null), 2600);
   };
 
+  const stopResume = () => {
+    const r = resumeRef.current;
+    if (!r) return;
+    resumeRef.current = null;
+    window.clearTimeout(r.timer);
+    try { r.peer.destroy(); } catch {}
+  };
+
   const destroy = () => {
+    // primero soltar las refs: el "close" de estos peers ya no dispara una reconexión
+    bankPeerRef.current = null;
+    stopResume();
+    meshRef.current.forEach((mp) => {
+      try { mp.destroy(); } catch {}
+    });
+    meshRef.current.clear();
     try { peer?.destroy(); } catch {}
     setPeer(null);
     setStatus("idle");
     setOfferText("");
     setAnswerText("");
     setState(null);
+    syncRef.current = null;
     setConnId("");
     setRejected(null);
+    setLedger(null);
     showFlash("Desconectado.", "warn");
   };
 
-  const applyOffer = (text: string) => {
-    const normalized = normalizeOfferText(text);
-    const decoded = decodeQR<{ kind: "OFFER"; gameId: string; connId: string; signal: SignalData }>(normalized);
-    if (decoded.kind !== "OFFER") throw new Error("QR no es OFFER");
+  /**
+   * Verifica el ledger de cada STATE: cadena + saldos (sync) y firma de la cabeza (async).
+   * Una alerta queda fija hasta que el jugador la descarta.
+   */
+  const checkLedger = (st: GameState, sig: string | undefined, { bankPub, prevBankPub }: BankLink) => {
+    const n = ++ledgerCheck.current;
+    const seen = persistRef.current.ledgerSeen;
+    const sameGame = seen?.gameId === st.gameId;
+    const report = (next: LedgerStatus) => {
+      if (next.level !== "alert" && n !== ledgerCheck.current) return;
+      setLedger((prev) => (prev?.level === "alert" ? prev : next));
+    };
 
-    setConnId(decoded.connId);
+    // el Banco que recibe una entrega firma con una clave propia: si anuncia que reemplaza a la que ya
+    // conocíamos se acepta, pero con un aviso fijo (la clave vieja no puede avalar a la nueva)
+    const keyChanged = sameGame && !!seen.bankPub && !!bankPub && seen.bankPub !== bankPub;
+    if (keyChanged && prevBankPub !== seen.bankPub) {
+      report({ level: "alert", text: "La clave del Banco cambió para esta partida." });
+      return;
+    }
+    const verified = (count: number): LedgerStatus =>
+      keyChanged
+        ? { level: "alert", text: "El Banco pasó a otro dispositivo y firma con una clave nueva: confirmalo en la mesa." }
+        : { level: "ok", text: `Ledger verificado · ${count} Tx` };
+    const chk = verifyLedger(st, sameGame ? seen.head || undefined : undefined);
+    if (!chk.ok) {
+      report({ level: "alert", text: chk.reason });
+      return;
+    }
 
-    const p = new SimplePeer({
-      initiator: false,
-      trickle: false,
-      config: { iceServers: [{ urls: "stun:stun.l.google.com:19302" }] },
-    });
+    const accept = (next: LedgerStatus) => {
+      setPersist({
+        ...persistRef.current,
+        ledgerSeen: { gameId: st.gameId, bankPub: bankPub ?? (sameGame ? seen.bankPub : undefined), head: chk.head },
+      });
+      report(next);
+    };
+    if (!chk.head) return accept({ level: "ok", text: "Ledger vacío" });
+    if (!bankPub || !hasWebCrypto()) return accept({ level: "warn", text: `Ledger encadenado (${chk.count} Tx) sin firma verificable` });
+    if (!sig) return report({ level: "alert", text: "El Banco mandó un estado sin firma." });
+
+    void verifyLedgerHead(bankPub, st.gameId, chk.head, sig).then((valid) =>
+      valid
+        ? accept(verified(chk.count))
+        : report({ level: "alert", text: "La firma del Banco no corresponde a este historial." })
+    );
+  };
 
-    p.on("signal", (sig: SignalData) => {
-      const payload = encodeQR({ kind: "ANSWER", connId: decoded.connId, signal: sig });
-      setAnswerText(payload);
-      setStatus("show_answer");
-      showFlash("Answer listo. Mostralo al Banco.");
+  const sendToBank = (msg: NetMsg) => {
+    const bp = bankPeerRef.current;
+    if (bp) safeSend(bp, msg);
+  };
+
+  /** Enlace directo con otro jugador: la señalización va por el Banco; después sirve para reenviar un RESUME. */
+  const meshPeer = (other: PlayerKey, initiator: boolean) => {
+    const mp = new SimplePeer({ initiator, trickle: false, config: { iceServers: ICE_SERVERS } });
+    meshRef.current.set(other, mp);
+    mp.on("signal", (signal: SignalData) => sendToBank({ t: "MESH", op: "signal", peer: other, signal }));
+    mp.on("data", (data) => {
+      const parsed = parseNetMsg(data);
+      if (!parsed.ok) {
+        console.warn("mensaje descartado", other, parsed.reason);
+        return;
+      }
+      const msg = parsed.value;
+      if (msg.t !== "RESUME") return;
+      if (msg.op === "offer") {
+        // somos el compañero: pasarle el offer al Banco (el answer vuelve por acá)
+        if (bankPeerRef.current) sendToBank(msg);
+        else safeSend(mp, { t: "RESUME", op: "fail", key: msg.key, reason: "El compañero tampoco está conectado al Banco" });
+        return;
+      }
+      const r = resumeRef.current;
+      if (!r || msg.key !== persistRef.current.resume?.key) return;
+      if (msg.op === "answer") {
+        r.link.connId = msg.connId;
+        r.peer.signal(msg.signal);
+      } else {
+        stopResume();
+        setStatus("idle");
+        showFlash(`No se pudo reconectar: ${msg.reason}. Escaneá un Offer nuevo.`, "warn");
+      }
+    });
+    mp.on("close", () => {
+      if (meshRef.current.get(other) !== mp) return;
+      meshRef.current.delete(other);
+      sendToBank({ t: "MESH", op: "lost", peer: other });
     });
+    mp.on("error", (e) => console.warn("mesh error", e));
+    return mp;
+  };
+
+  /** Se cortó el enlace con el Banco: negociar uno nuevo a través de un compañero todavía conectado. */
+  const startResume = (link: BankLink) => {
+    const session = persistRef.current.resume;
+    const relay = [...meshRef.current.values()].find((mp) => mp.connected);
+    if (!session || session.gameId !== link.gameId) {
+      showFlash("Se cortó la conexión con el Banco.", "warn");
+      return;
+    }
+    if (!relay) {
+      showFlash("Se cortó la conexión. Escaneá un Offer nuevo: el Banco te reconoce sin aprobar.", "warn");
+      return;
+    }
 
-    p.on("connect", () => {
+    stopResume();
+    setStatus("resuming");
+    const p = new SimplePeer({ initiator: true, trickle: false, config: { iceServers: ICE_SERVERS } });
+    const next: BankLink = { ...link, connId: "" };
+    p.on("signal", (signal: SignalData) => safeSend(relay, { t: "RESUME", op: "offer", key: session.key, token: session.token, signal }));
+    const timer = window.setTimeout(() => {
+      if (resumeRef.current?.peer !== p) return;
+      stopResume();
+      setStatus("idle");
+      showFlash("No se pudo reconectar. Escaneá un Offer nuevo.", "warn");
+    }, RESUME_TIMEOUT_MS);
+    resumeRef.current = { peer: p, link: next, timer };
+    wireBank(p, next);
+  };
+
+  /** Handlers del enlace con el Banco (por Offer QR o reanudado por un compañero). */
+  const wireBank = (p: PeerInstance, link: BankLink) => {
+    p.on("connect", async () => {
+      if (resumeRef.current?.peer === p) {
+        window.clearTimeout(resumeRef.current.timer);
+        resumeRef.current = null;
+        showFlash("Reconectado.");
+      }
+      bankPeerRef.current = p;
+      setPeer(p);
+      setConnId(link.connId);
       setStatus("connected");
       setRejected(null);
-      safeSend(p, { t: "HELLO", connId: decoded.connId, name: name.trim() });
+      const key = await ensureDeviceKey();
+      const sig = key ? await signHello(key, link.gameId, link.connId).catch(() => undefined) : undefined;
+      // si ya teníamos esta partida, el Banco puede mandar solo lo que cambió
+      const have = syncRef.current?.state.gameId === link.gameId ? syncRef.current : null;
+      const session = persistRef.current.resume;
+      safeSend(p, {
+        t: "HELLO",
+        connId: link.connId,
+        name: name.trim(),
+        pub: sig ? key!.pub : undefined,
+        sig,
+        gameId: have?.state.gameId,
+        version: have?.version,
+        resume: session?.gameId === link.gameId ? { key: session.key, token: session.token } : undefined,
+      });
     });
 
     p.on("data", (data) => {
-      const msg = safeParse(data) as NetMsg | null;
-      if (!msg) return;
+      const parsed = parseNetMsg(data);
+      if (!parsed.ok) {
+        console.warn("mensaje del Banco descartado", parsed.reason);
+        return;
+      }
+      const msg = parsed.value;
 
       if (msg.t === "STATE") {
-        setState(msg.state);
+        const st = normalizeGame(msg.state);
+        syncRef.current = { state: st, version: msg.version ?? -1 };
+        resyncPending.current = false;
+        setState(st);
         setRejected(null);
+        checkLedger(st, msg.ledgerSig, link);
+      }
+      if (msg.t === "PATCH") {
+        const res = applySyncPatch(syncRef.current, msg);
+        if (!res.ok) {
+          // nos perdimos algo o el parche no encaja: pedir el estado completo (una vez por hueco)
+          console.warn("PATCH descartado", res.reason);
+          if (!resyncPending.current) {
+            resyncPending.current = true;
+            safeSend(p, { t: "RESYNC", version: syncRef.current?.version ?? null });
+          }
+          return;
+        }
+        syncRef.current = res.synced;
+        setState(res.synced.state);
+        checkLedger(res.synced.state, msg.ledgerSig, link);
+      }
+      if (msg.t === "WELCOME") {
+        setPersist({ ...persistRef.current, resume: { gameId: link.gameId, key: msg.key, token: msg.token } });
+      }
+      if (msg.t === "MESH") {
+        if (msg.op === "link") meshPeer(msg.peer, true);
+        if (msg.op === "signal") (meshRef.current.get(msg.peer) ?? meshPeer(msg.peer, false)).signal(msg.signal);
+      }
+      if (msg.t === "RESUME" && msg.op !== "offer") {
+        // somos el compañero: la respuesta del Banco vuelve a quien la pidió
+        const mp = meshRef.current.get(msg.key);
+        if (mp) safeSend(mp, msg);
+      }
+      if (msg.t === "BANK_MOVED") {
+        bankMovedRef.current = true;
+        setBankMoved(true);
+      }
+      if (msg.t === "HANDOFF") {
+        bankMovedRef.current = true;
+        setIncomingBank(msg.handoff);
       }
       if (msg.t === "REJECT") {
         setRejected(msg.reason);
       }
+      if (msg.t === "BID_RESULT") {
+        if (msg.ok) showFlash("Oferta registrada.");
+        else showFlash(`Oferta rechazada: ${msg.reason ?? "sin motivo"}`, "warn");
+      }
+      if (msg.t === "NOTICE") {
+        showFlash(msg.text, msg.warn ? "warn" : "ok");
+      }
+      if (msg.t === "REQUEST_RESULT") {
+        if (msg.status === "approved") showFlash("Solicitud aprobada por el Banco.");
+        else showFlash(`Solicitud rechazada: ${msg.reason ?? "sin motivo"}`, "warn");
+      }
     });
 
     p.on("close", () => {
+      // un peer reemplazado o cerrado con "Desconectar" no reconecta
+      if (bankPeerRef.current !== p) return;
+      bankPeerRef.current = null;
       setStatus("idle");
+      if (!bankMovedRef.current) startResume(link);
     });
 
     p.on("error", (e) => console.warn("peer error", e));
+  };
+
+  const applyOffer = (text: string) => {
+    const normalized = normalizeOfferText(text);
+    const decoded = decodeQR<{ kind: "OFFER"; gameId: string; connId: string; signal: SignalData; bankPub?: string; prevBankPub?: string }>(
+      normalized
+    );
+    if (decoded.kind !== "OFFER") throw new Error("QR no es OFFER");
+
+    setConnId(decoded.connId);
+    stopResume();
+    bankMovedRef.current = false;
+    setBankMoved(false);
+
+    const p = new SimplePeer({
+      initiator: false,
+      trickle: true,
+      config: { iceServers: ICE_SERVERS },
+    });
+
+    gatherSignal(p, (sig) => {
+      const payload = encodeSignalQR({ kind: "ANSWER", connId: decoded.connId, signal: sig });
+      setAnswerText(payload);
+      setStatus("show_answer");
+      showFlash("Answer listo. Mostralo al Banco.");
+    });
+
+    wireBank(p, { gameId: decoded.gameId, connId: decoded.connId, bankPub: decoded.bankPub, prevBankPub: decoded.prevBankPub });
 
     // Aplicar offer
     p.signal(decoded.signal);
@@ -1012,6 +3103,31 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
     setStatus("have_offer");
   };
 
+  /** Aceptar la partida que pasó el Banco: este dispositivo pasa a ser el Banco. */
+  const becomeBank = (handoff: BankHandoff) => {
+    const res = readHandoff(handoff);
+    if (!res.ok) {
+      setIncomingBank(null);
+      showFlash(res.reason, "warn");
+      return;
+    }
+    bankPeerRef.current = null;
+    stopResume();
+    meshRef.current.forEach((mp) => {
+      try { mp.destroy(); } catch {}
+    });
+    meshRef.current.clear();
+    try { peer?.destroy(); } catch {}
+
+    const saved = handoffSaved(res);
+    const asBank = (extra: Partial<Persisted>) =>
+      setPersist({ ...persistRef.current, ...secretsOf(saved), ...extra, activeGameId: saved.gameId, role: "bank" });
+    if (!hasIndexedDB()) return asBank({ bankLog: saved.log, bankState: undefined });
+    saveGame(saved)
+      .then(() => asBank({}))
+      .catch(() => showFlash("No se pudo guardar la partida en este dispositivo.", "warn"));
+  };
+
   const onScanOffer = (text: string) => {
     try {
       setScanError(null);
@@ -1039,14 +3155,20 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
     if (!state || !me) return [];
     const owned = Object.values(state.props).filter((p) => p.owner === me.key).map((p) => p.id);
     return owned
-      .map((id) => PROPERTY_DEFS.find((d) => d.id === id))
-      .filter(Boolean) as typeof PROPERTY_DEFS;
+      .map((id) => state.board.props.find((d) => d.id === id))
+      .filter(Boolean) as PropertyDef[];
+  }, [state, me]);
+
+  const myRequests = React.useMemo(() => {
+    if (!state || !me) return [];
+    return state.requests.filter((r) => r.by === me.key || r.from === me.key).slice(0, 10);
   }, [state, me]);
 
-  // Request simple al banco (opcional, no ejecuta; solo registra)
+  // Solicitud de pago al banco (el Banco la aprueba o rechaza)
   const [reqTo, setReqTo] = React.useState<string>("");
   const [reqAmt, setReqAmt] = React.useState<string>("200");
   const [reqNote, setReqNote] = React.useState<string>("renta");
+  const [reqTag, setReqTag] = React.useState<CashTag | "">("");
 
   React.useEffect(() => {
     if (state && !reqTo) {
@@ -1057,6 +3179,39 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
 
   return (
     <>
+      {ledger?.level === "alert" && (
+        <div className="animate-pop rounded-2xl border-2 border-rose-400 bg-rose-100 px-4 py-3 text-rose-900 shadow-md">
+          <div className="text-sm font-black uppercase tracking-wide">Historial del Banco alterado</div>
+          <div className="mt-1 text-sm font-semibold">{ledger.text}</div>
+          <div className="mt-1 text-xs font-semibold">Los saldos que ves pueden no ser los reales. Avisá a la mesa.</div>
+          <div className="mt-2">
+            <Btn variant="ghost" onClick={() => setLedger(null)}>Entendido</Btn>
+          </div>
+        </div>
+      )}
+
+      {incomingBank && (
+        <Card title="El Banco te pasa la partida">
+          <div className="grid gap-3">
+            <div className="text-sm font-semibold text-emerald-950">
+              El dispositivo del Banco se está por apagar. Si aceptás, este dispositivo pasa a ser el Banco y los demás jugadores
+              se reconectan a vos.
+            </div>
+            <Row>
+              <Btn onClick={() => becomeBank(incomingBank)}>Ser el Banco</Btn>
+              <Btn variant="ghost" onClick={() => setIncomingBank(null)}>Ahora no</Btn>
+            </Row>
+          </div>
+        </Card>
+      )}
+
+      {bankMoved && !incomingBank && (
+        <div className="animate-pop rounded-2xl border border-amber-200 bg-amber-100/80 px-4 py-3 text-amber-900 shadow-sm">
+          <div className="text-sm font-black uppercase tracking-wide">El Banco cambió de dispositivo</div>
+          <div className="mt-1 text-xs font-semibold">Escaneá un Offer del nuevo Banco: te reconoce sin pedir aprobación.</div>
+        </div>
+      )}
+
       <Card
         title="Unirse (Jugador)"
         right={
@@ -1071,6 +3226,11 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
         }
       >
         <div className="grid gap-3">
+          {ledger && ledger.level !== "alert" && (
+            <Row>
+              <Chip label={ledger.text} color={ledger.level === "ok" ? "#166534" : "#B45309"} />
+            </Row>
+          )}
           {flash && (
             <div
               className={`animate-pop rounded-2xl border px-3 py-2 text-xs font-black uppercase tracking-wide ${
@@ -1086,6 +3246,11 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
           <div>
             <Label>Tu nombre</Label>
             <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Ej: Vale" />
+            {!hasWebCrypto() && (
+              <div style={{ marginTop: 6, fontSize: 12, color: "var(--muted)" }}>
+                Sin https este dispositivo no puede probar su identidad: el Banco verá tus reconexiones sin verificar.
+              </div>
+            )}
           </div>
 
           {scanOpen && (
@@ -1094,13 +3259,7 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
                 Escaneá el Offer del Banco.
               </div>
               <div className="overflow-hidden rounded-2xl border border-emerald-900/15">
-                <Scanner
-                  onScan={(codes: IDetectedBarcode[]) => {
-                    const raw = codes?.[0]?.rawValue;
-                    if (raw) onScanOffer(raw);
-                  }}
-                  onError={(error: unknown) => console.warn(error)}
-                />
+                <QRScanner onText={onScanOffer} onError={setScanError} />
               </div>
               {scanError && <div className="text-xs font-black uppercase tracking-wide text-red-700">{scanError}</div>}
             </div>
@@ -1148,7 +3307,7 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
 
           {answerText && (
             <div className="grid justify-items-center gap-2">
-              <QRCodeCanvas value={answerText} size={220} includeMargin />
+              <AnimatedQR value={answerText} />
               <div className="text-center text-xs font-semibold uppercase tracking-wide text-emerald-900/60">
                 Mostrale este QR al Banco para que escanee el <b>Answer</b>.
               </div>
@@ -1162,6 +3321,8 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
               label={
                 status === "connected"
                   ? "Conectado"
+                  : status === "resuming"
+                  ? "Reconectando por un compañero…"
                   : answerText
                   ? "Answer listo (esperando al Banco)"
                   : offerText
@@ -1197,7 +3358,35 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
               <Chip label={me.name} color="#111827" />
               <Chip label={`Saldo: ${formatMoney(me.balance)}`} color="#2ECC71" />
               <Chip label={`Propiedades: ${myProps.length}`} color="#1E3A8A" />
+              {state.rules.freeParking && <Chip label={`Pozo: ${formatMoney(state.pot)}`} color={POT_COLOR} />}
+            </Row>
+
+            <Row>
+              {currentTurn(state) === me.key ? (
+                <Chip label="¡Es tu turno!" color={TURN_COLOR} />
+              ) : currentTurn(state) ? (
+                <Chip label={`Turno: ${playerDisplay(state, currentTurn(state)!)}`} color={TURN_COLOR} />
+              ) : (
+                <Chip label="Turnos sin arrancar" color="#6B7280" />
+              )}
+              {me.jail && <Chip label={`En la cárcel • turno ${me.jail.turns + 1} de ${JAIL_MAX_TURNS}`} color={JAIL_COLOR} />}
+              {!!me.jailCards && <Chip label={`Tarjetas "Salir de la cárcel": ${me.jailCards}`} color="#111827" />}
             </Row>
+            {me.jail && peer && status === "connected" && (
+              <Row>
+                <Btn
+                  onClick={() => safeSend(peer, { t: "REQUEST", connId, req: { k: "JAIL_OUT", how: "bail" } })}
+                  disabled={me.balance < state.rules.jailBail}
+                >
+                  Pagar fianza ({formatMoney(state.rules.jailBail)})
+                </Btn>
+                {!!me.jailCards && (
+                  <Btn variant="ghost" onClick={() => safeSend(peer, { t: "REQUEST", connId, req: { k: "JAIL_OUT", how: "card" } })}>
+                    Usar tarjeta
+                  </Btn>
+                )}
+              </Row>
+            )}
 
             <Divider />
 
@@ -1207,7 +3396,7 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
             ) : (
               <Row>
                 {myProps.map((d) => {
-                  const c = GROUP_COLORS[d.group];
+                  const c = groupColor(state, d.group);
                   const ps = state.props[d.id];
                   return (
                     <span
@@ -1257,9 +3446,9 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
                     <Row>
                       {owned.length ? (
                         owned.map((id) => {
-                          const d = PROPERTY_DEFS.find((x) => x.id === id);
+                          const d = state.board.props.find((x) => x.id === id);
                           if (!d) return null;
-                          const c = GROUP_COLORS[d.group];
+                          const c = groupColor(state, d.group);
                           const mort = state.props[id].mortgaged;
                           return (
                             <span
@@ -1297,6 +3486,31 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
           <div className="text-xs font-semibold uppercase tracking-wide text-emerald-900/60">Esperando estado…</div>
         ) : (
           <div className="grid gap-3">
+            {state.rules.bankActions.length > 0 && me && (
+              <>
+                <Label>Acciones rápidas</Label>
+                <Row>
+                  {state.rules.bankActions.map((a) => {
+                    const amt = bankActionAmount(state, a, me.key);
+                    return (
+                      <Btn
+                        key={a.id}
+                        variant="ghost"
+                        disabled={amt <= 0}
+                        onClick={() => {
+                          safeSend(peer, { t: "REQUEST", connId, req: { k: "BANK_ACTION", actionId: a.id } });
+                          showFlash("Solicitud enviada.");
+                        }}
+                      >
+                        {a.label} {a.dir === "to_player" ? "+" : "−"}{formatMoney(amt)}
+                      </Btn>
+                    );
+                  })}
+                </Row>
+                <Divider />
+              </>
+            )}
+
             <Label>Destino</Label>
             <Select value={reqTo} onChange={(e) => setReqTo(e.target.value)}>
               <option value="BANK">BANCO</option>
@@ -1315,32 +3529,512 @@ function PlayerScreen({ persist, setPersist }: { persist: Persisted; setPersist:
             <Label>Motivo</Label>
             <Input value={reqNote} onChange={(e) => setReqNote(e.target.value)} placeholder="renta, compra, impuesto..." />
 
+            {state.rules.freeParking && reqTo === "BANK" && (
+              <>
+                <Label>Tipo de pago</Label>
+                <Select value={reqTag} onChange={(e) => setReqTag(e.target.value as CashTag | "")}>
+                  <option value="">Al Banco</option>
+                  <option value="tax">{TAG_LABEL.tax} (al pozo)</option>
+                  <option value="fine">{TAG_LABEL.fine} (al pozo)</option>
+                </Select>
+              </>
+            )}
+
             <Btn
               onClick={() => {
-                const amt = Number(reqAmt);
+                const amt = Math.round(Number(reqAmt));
                 if (!Number.isFinite(amt) || amt <= 0) {
                   showFlash("Monto inválido.", "warn");
                   return;
                 }
+                const tag = state.rules.freeParking && reqTo === "BANK" && reqTag ? reqTag : undefined;
                 safeSend(peer, {
                   t: "REQUEST",
                   connId: connId,
-                  req: { k: "PAY", toName: reqTo, amount: amt, note: reqNote },
+                  req: { k: "PAY", toName: reqTo, amount: amt, note: reqNote, tag },
                 });
                 showFlash("Solicitud enviada.");
               }}
             >
               Enviar solicitud
             </Btn>
+
+            {myRequests.length > 0 && (
+              <>
+                <Divider />
+                <div className="text-xs font-black uppercase tracking-wide text-emerald-950">Mis solicitudes</div>
+                <div className="grid gap-2">
+                  {myRequests.map((r) => (
+                    <div key={r.id} className={rowBlock()}>
+                      <Row>
+                        <div className="text-sm font-black">
+                          {playerDisplay(state, r.from)} → {playerDisplay(state, r.to)}: {formatMoney(r.amount)}
+                        </div>
+                        <Chip
+                          label={r.status === "pending" ? "Pendiente" : r.status === "approved" ? "Aprobada" : "Rechazada"}
+                          color={r.status === "pending" ? "#1E3A8A" : r.status === "approved" ? "#2ECC71" : "#b91c1c"}
+                        />
+                      </Row>
+                      {(r.note || r.reason) && (
+                        <div className="text-xs font-semibold uppercase tracking-wide text-emerald-900/60">
+                          {r.note}
+                          {r.reason ? ` • ${r.reason}` : ""}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
           </div>
         )}
       </Card>
+
+      {peer && status === "connected" && state?.auction && me && (
+        <PlayerAuction
+          state={state}
+          me={me.key}
+          onBid={(auctionId, amount) => safeSend(peer, { t: "BID", connId, auctionId, amount })}
+        />
+      )}
+
+      {peer && status === "connected" && state && me && (
+        <PlayerBuild
+          state={state}
+          me={me.key}
+          propIds={myProps.filter((d) => d.kind === "street").map((d) => d.id)}
+          send={(req) => safeSend(peer, { t: "REQUEST", connId, req })}
+        />
+      )}
+
+      {peer && status === "connected" && state && me && (
+        <PlayerTrades state={state} me={me.key} send={(req) => safeSend(peer, { t: "REQUEST", connId, req })} />
+      )}
+
+      {peer && status === "connected" && state && me && (
+        <Card title="Cobrar renta">
+          {!myProps.length ? (
+            <div className="text-xs font-semibold uppercase tracking-wide text-emerald-900/60">Sin propiedades.</div>
+          ) : (
+            <RentForm
+              state={state}
+              propIds={myProps.map((d) => d.id)}
+              submitLabel="Pedir cobro al Banco"
+              onSubmit={(propId, payer, dice) => {
+                safeSend(peer, { t: "REQUEST", connId, req: { k: "RENT", propId, payer, dice } });
+                showFlash("Cobro de renta enviado al Banco.");
+              }}
+            />
+          )}
+        </Card>
+      )}
     </>
   );
 }
 
+function PlayerTrades({ state, me, send }: { state: GameState; me: PlayerKey; send: (req: PlayerRequest) => void }) {
+  const others = Object.keys(state.players).filter((k) => k !== me);
+  const [to, setTo] = React.useState("");
+  const [give, setGive] = React.useState<TradeBundle>({ cash: 0, props: [] });
+  const [get, setGet] = React.useState<TradeBundle>({ cash: 0, props: [] });
+  const [counterOf, setCounterOf] = React.useState<string | undefined>(undefined);
+
+  const other = others.includes(to) ? to : others[0] ?? "";
+  const mine = state.trades.filter((t) => t.from === me || t.to === me).slice(0, 8);
+  const ownedBy = (k: PlayerKey) => state.board.props.filter((d) => state.props[d.id]?.owner === k);
+  const toggle = (b: TradeBundle, id: string): TradeBundle => ({
+    ...b,
+    props: b.props.includes(id) ? b.props.filter((x) => x !== id) : [...b.props, id],
+  });
+
+  const reset = () => {
+    setGive({ cash: 0, props: [] });
+    setGet({ cash: 0, props: [] });
+    setCounterOf(undefined);
+  };
+
+  const startCounter = (t: TradeOffer) => {
+    setTo(t.from);
+    setGive(t.get);
+    setGet(t.give);
+    setCounterOf(t.id);
+  };
+
+  if (!others.length) return null;
+
+  const propPicker = (owner: PlayerKey, b: TradeBundle, set: (b: TradeBundle) => void) => (
+    <Row>
+      {ownedBy(owner).length ? (
+        ownedBy(owner).map((d) => {
+          const on = b.props.includes(d.id);
+          const mort = state.props[d.id].mortgaged;
+          return (
+            <button
+              key={d.id}
+              onClick={() => set(toggle(b, d.id))}
+              style={{
+                border: `1px solid ${groupColor(state, d.group)}`,
+                background: on ? groupColor(state, d.group) : softBg(groupColor(state, d.group)),
+                color: on ? "#fff" : undefined,
+              }}
+              className="rounded-full px-3 py-1 text-xs font-black uppercase tracking-wide text-emerald-950"
+            >
+              {d.label}
+              {mort ? " (H)" : ""}
+            </button>
+          );
+        })
+      ) : (
+        <span className="text-xs font-semibold uppercase tracking-wide text-emerald-900/60">Sin propiedades</span>
+      )}
+    </Row>
+  );
+
+  const fees = mortgageFees(state, get.props);
+
+  return (
+    <Card title="Intercambios">
+      <div className="grid gap-3">
+        {mine.map((t) => (
+          <div key={t.id} className={rowBlock()}>
+            <TradeSummary state={state} trade={t} me={me} />
+            {t.status === "pending" && (
+              <Row>
+                {t.to === me ? (
+                  <>
+                    <Btn onClick={() => send({ k: "TRADE_RESPOND", tradeId: t.id, action: "accept" })}>Aceptar</Btn>
+                    <Btn variant="ghost" onClick={() => startCounter(t)}>Contraoferta</Btn>
+                    <Btn variant="danger" onClick={() => send({ k: "TRADE_RESPOND", tradeId: t.id, action: "reject" })}>
+                      Rechazar
+                    </Btn>
+                  </>
+                ) : (
+                  <Btn variant="ghost" onClick={() => send({ k: "TRADE_RESPOND", tradeId: t.id, action: "cancel" })}>
+                    Cancelar
+                  </Btn>
+                )}
+              </Row>
+            )}
+          </div>
+        ))}
+
+        {mine.length > 0 && <Divider />}
+
+        <div className="text-xs font-black uppercase tracking-wide text-emerald-950">
+          {counterOf ? "Contraoferta" : "Nueva propuesta"}
+        </div>
+        <Label>Con</Label>
+        <Select
+          value={other}
+          onChange={(e) => {
+            setTo(e.target.value);
+            setGet({ cash: 0, props: [] });
+          }}
+          disabled={!!counterOf}
+        >
+          {others.map((k) => <option key={k} value={k}>{state.players[k].name}</option>)}
+        </Select>
+
+        <Label>Doy: efectivo</Label>
+        <Input
+          inputMode="numeric"
+          value={give.cash ? String(give.cash) : ""}
+          onChange={(e) => setGive({ ...give, cash: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+          placeholder="0"
+        />
+        <Label>Doy: propiedades</Label>
+        {propPicker(me, give, setGive)}
+
+        <Label>Pido: efectivo</Label>
+        <Input
+          inputMode="numeric"
+          value={get.cash ? String(get.cash) : ""}
+          onChange={(e) => setGet({ ...get, cash: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+          placeholder="0"
+        />
+        <Label>Pido: propiedades</Label>
+        {propPicker(other, get, setGet)}
+
+        {fees > 0 && (
+          <div className="text-xs font-semibold uppercase tracking-wide text-emerald-900/60">
+            Recibís hipotecadas: pagás {formatMoney(fees)} de interés al Banco.
+          </div>
+        )}
+
+        <Row>
+          <Btn
+            onClick={() => {
+              send({ k: "TRADE_PROPOSE", to: other, give, get, counterOf });
+              reset();
+            }}
+            disabled={!other || (isEmptyBundle(give) && isEmptyBundle(get))}
+          >
+            {counterOf ? "Enviar contraoferta" : "Proponer"}
+          </Btn>
+          {(counterOf || !isEmptyBundle(give) || !isEmptyBundle(get)) && (
+            <Btn variant="ghost" onClick={reset}>Limpiar</Btn>
+          )}
+        </Row>
+      </div>
+    </Card>
+  );
+}
+
+function PlayerAuction({
+  state,
+  me,
+  onBid,
+}: {
+  state: GameState;
+  me: PlayerKey;
+  onBid: (auctionId: string, amount: number) => void;
+}) {
+  const a = state.auction!;
+  const [amount, setAmount] = React.useState("");
+  const now = useNow(a.closesAt !== null);
+  const def = getDef(state, a.propId);
+  const best = highestBid(a);
+  const min = minNextBid(a);
+  const balance = state.players[me]?.balance ?? 0;
+
+  return (
+    <Card title="Subasta en vivo" right={a.closesAt !== null ? <Countdown closesAt={a.closesAt} now={now} /> : undefined}>
+      <div className="grid gap-3">
+        <Row>
+          {def && <Chip label={`${def.label} • ${formatMoney(def.price)}`} color={groupColor(state, def.group)} />}
+        </Row>
+        <div className="text-lg font-black text-emerald-950">
+          {best
+            ? `${best.player === me ? "Vos" : playerDisplay(state, best.player)}: ${formatMoney(best.amount)}`
+            : "Sin ofertas todavía"}
+        </div>
+        <Row>
+          {[min, min + 40, min + 90].map((v) => (
+            <Btn key={v} variant="ghost" onClick={() => onBid(a.id, v)} disabled={v > balance || best?.player === me}>
+              {formatMoney(v)}
+            </Btn>
+          ))}
+        </Row>
+        <Label>Otra oferta (mínimo {formatMoney(min)})</Label>
+        <Input inputMode="numeric" value={amount} onChange={(e) => setAmount(e.target.value)} />
+        <Btn
+          onClick={() => {
+            const v = Math.round(Number(amount));
+            if (!Number.isFinite(v) || v <= 0) return;
+            onBid(a.id, v);
+          }}
+          disabled={best?.player === me}
+        >
+          Ofertar
+        </Btn>
+      </div>
+    </Card>
+  );
+}
+
+function PlayerBuild({
+  state,
+  me,
+  propIds,
+  send,
+}: {
+  state: GameState;
+  me: PlayerKey;
+  propIds: string[];
+  send: (req: PlayerRequest) => void;
+}) {
+  const [propId, setPropId] = React.useState("");
+  const [bid, setBid] = React.useState("");
+
+  const mine = state.buildDemand.find((d) => d.player === me);
+  const sh = state.shortage;
+  const inAuction = !!sh && mine?.kind === sh.kind;
+  const best = highestShortageBid(state);
+  const current = propIds.includes(propId) ? propId : propIds[0] ?? "";
+
+  if (!propIds.length && !sh) return null;
+
+  return (
+    <Card title={sh ? "Subasta por escasez" : "Pedir construcción"}>
+      <div className="grid gap-3">
+        <Row>
+          <Chip label={`Casas en Banco: ${stockLabel(state, supplyOf(state, "house"))}`} color="#1E3A8A" />
+          <Chip label={`Hoteles en Banco: ${stockLabel(state, supplyOf(state, "hotel"))}`} color="#b91c1c" />
+        </Row>
+
+        {mine ? (
+          <Row>
+            <Chip
+              label={`Pedido: ${getDef(state, mine.propId)?.label ?? mine.propId} • ${mine.kind === "hotel" ? "hotel" : "casa"}`}
+              color="#2ECC71"
+            />
+            <Btn variant="ghost" onClick={() => send({ k: "BUILD_DEMAND", propId: null })}>Retirar</Btn>
+          </Row>
+        ) : propIds.length ? (
+          <>
+            <Label>Dónde querés construir</Label>
+            <Select value={current} onChange={(e) => setPropId(e.target.value)}>
+              {propIds.map((id) => (
+                <option key={id} value={id}>
+                  {getDef(state, id)?.label ?? id} ({buildKindFor(state, id) === "hotel" ? "hotel" : "casa"})
+                </option>
+              ))}
+            </Select>
+            <Btn onClick={() => send({ k: "BUILD_DEMAND", propId: current })} disabled={!current}>
+              Quiero construir
+            </Btn>
+          </>
+        ) : null}
+
+        {sh && (
+          <>
+            <Divider />
+            <div className="text-xs font-semibold uppercase tracking-wide text-emerald-900/60">
+              Hay más interesados que {sh.kind === "hotel" ? "hoteles" : "casas"}: se subastan al mejor postor.
+            </div>
+            <Row>
+              {best ? (
+                <Chip
+                  label={`Mejor: ${best.player === me ? "vos" : playerDisplay(state, best.player)} • ${formatMoney(best.amount)}`}
+                  color="#2ECC71"
+                />
+              ) : (
+                <Chip label="Sin ofertas" color="#6B7280" />
+              )}
+              {sh.bids[me] !== undefined && <Chip label={`Tu oferta: ${formatMoney(sh.bids[me])}`} color="#111827" />}
+            </Row>
+            {inAuction && (
+              <>
+                <Label>Tu oferta (mínimo {formatMoney(minShortageBid(state, me))})</Label>
+                <Input inputMode="numeric" value={bid} onChange={(e) => setBid(e.target.value)} />
+                <Btn
+                  onClick={() => {
+                    const amt = Math.round(Number(bid));
+                    if (!Number.isFinite(amt) || amt <= 0) return;
+                    send({ k: "SHORTAGE_BID", amount: amt });
+                  }}
+                >
+                  Ofertar
+                </Btn>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
+
 /* ------------------------------ Helpers UI ------------------------------ */
 
+function tradeStatusText(status: TradeStatus): string {
+  switch (status) {
+    case "pending":
+      return "Intercambio pendiente";
+    case "applied":
+      return "Intercambio aceptado y aplicado";
+    case "rejected":
+      return "Intercambio rechazado";
+    case "countered":
+      return "Recibiste una contraoferta";
+    case "cancelled":
+      return "Intercambio cancelado";
+    case "failed":
+      return "Intercambio fallido";
+  }
+}
+
+function TradeSummary({ state, trade: t, me }: { state: GameState; trade: TradeOffer; me?: PlayerKey }) {
+  const who = (k: PlayerKey) => (k === me ? "Vos" : playerDisplay(state, k));
+  const bundle = (b: TradeBundle) => {
+    const parts = b.props.map((id) => getDef(state, id)?.label ?? id);
+    if (b.cash > 0) parts.unshift(formatMoney(b.cash));
+    return parts.length ? parts.join(" + ") : "nada";
+  };
+  const color: Record<TradeStatus, string> = {
+    pending: "#1E3A8A",
+    applied: "#2ECC71",
+    rejected: "#b91c1c",
+    countered: "#F9D423",
+    cancelled: "#6B7280",
+    failed: "#b91c1c",
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 4 }}>
+      <Row>
+        <div style={{ fontWeight: 900 }}>
+          {who(t.from)} → {who(t.to)}
+        </div>
+        <Chip label={tradeStatusText(t.status)} color={color[t.status]} />
+      </Row>
+      <div style={{ fontSize: 12 }}>
+        <b>{who(t.from)} da:</b> {bundle(t.give)}
+      </div>
+      <div style={{ fontSize: 12 }}>
+        <b>{who(t.to)} da:</b> {bundle(t.get)}
+      </div>
+      {t.reason && <div style={{ fontSize: 12, color: "var(--danger)" }}>{t.reason}</div>}
+    </div>
+  );
+}
+
+/** Selector de propiedad + pagador (+ dados para servicios) con la renta calculada por reglas. */
+function RentForm({
+  state,
+  propIds,
+  submitLabel = "Cobrar renta",
+  onSubmit,
+}: {
+  state: GameState;
+  propIds: string[];
+  submitLabel?: string;
+  onSubmit: (propId: string, payer: PlayerKey, dice?: number) => void;
+}) {
+  const [propId, setPropId] = React.useState(propIds[0] ?? "");
+  const [payer, setPayer] = React.useState("");
+  const [dice, setDice] = React.useState("");
+
+  const current = propIds.includes(propId) ? propId : propIds[0] ?? "";
+  const def = getDef(state, current);
+  const ps = state.props[current];
+  const payers = Object.keys(state.players).filter((k) => k !== ps?.owner);
+  const payerKey = payers.includes(payer) ? payer : payers[0] ?? "";
+  const diceNum = Number(dice);
+  const rent = computeRent(state, current, Number.isFinite(diceNum) ? diceNum : undefined);
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <Label>Propiedad</Label>
+      <Select value={current} onChange={(e) => setPropId(e.target.value)}>
+        {propIds.map((id) => <option key={id} value={id}>{getDef(state, id)?.label ?? id}</option>)}
+      </Select>
+
+      <Label>Paga</Label>
+      <Select value={payerKey} onChange={(e) => setPayer(e.target.value)}>
+        {payers.map((k) => <option key={k} value={k}>{state.players[k].name}</option>)}
+      </Select>
+
+      {def?.kind === "utility" && (
+        <>
+          <Label>Total de dados</Label>
+          <Input inputMode="numeric" value={dice} onChange={(e) => setDice(e.target.value)} placeholder="ej: 7" />
+        </>
+      )}
+
+      <Row>
+        {def && <Chip label={`Dueño: ${playerDisplay(state, ps?.owner ?? "BANK")}`} color={groupColor(state, def.group)} />}
+        <Chip label={`Renta: ${formatMoney(rent)}`} color={rent > 0 ? "#2ECC71" : "#6B7280"} />
+        {ps?.mortgaged && <Chip label="Hipotecada" color="#b91c1c" />}
+      </Row>
+
+      <Btn onClick={() => onSubmit(current, payerKey, def?.kind === "utility" ? diceNum : undefined)} disabled={!payerKey || rent <= 0}>
+        {submitLabel}
+      </Btn>
+    </div>
+  );
+}
+
 function rowBlock(): string {
   return "rounded-2xl border border-emerald-900/15 bg-white/70 p-3 shadow-sm";
 }
@@ -1378,6 +4072,79 @@ function getOfferFromLocation(): string | null {
   }
 }
 
+/** Reloj que se actualiza mientras `active` (para cuentas regresivas). */
+function useNow(active: boolean): number {
+  const [t, setT] = React.useState(() => Date.now());
+  React.useEffect(() => {
+    if (!active) return;
+    const id = window.setInterval(() => setT(Date.now()), 250);
+    return () => window.clearInterval(id);
+  }, [active]);
+  return t;
+}
+
+function Countdown({ closesAt, now }: { closesAt: number; now: number }) {
+  const secs = Math.max(0, Math.ceil((closesAt - now) / 1000));
+  return <Chip label={secs > 0 ? `Cierra en ${secs}s` : "Cerrando…"} color={secs <= 3 ? "#b91c1c" : "#F9D423"} />;
+}
+
+/** QR que, si el texto no entra en uno legible, rota entre cuadros numerados (ver splitQR). */
+function AnimatedQR({ value, size = 220 }: { value: string; size?: number }) {
+  const frames = React.useMemo(() => splitQR(value), [value]);
+  const [i, setI] = React.useState(0);
+
+  React.useEffect(() => {
+    setI(0);
+    if (frames.length < 2) return;
+    const id = window.setInterval(() => setI((x) => (x + 1) % frames.length), QR_FRAME_MS);
+    return () => window.clearInterval(id);
+  }, [frames]);
+
+  return (
+    <div className="grid justify-items-center gap-1">
+      <QRCodeCanvas value={frames[i] ?? frames[0]} size={size} includeMargin />
+      {frames.length > 1 && (
+        <div className="text-xs font-semibold uppercase tracking-wide text-emerald-900/60">
+          QR animado · cuadro {i + 1}/{frames.length}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Scanner que también junta QR animados: muestra cuántos cuadros van y entrega el texto completo. */
+function QRScanner({ onText, onError }: { onText: (text: string) => void; onError: (msg: string) => void }) {
+  const gatherRef = React.useRef<QRGather | null>(null);
+  const [progress, setProgress] = React.useState<{ have: number; total: number } | null>(null);
+
+  const onScan = (codes: IDetectedBarcode[]) => {
+    const raw = codes?.[0]?.rawValue;
+    if (!raw) return;
+    if (!isQRFrame(raw)) return onText(raw);
+    const step = gatherQR(gatherRef.current, raw);
+    gatherRef.current = step.gather;
+    setProgress(step.gather ? { have: Object.keys(step.gather.parts).length, total: step.gather.total } : null);
+    if (step.error) onError(step.error);
+    if (step.payload) onText(step.payload);
+  };
+
+  return (
+    <>
+      <Scanner onScan={onScan} onError={(error: unknown) => console.warn(error)} />
+      {progress && (
+        <div className="grid gap-1 bg-white/80 px-3 py-2">
+          <div className="text-xs font-black uppercase tracking-wide text-emerald-900">
+            QR animado: {progress.have}/{progress.total} cuadros
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-emerald-900/10">
+            <div className="h-full bg-emerald-600" style={{ width: `${(progress.have / progress.total) * 100}%` }} />
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
 function Chip({ label, color }: { label: string; color: string }) {
   return (
     <span
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { AUCTION_COUNTDOWN_MS, minNextBid, openAuction, placeBid, settleAuction, settleIfDue, startCountdown } from "./auction";
+import { verifyLedger } from "./ledger";
+import { joinPlayer, makeGame, transferCash } from "./rules";
+import type { GameState } from "./types";
+
+function ok(res: { ok: true; state: GameState } | { ok: false; reason: string }): GameState {
+  if (!res.ok) throw new Error(res.reason);
+  return res.state;
+}
+
+/** Subasta abierta de T1 (sin dueño, viene de la cola) con Ana y Beto. */
+function open(): GameState {
+  let s = makeGame();
+  s = joinPlayer(s, "c1", "Ana", "new");
+  s = joinPlayer(s, "c2", "Beto", "new");
+  return ok(openAuction({ ...s, auctionQueue: ["T1"] }, "T1"));
+}
+
+describe("subasta en vivo", () => {
+  it("solo abre propiedades sin dueño y de a una", () => {
+    const s = open();
+    expect(s.auction).toMatchObject({ propId: "T1", source: "queue", bids: [], closesAt: null });
+    expect(openAuction(s, "S1")).toEqual({ ok: false, reason: "Ya hay una subasta abierta" });
+
+    const owned = { ...s, auction: null, props: { ...s.props, S1: { ...s.props.S1, owner: "ana" } } };
+    expect(openAuction(owned, "S1")).toEqual({ ok: false, reason: "La propiedad ya tiene dueño" });
+    expect(openAuction(owned, "NOPE")).toEqual({ ok: false, reason: "Propiedad inexistente" });
+    expect(ok(openAuction(owned, "P01")).auction?.source).toBe("declined");
+  });
+
+  it("valida subasta, jugador, incremento mínimo y saldo", () => {
+    let s = open();
+    const id = s.auction!.id;
+    expect(placeBid(s, "ana", "otra", 50)).toEqual({ ok: false, reason: "La subasta ya cerró" });
+    expect(placeBid(s, "zoe", id, 50)).toEqual({ ok: false, reason: "Jugador inexistente" });
+    expect(placeBid(s, "ana", id, 0)).toEqual({ ok: false, reason: "La oferta mínima es 1" });
+    expect(placeBid(s, "ana", id, 1501)).toEqual({ ok: false, reason: "La oferta supera tu saldo" });
+
+    s = ok(placeBid(s, "ana", id, 100, 0));
+    expect(minNextBid(s.auction!)).toBe(110);
+    expect(placeBid(s, "beto", id, 105, 0)).toEqual({ ok: false, reason: "La oferta mínima es 110" });
+    s = ok(placeBid(s, "beto", id, 110, 0));
+    expect(s.auction!.bids.map((b) => [b.player, b.amount])).toEqual([
+      ["ana", 100],
+      ["beto", 110],
+    ]);
+  });
+
+  it("la cuenta regresiva se reinicia con cada oferta y rechaza las tardías", () => {
+    let s = open();
+    const id = s.auction!.id;
+    s = ok(placeBid(s, "ana", id, 100, 0));
+    s = startCountdown(s, 1000);
+    expect(s.auction!.closesAt).toBe(1000 + AUCTION_COUNTDOWN_MS);
+
+    s = ok(placeBid(s, "beto", id, 150, 5000));
+    expect(s.auction!.closesAt).toBe(5000 + AUCTION_COUNTDOWN_MS);
+    expect(settleIfDue(s, 5000 + AUCTION_COUNTDOWN_MS - 1)).toBe(s);
+    expect(placeBid(s, "ana", id, 200, 5000 + AUCTION_COUNTDOWN_MS + 1)).toEqual({ ok: false, reason: "La subasta ya cerró" });
+
+    const out = settleIfDue(s, 5000 + AUCTION_COUNTDOWN_MS);
+    expect(out.auction).toBeNull();
+    expect(out.props.T1.owner).toBe("beto");
+  });
+
+  it("al cerrar cobra la mejor oferta que el jugador todavía puede pagar", () => {
+    let s = open();
+    const id = s.auction!.id;
+    s = ok(placeBid(s, "ana", id, 100, 0));
+    s = ok(placeBid(s, "beto", id, 300, 0));
+    s = transferCash(s, "beto", "BANK", 1300, "renta"); // ya no le alcanza para los 300
+
+    const out = settleAuction(s);
+
+    expect(out.props.T1).toMatchObject({ owner: "ana", mortgaged: false });
+    expect(out.players.ana.balance).toBe(1400);
+    expect(out.auctionQueue).toEqual([]);
+    expect(verifyLedger(out).ok).toBe(true);
+  });
+
+  it("sin ofertas la propiedad sigue en la cola", () => {
+    const out = settleAuction(open());
+    expect(out.auction).toBeNull();
+    expect(out.props.T1.owner).toBeNull();
+    expect(out.auctionQueue).toEqual(["T1"]);
+  });
+});
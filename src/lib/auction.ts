@@ -0,0 +1,90 @@
+import { auctionSellTo, clampMoney, getDef, newId, now, type RuleResult } from "./rules";
+import type { AuctionBid, GameState, LiveAuction, PlayerKey } from "./types";
+
+/** Incremento mínimo entre ofertas. */
+export const AUCTION_MIN_INCREMENT = 10;
+/** Duración de la cuenta regresiva; cada oferta nueva la reinicia. */
+export const AUCTION_COUNTDOWN_MS = 10_000;
+
+export function highestBid(auction: LiveAuction | null): AuctionBid | null {
+  if (!auction || !auction.bids.length) return null;
+  return auction.bids[auction.bids.length - 1];
+}
+
+export function minNextBid(auction: LiveAuction): number {
+  const best = highestBid(auction);
+  return best ? best.amount + AUCTION_MIN_INCREMENT : 1;
+}
+
+/** Abre la subasta de una propiedad sin dueño (de la cola o porque el jugador no la compró). */
+export function openAuction(state: GameState, propId: string): RuleResult {
+  if (state.auction) return { ok: false, reason: "Ya hay una subasta abierta" };
+  const ps = state.props[propId];
+  if (!ps || !getDef(state, propId)) return { ok: false, reason: "Propiedad inexistente" };
+  if (ps.owner) return { ok: false, reason: "La propiedad ya tiene dueño" };
+
+  const auction: LiveAuction = {
+    id: newId(8),
+    propId,
+    source: state.auctionQueue.includes(propId) ? "queue" : "declined",
+    openedAt: now(),
+    bids: [],
+    closesAt: null,
+  };
+  return { ok: true, state: { ...state, auction } };
+}
+
+/**
+ * Oferta de un jugador: debe superar la mejor por el incremento mínimo
+ * y no puede exceder su saldo. Si la cuenta regresiva corre, se reinicia.
+ */
+export function placeBid(state: GameState, player: PlayerKey, auctionId: string, amount: number, at = now()): RuleResult {
+  const a = state.auction;
+  if (!a || a.id !== auctionId) return { ok: false, reason: "La subasta ya cerró" };
+  if (a.closesAt !== null && at > a.closesAt) return { ok: false, reason: "La subasta ya cerró" };
+  const p = state.players[player];
+  if (!p) return { ok: false, reason: "Jugador inexistente" };
+
+  const amt = clampMoney(amount);
+  const min = minNextBid(a);
+  if (amt < min) return { ok: false, reason: `La oferta mínima es ${min}` };
+  if (amt > p.balance) return { ok: false, reason: "La oferta supera tu saldo" };
+
+  const next: LiveAuction = {
+    ...a,
+    bids: [...a.bids, { player, amount: amt, ts: at }],
+    closesAt: a.closesAt !== null ? at + AUCTION_COUNTDOWN_MS : null,
+  };
+  return { ok: true, state: { ...state, auction: next } };
+}
+
+export function startCountdown(state: GameState, at = now()): GameState {
+  if (!state.auction) return state;
+  return { ...state, auction: { ...state.auction, closesAt: at + AUCTION_COUNTDOWN_MS } };
+}
+
+/**
+ * Cierra la subasta: el mejor postor paga y recibe la propiedad (auctionSellTo).
+ * Sin ofertas, la propiedad sigue sin dueño (y en la cola si venía de ahí).
+ */
+export function settleAuction(state: GameState): GameState {
+  const a = state.auction;
+  if (!a) return state;
+  const s: GameState = { ...state, auction: null };
+
+  // la mejor oferta cuyo jugador siga en la partida con saldo suficiente
+  const valid = [...a.bids].reverse().find((b) => s.players[b.player] && s.players[b.player].balance >= b.amount);
+  if (!valid) return s;
+  return auctionSellTo(s, a.propId, valid.player, valid.amount);
+}
+
+/** Cierra si la cuenta regresiva ya terminó (lo llama el temporizador del Banco). */
+export function settleIfDue(state: GameState, at = now()): GameState {
+  const a = state.auction;
+  if (!a || a.closesAt === null || at < a.closesAt) return state;
+  return settleAuction(state);
+}
+
+export function cancelAuction(state: GameState): GameState {
+  return state.auction ? { ...state, auction: null } : state;
+}
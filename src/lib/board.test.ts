@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { BOARD_FILE_FORMAT, exportBoard, importBoard, newGroupDef, newPropDef, validateBoard } from "./board";
+import { CLASSIC_BOARD } from "./properties";
+import type { BoardDef } from "./types";
+
+/** Tablero chico: un grupo de dos terrenos y un transporte. */
+function mini(): BoardDef {
+  return {
+    id: "mini",
+    name: "Mini",
+    groups: [
+      { id: "G1", label: "Rojo", color: "#E53935", buildCost: 100 },
+      { id: "G2", label: "Trenes", color: "#111827", buildCost: 0 },
+    ],
+    props: [
+      { id: "P1", kind: "street", group: "G1", price: 100, rent: [10, 50, 150, 450, 625, 750], label: "Calle 1" },
+      { id: "P2", kind: "street", group: "G1", price: 120, rent: [12, 60, 180, 500, 700, 900], label: "Calle 2" },
+      { id: "T1", kind: "rail", group: "G2", price: 200, rent: [25, 50], label: "Tren" },
+    ],
+  };
+}
+
+describe("validateBoard", () => {
+  it("el clásico y uno propio bien armado se pueden jugar", () => {
+    expect(validateBoard(CLASSIC_BOARD)).toEqual([]);
+    expect(validateBoard(mini())).toEqual([]);
+  });
+
+  it("reporta ids repetidos, grupos desconocidos y rentas de largo inválido", () => {
+    const b = mini();
+    b.props[1] = { ...b.props[1], id: "P1" };
+    b.props[2] = { ...b.props[2], group: "G9", rent: [] };
+    expect(validateBoard(b)).toEqual([
+      'Propiedad "P1" repetida',
+      'Propiedad "T1": grupo desconocido (G9)',
+      'Propiedad "T1": la renta lleva entre 1 y 8 valores (tiene 0)',
+      'Grupo "G2" sin propiedades',
+    ]);
+  });
+
+  it("un grupo de terrenos no mezcla tipos y necesita costo de construcción", () => {
+    const mixed = mini();
+    mixed.props[2] = { ...mixed.props[2], group: "G1" };
+    expect(validateBoard(mixed)).toContain('Grupo "G1": no puede mezclar terrenos con transportes o servicios');
+
+    const free = mini();
+    free.groups[0] = { ...free.groups[0], buildCost: 0, color: "rojo" };
+    expect(validateBoard(free)).toEqual(['Grupo "G1": el color tiene que ser #rrggbb', 'Grupo "G1": falta el costo de construcción']);
+  });
+
+  it("no confía en la forma de lo que llega", () => {
+    expect(validateBoard(null)).toEqual(["No es un tablero"]);
+    expect(validateBoard({ id: "x", name: "x", groups: [], props: [] })).toEqual([
+      "El tablero no tiene grupos",
+      "El tablero no tiene propiedades",
+    ]);
+    expect(validateBoard({ ...mini(), props: [null, { id: "P9", kind: "barco" }] })).toEqual([
+      "Propiedad 1: datos inválidos",
+      'Propiedad "P9": falta el nombre',
+      'Propiedad "P9": tipo desconocido (barco)',
+      'Grupo "G1" sin propiedades',
+      'Grupo "G2" sin propiedades',
+    ]);
+  });
+});
+
+describe("exportBoard / importBoard", () => {
+  it("lo exportado vuelve igual; también se acepta un tablero suelto", () => {
+    const b = mini();
+    expect(importBoard(JSON.parse(JSON.stringify(exportBoard(b))))).toEqual({ ok: true, board: b });
+    expect(importBoard(b)).toEqual({ ok: true, board: b });
+  });
+
+  it("rechaza otras versiones, otros archivos y tableros inválidos", () => {
+    expect(importBoard({ format: BOARD_FILE_FORMAT, v: 2, board: mini() })).toEqual({ ok: false, errors: ["Versión de tablero desconocida (2)"] });
+    expect(importBoard({ hola: 1 })).toEqual({ ok: false, errors: ["No es un archivo de tablero"] });
+    expect(importBoard({ ...mini(), name: "" })).toEqual({ ok: false, errors: ["Falta el nombre del tablero"] });
+  });
+});
+
+describe("piezas nuevas del editor", () => {
+  it("usan el primer id libre y dejan el tablero válido", () => {
+    const b = mini();
+    const g = newGroupDef(b);
+    expect(g.id).toBe("G3");
+    const p = newPropDef({ ...b, groups: [...b.groups, g] }, "street", g.id);
+    expect(p).toMatchObject({ id: "P3", kind: "street", group: "G3", label: "Terreno 3" });
+    expect(newPropDef(b, "utility", "G2").id).toBe("S1");
+    expect(validateBoard({ ...b, groups: [...b.groups, g], props: [...b.props, p] })).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import type { BoardDef, GroupDef, PropertyDef, PropertyKind } from "./types";
+
+/**
+ * Ediciones de tablero: validación, archivo JSON y armado de piezas nuevas para el editor.
+ * El tablero queda fijo al crear la partida (el estado de cada propiedad se guarda por id).
+ */
+
+export const BOARD_FILE_FORMAT = "propertybank.board";
+export const BOARD_FILE_VERSION = 1;
+
+export type BoardFile = { format: typeof BOARD_FILE_FORMAT; v: number; board: BoardDef };
+
+/** Topes para que un tablero importado no infle cada STATE que viaja por la red. */
+const MAX_GROUPS = 30;
+const MAX_PROPS = 100;
+const MAX_LABEL = 60;
+
+/** Cuántos valores lleva la tabla de renta de cada tipo (mínimo y máximo). */
+export const RENT_LENGTH: Record<PropertyKind, [number, number]> = {
+  street: [6, 6], // base, 1..4 casas, hotel
+  rail: [1, 8], // por cantidad de transportes del dueño
+  utility: [1, 8], // multiplicador por cantidad de servicios del dueño
+};
+
+export const KIND_LABEL: Record<PropertyKind, string> = { street: "Terreno", rail: "Transporte", utility: "Servicio" };
+
+const isCount = (n: unknown) => typeof n === "number" && Number.isInteger(n) && n >= 0;
+const isText = (v: unknown, max = MAX_LABEL) => typeof v === "string" && v.trim().length > 0 && v.length <= max;
+
+/** Errores de un tablero (vacío si se puede jugar con él). No confía en ningún campo. */
+export function validateBoard(board: any): string[] {
+  if (!board || typeof board !== "object") return ["No es un tablero"];
+  const errors: string[] = [];
+  if (!isText(board.id)) errors.push("Falta el id del tablero");
+  if (!isText(board.name)) errors.push("Falta el nombre del tablero");
+  if (!Array.isArray(board.groups) || !board.groups.length) errors.push("El tablero no tiene grupos");
+  if (!Array.isArray(board.props) || !board.props.length) errors.push("El tablero no tiene propiedades");
+  if (errors.length) return errors;
+  if (board.groups.length > MAX_GROUPS) errors.push(`Demasiados grupos (máximo ${MAX_GROUPS})`);
+  if (board.props.length > MAX_PROPS) errors.push(`Demasiadas propiedades (máximo ${MAX_PROPS})`);
+
+  const groups = new Map<string, any>();
+  board.groups.forEach((g: any, i: number) => {
+    const name = `Grupo ${i + 1}`;
+    if (!g || typeof g !== "object") return errors.push(`${name}: datos inválidos`);
+    if (!isText(g.id)) return errors.push(`${name}: falta el id`);
+    if (groups.has(g.id)) errors.push(`Grupo "${g.id}" repetido`);
+    groups.set(g.id, g);
+    if (!isText(g.label)) errors.push(`Grupo "${g.id}": falta el nombre`);
+    if (typeof g.color !== "string" || !/^#[0-9a-fA-F]{6}$/.test(g.color)) errors.push(`Grupo "${g.id}": el color tiene que ser #rrggbb`);
+    if (!isCount(g.buildCost)) errors.push(`Grupo "${g.id}": el costo de construcción no es un entero no negativo`);
+  });
+
+  const ids = new Set<string>();
+  const kindsOf = new Map<string, Set<string>>();
+  board.props.forEach((p: any, i: number) => {
+    const name = `Propiedad ${i + 1}`;
+    if (!p || typeof p !== "object") return errors.push(`${name}: datos inválidos`);
+    if (!isText(p.id)) return errors.push(`${name}: falta el id`);
+    const label = `Propiedad "${p.id}"`;
+    if (ids.has(p.id)) errors.push(`${label} repetida`);
+    ids.add(p.id);
+    if (!isText(p.label)) errors.push(`${label}: falta el nombre`);
+    if (!(p.kind in RENT_LENGTH)) return errors.push(`${label}: tipo desconocido (${String(p.kind)})`);
+    if (!groups.has(p.group)) errors.push(`${label}: grupo desconocido (${String(p.group)})`);
+    if (!isCount(p.price) || p.price <= 0) errors.push(`${label}: el precio tiene que ser un entero positivo`);
+    const [min, max] = RENT_LENGTH[p.kind as PropertyKind];
+    if (!Array.isArray(p.rent) || !p.rent.every(isCount)) errors.push(`${label}: la renta tiene que ser una lista de enteros no negativos`);
+    else if (p.rent.length < min || p.rent.length > max) {
+      errors.push(`${label}: la renta lleva ${min === max ? min : `entre ${min} y ${max}`} valores (tiene ${p.rent.length})`);
+    }
+    if (!kindsOf.has(p.group)) kindsOf.set(p.group, new Set());
+    kindsOf.get(p.group)!.add(p.kind);
+  });
+
+  for (const [id, g] of groups) {
+    const kinds = kindsOf.get(id);
+    if (!kinds) errors.push(`Grupo "${id}" sin propiedades`);
+    else if (kinds.has("street") && kinds.size > 1) errors.push(`Grupo "${id}": no puede mezclar terrenos con transportes o servicios`);
+    else if (kinds.has("street") && isCount(g.buildCost) && g.buildCost <= 0) errors.push(`Grupo "${id}": falta el costo de construcción`);
+  }
+  return errors;
+}
+
+export function exportBoard(board: BoardDef): BoardFile {
+  return { format: BOARD_FILE_FORMAT, v: BOARD_FILE_VERSION, board };
+}
+
+export type BoardImport = { ok: true; board: BoardDef } | { ok: false; errors: string[] };
+
+/** Lee un archivo de tablero (o un BoardDef suelto). */
+export function importBoard(raw: unknown): BoardImport {
+  const file = raw as Partial<BoardFile> | null;
+  let board: unknown;
+  if (file && typeof file === "object" && file.format === BOARD_FILE_FORMAT) {
+    if (file.v !== BOARD_FILE_VERSION) return { ok: false, errors: [`Versión de tablero desconocida (${String(file.v)})`] };
+    board = file.board;
+  } else if (file && typeof file === "object" && "groups" in file && "props" in file) {
+    board = file;
+  } else {
+    return { ok: false, errors: ["No es un archivo de tablero"] };
+  }
+  const errors = validateBoard(board);
+  return errors.length ? { ok: false, errors } : { ok: true, board: board as BoardDef };
+}
+
+/** Primer id libre con ese prefijo ("P23", "G3"...). */
+function freeId(taken: Iterable<string>, prefix: string): string {
+  const used = new Set(taken);
+  let n = 1;
+  while (used.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+export function newGroupDef(board: BoardDef): GroupDef {
+  return { id: freeId(board.groups.map((g) => g.id), "G"), label: "Grupo nuevo", color: "#6B7280", buildCost: 100 };
+}
+
+export function newPropDef(board: BoardDef, kind: PropertyKind, group: string): PropertyDef {
+  const prefix = kind === "street" ? "P" : kind === "rail" ? "T" : "S";
+  const rent = kind === "street" ? [10, 50, 150, 450, 625, 750] : kind === "rail" ? [25, 50, 100, 200] : [4, 10];
+  const id = freeId(board.props.map((p) => p.id), prefix);
+  return { id, kind, group, price: 100, rent, label: `${KIND_LABEL[kind]} ${id.slice(1)}` };
+}
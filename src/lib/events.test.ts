@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { appendEvent, replay, startLog, verifyLog, type GameCommand } from "./events";
+import { joinPlayer, makeGame } from "./rules";
+
+function logWith(cmds: GameCommand[]) {
+  let g = startLog(joinPlayer(makeGame(), "c1", "Ana", "new"), 0);
+  for (const cmd of cmds) {
+    const r = appendEvent(g.log, g.state, cmd, g.log.length);
+    if (!r.ok) throw new Error(r.reason);
+    g = r;
+  }
+  return g;
+}
+
+describe("replay", () => {
+  it("re-ejecuta muchos deshacer/rehacer anidados en tiempo lineal", () => {
+    const cmds: GameCommand[] = [{ k: "cash", from: "BANK", to: "ana", amount: 10, note: "premio" }];
+    // cada restore apunta al anterior: antes cada uno re-ejecutaba desde el inicio (y anidado)
+    for (let i = 0; i < 200; i++) cmds.push({ k: "restore", to: i % 2 === 0 ? 0 : i });
+    const g = logWith(cmds);
+
+    const t0 = performance.now();
+    const state = replay(g.log);
+    expect(performance.now() - t0).toBeLessThan(2000);
+
+    expect(state).toEqual(g.state);
+    expect(state.players.ana.balance).toBe(1500 + 10);
+    expect(verifyLog(g.log, g.state)).toEqual({ ok: true, events: 202 });
+  });
+
+  it("un restore a un evento que no es anterior se rechaza", () => {
+    const g = logWith([]);
+    expect(appendEvent(g.log, g.state, { k: "restore", to: 1 })).toEqual({ ok: false, reason: "No existe ese punto del historial" });
+  });
+});
@@ -0,0 +1,257 @@
+import { nanoid } from "nanoid";
+import { cancelAuction, openAuction, placeBid, settleAuction, settleIfDue, startCountdown } from "./auction";
+import { restoreSnapshot } from "./history";
+import { addPlayerRequest, approvePayRequest, rejectPayRequest } from "./requests";
+import {
+  applyBankAction,
+  collectPot,
+  collectRent,
+  declareBankruptcyToBank,
+  declareBankruptcyToPlayer,
+  disconnectPlayer,
+  doBuild,
+  doMortgage,
+  doSellBuilding,
+  doUnmortgage,
+  joinPlayer,
+  normalizeGame,
+  transferCash,
+  transferProperty,
+  withEvent,
+  type JoinKind,
+  type RuleResult,
+} from "./rules";
+import { awardShortage, cancelShortage, fulfillBuildDemand, placeShortageBid, setBuildDemand, syncShortage } from "./shortage";
+import { cancelTrade, proposeTrade, respondTrade } from "./trade";
+import { giveJailCard, nextTurn, payBail, recordRoll, sendToJail, setTurnOrder, useJailCard } from "./turns";
+import type { CashTag, ConnId, GameState, PlayerKey, PlayerRequest } from "./types";
+
+/**
+ * Comandos serializables: el estado de la partida es la re-ejecución de estos comandos en orden.
+ * Cada uno corresponde a una función de reglas (rules.ts, auction.ts, trade.ts, ...).
+ */
+export type GameCommand =
+  | { k: "init"; state: GameState } // partida nueva o importada (estado inicial)
+  | { k: "player_join"; connId: ConnId; name: string; kind: JoinKind; publicKey?: string }
+  | { k: "player_disconnect"; connId: ConnId }
+  | { k: "player_request"; by: PlayerKey; req: PlayerRequest }
+  | { k: "request_resolve"; requestId: string; approve: boolean }
+  | { k: "cash"; from: PlayerKey | "BANK"; to: PlayerKey | "BANK"; amount: number; note: string; tag?: CashTag }
+  | { k: "pot_collect"; player: PlayerKey }
+  | { k: "bank_action"; player: PlayerKey; actionId: string }
+  | { k: "rent"; propId: string; payer: PlayerKey; dice?: number }
+  | { k: "property_transfer"; propId: string; to: PlayerKey | null; note: string }
+  | { k: "mortgage"; propId: string }
+  | { k: "unmortgage"; propId: string }
+  | { k: "build"; propId: string }
+  | { k: "sell_build"; propId: string }
+  | { k: "bankruptcy_player"; debtor: PlayerKey; creditor: PlayerKey; liftMortgages: string[] }
+  | { k: "bankruptcy_bank"; debtor: PlayerKey }
+  | { k: "shortage_fulfill"; player: PlayerKey }
+  | { k: "shortage_withdraw"; player: PlayerKey }
+  | { k: "shortage_award" }
+  | { k: "shortage_cancel" }
+  | { k: "auction_open"; propId: string }
+  | { k: "auction_bid"; player: PlayerKey; auctionId: string; amount: number }
+  | { k: "auction_countdown" }
+  | { k: "auction_settle"; onlyIfDue: boolean }
+  | { k: "auction_cancel" }
+  | { k: "trade_cancel"; tradeId: string }
+  | { k: "turn_order"; order: PlayerKey[] }
+  | { k: "turn_next" }
+  | { k: "turn_roll"; doubles: boolean }
+  | { k: "jail_send"; player: PlayerKey }
+  | { k: "jail_bail"; player: PlayerKey }
+  | { k: "jail_card_use"; player: PlayerKey }
+  | { k: "jail_card_give"; player: PlayerKey }
+  | { k: "restore"; to: number }; // volver al estado posterior al evento `to` (deshacer/rehacer/rollback)
+
+/** Los campos del evento pisan los del comando: ningún comando usa `seq`, `id` ni `ts`. */
+export type GameEvent = GameCommand & {
+  seq: number; // posición en el log (0 = init)
+  id: string;
+  ts: number;
+};
+
+export type GameLog = GameEvent[];
+
+function done(state: GameState): RuleResult {
+  return { ok: true, state };
+}
+
+/** Acciones de jugador que el Banco aplica sin aprobación manual (validadas por reglas). */
+export function applyPlayerAction(
+  state: GameState,
+  key: PlayerKey,
+  req: Exclude<PlayerRequest, { k: "PAY" | "RENT" | "BANK_ACTION" }>
+): RuleResult {
+  switch (req.k) {
+    case "BUILD_DEMAND":
+      return setBuildDemand(state, key, req.propId);
+    case "SHORTAGE_BID":
+      return placeShortageBid(state, key, req.amount);
+    case "TRADE_PROPOSE":
+      return proposeTrade(state, key, req.to, req.give, req.get, req.counterOf);
+    case "TRADE_RESPOND":
+      return respondTrade(state, key, req.tradeId, req.action);
+    case "JAIL_OUT":
+      return req.how === "card" ? useJailCard(state, key) : payBail(state, key);
+  }
+}
+
+/** Estado posterior al evento `seq` (null si no es un evento anterior). */
+type StateAt = (seq: number) => GameState | null;
+
+function reduce(state: GameState, cmd: GameCommand, stateAt: StateAt): RuleResult {
+  switch (cmd.k) {
+    case "init":
+      return done(normalizeGame(cmd.state));
+    case "player_join":
+      return done(joinPlayer(state, cmd.connId, cmd.name, cmd.kind, cmd.publicKey));
+    case "player_disconnect":
+      return done(disconnectPlayer(state, cmd.connId));
+    case "player_request":
+      if (cmd.req.k === "PAY" || cmd.req.k === "RENT" || cmd.req.k === "BANK_ACTION") return done(addPlayerRequest(state, cmd.by, cmd.req));
+      return applyPlayerAction(state, cmd.by, cmd.req);
+    case "request_resolve":
+      return done(cmd.approve ? approvePayRequest(state, cmd.requestId) : rejectPayRequest(state, cmd.requestId));
+    case "cash":
+      return done(transferCash(state, cmd.from, cmd.to, cmd.amount, cmd.note, cmd.tag ? { tag: cmd.tag } : {}));
+    case "pot_collect":
+      return collectPot(state, cmd.player);
+    case "bank_action":
+      return applyBankAction(state, cmd.player, cmd.actionId);
+    case "rent":
+      return done(collectRent(state, cmd.propId, cmd.payer, cmd.dice));
+    case "property_transfer":
+      return done(transferProperty(state, cmd.propId, cmd.to, cmd.note));
+    case "mortgage":
+      return doMortgage(state, cmd.propId);
+    case "unmortgage":
+      return doUnmortgage(state, cmd.propId);
+    case "build":
+      return doBuild(state, cmd.propId);
+    case "sell_build":
+      return doSellBuilding(state, cmd.propId);
+    case "bankruptcy_player":
+      return done(declareBankruptcyToPlayer(state, cmd.debtor, cmd.creditor, cmd.liftMortgages));
+    case "bankruptcy_bank":
+      return done(declareBankruptcyToBank(state, cmd.debtor));
+    case "shortage_fulfill":
+      return fulfillBuildDemand(state, cmd.player);
+    case "shortage_withdraw":
+      return setBuildDemand(state, cmd.player, null);
+    case "shortage_award":
+      return awardShortage(state);
+    case "shortage_cancel":
+      return done(cancelShortage(state));
+    case "auction_open":
+      return openAuction(state, cmd.propId);
+    case "auction_bid":
+      return placeBid(state, cmd.player, cmd.auctionId, cmd.amount);
+    case "auction_countdown":
+      return done(startCountdown(state));
+    case "auction_settle":
+      return done(cmd.onlyIfDue ? settleIfDue(state) : settleAuction(state));
+    case "auction_cancel":
+      return done(cancelAuction(state));
+    case "trade_cancel":
+      return done(cancelTrade(state, cmd.tradeId));
+    case "turn_order":
+      return setTurnOrder(state, cmd.order);
+    case "turn_next":
+      return nextTurn(state);
+    case "turn_roll":
+      return recordRoll(state, cmd.doubles);
+    case "jail_send":
+      return sendToJail(state, cmd.player);
+    case "jail_bail":
+      return payBail(state, cmd.player);
+    case "jail_card_use":
+      return useJailCard(state, cmd.player);
+    case "jail_card_give":
+      return giveJailCard(state, cmd.player);
+    case "restore": {
+      const target = stateAt(cmd.to);
+      if (!target) return { ok: false, reason: "No existe ese punto del historial" };
+      return done(restoreSnapshot(state, target));
+    }
+  }
+}
+
+/** Aplica un evento (con su reloj/ids) y mantiene sincronizada la subasta por escasez. */
+function applyEvent(state: GameState, ev: GameEvent, stateAt: StateAt): RuleResult {
+  return withEvent(ev, () => {
+    const res = reduce(state, ev, stateAt);
+    if (!res.ok || ev.k === "init" || ev.k === "restore") return res;
+    return done(syncShortage(res.state));
+  });
+}
+
+/**
+ * Estados posteriores a cada evento hasta `uptoSeq`, en una sola pasada: un `restore` lee
+ * su destino de lo ya calculado (re-ejecutar desde el inicio por cada uno crece exponencial
+ * con deshacer/rehacer anidados).
+ */
+function replayStates(log: GameLog, uptoSeq: number): GameState[] {
+  if (!log.length || log[0].k !== "init") throw new Error("Log sin evento inicial");
+  const states: GameState[] = [];
+  const stateAt: StateAt = (seq) => states[seq] ?? null;
+  let state = log[0].state;
+  for (const ev of log.slice(0, uptoSeq + 1)) {
+    // logs viejos pueden traer intentos fallidos: no cambian el estado
+    const res = applyEvent(state, ev, stateAt);
+    if (res.ok) state = res.state;
+    states.push(state);
+  }
+  return states;
+}
+
+/** Re-ejecuta el log completo (o hasta `uptoSeq` inclusive). */
+export function replay(log: GameLog, uptoSeq = log.length - 1): GameState {
+  const states = replayStates(log, Math.max(uptoSeq, 0));
+  return states[states.length - 1];
+}
+
+export function startLog(state: GameState, at = Date.now()): { log: GameLog; state: GameState } {
+  const init = normalizeGame(state);
+  const ev: GameEvent = { k: "init", state: init, seq: 0, id: nanoid(8), ts: at };
+  return { log: [ev], state: init };
+}
+
+/**
+ * Agrega un comando al log y devuelve el estado resultante (incremental, sin re-ejecutar todo).
+ * Si la regla lo rechaza, el log no cambia y se devuelve el motivo.
+ */
+export function appendEvent(
+  log: GameLog,
+  state: GameState,
+  cmd: GameCommand,
+  at = Date.now()
+): { ok: true; log: GameLog; state: GameState } | { ok: false; reason: string } {
+  const ev = { ...cmd, seq: log.length, id: nanoid(8), ts: at } as GameEvent;
+  const nextLog = [...log, ev];
+  const res = applyEvent(state, ev, (seq) => (seq >= 0 && seq < log.length ? replay(log, seq) : null));
+  if (!res.ok) return res;
+  return { ok: true, log: nextLog, state: res.state };
+}
+
+/**
+ * Auditoría verificable: el estado actual debe ser exactamente la re-ejecución del log.
+ * Devuelve el primer evento desde el que no coincide (si hay diferencia).
+ */
+export function verifyLog(log: GameLog, state: GameState): { ok: true; events: number } | { ok: false; reason: string } {
+  for (let i = 0; i < log.length; i++) {
+    if (log[i].seq !== i) return { ok: false, reason: `Secuencia rota en el evento ${i}` };
+  }
+  let replayed: GameState;
+  try {
+    replayed = replay(log);
+  } catch (e) {
+    return { ok: false, reason: e instanceof Error ? e.message : "No se pudo re-ejecutar el log" };
+  }
+  if (JSON.stringify(replayed) !== JSON.stringify(state)) {
+    return { ok: false, reason: "El estado no coincide con la re-ejecución del log" };
+  }
+  return { ok: true, events: log.length };
+}
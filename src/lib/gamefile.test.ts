@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { GAME_FILE_FORMAT, GAME_SCHEMA_VERSION, exportGame, importGame } from "./gamefile";
+import { joinPlayer, makeGame, transferCash } from "./rules";
+import type { GameState } from "./types";
+
+function game(): GameState {
+  let s = makeGame();
+  s = joinPlayer(s, "c1", "Ana", "new");
+  s = joinPlayer(s, "c2", "Beto", "new");
+  return transferCash(s, "ana", "beto", 40, "renta");
+}
+
+const file = (state: unknown, schema = GAME_SCHEMA_VERSION) => ({ format: GAME_FILE_FORMAT, schema, exportedAt: 0, state });
+const errorsOf = (raw: unknown) => {
+  const res = importGame(JSON.parse(JSON.stringify(raw)));
+  return res.ok ? [] : res.errors;
+};
+
+describe("exportGame / importGame", () => {
+  it("lo exportado vuelve igual", () => {
+    const s = game();
+    expect(importGame(JSON.parse(JSON.stringify(exportGame(s))))).toEqual({ ok: true, state: s, schema: GAME_SCHEMA_VERSION });
+  });
+
+  it("rechaza lo que no es una partida y los esquemas más nuevos", () => {
+    expect(errorsOf({ hola: 1 })).toEqual(["No es un archivo de partida"]);
+    expect(errorsOf(file(game(), -1))).toEqual(["Versión de esquema inválida"]);
+    expect(errorsOf(file(game(), GAME_SCHEMA_VERSION + 1))[0]).toMatch(/versión más nueva/);
+  });
+
+  it("un estado suelto de antes de las reglas (esquema 0) completa lo que falta", () => {
+    const { rules: _r, board: _b, pot: _p, turn: _t, trades: _tr, requests: _rq, ...old } = game();
+    const res = importGame(JSON.parse(JSON.stringify({ ...old, startingCash: 2000 })));
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.schema).toBe(0);
+    expect(res.state.rules.startingCash).toBe(2000);
+    expect(res.state).toMatchObject({ pot: 0, trades: [], requests: [], turn: { order: [], current: null } });
+    expect(res.state).not.toHaveProperty("startingCash");
+  });
+
+  it("valida el contenido de los Tx y las colecciones, no solo su presencia", () => {
+    const s = game();
+    expect(errorsOf(file({ ...s, tx: [{ ...s.tx[0], amount: "40" }] }))[0]).toMatch(/^state\.tx\[0\]\.amount/);
+    expect(errorsOf(file({ ...s, requests: [{ id: "r1" }] }))[0]).toMatch(/^state\.requests\[0\]/);
+    expect(errorsOf(file({ ...s, shortage: { id: "x", kind: "castillo", openedAt: 0, bids: {} } }))[0]).toMatch(/^state\.shortage\.kind/);
+  });
+
+  it("lo pendiente tiene que apuntar a propiedades del tablero", () => {
+    const s = game();
+    const trade = { id: "t1", ts: 0, from: "ana", to: "beto", give: { cash: 0, props: ["P99"] }, get: { cash: 10, props: [] }, status: "pending" };
+    expect(errorsOf(file({ ...s, trades: [trade] }))).toEqual(['trades.t1: propiedad desconocida "P99"']);
+
+    const auction = { id: "a1", propId: "P01", source: "declined", openedAt: 0, bids: [], closesAt: null };
+    const owned = { ...s, props: { ...s.props, P01: { ...s.props.P01, owner: "ana" } } };
+    expect(errorsOf(file({ ...owned, auction }))).toEqual(["auction: la propiedad en subasta ya tiene dueño"]);
+  });
+
+  it("reporta todos los problemas de reglas juntos", () => {
+    const s = game();
+    const broken = {
+      ...s,
+      props: { ...s.props, P01: { ...s.props.P01, owner: "zoe" }, P02: { ...s.props.P02, mortgaged: true } },
+      bank: { ...s.bank, housesAvailable: 10 },
+    };
+    expect(errorsOf(file(broken))).toEqual([
+      "props.P01: dueño desconocido (zoe)",
+      "props.P02: sin dueño pero con edificios o hipoteca",
+    ]);
+    expect(errorsOf(file({ ...s, bank: { ...s.bank, housesAvailable: 10 } }))).toEqual([
+      "bank: 10 casas en el banco + 0 en el tablero no dan 32",
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import { normalizeGame } from "./rules";
+import type { GameState } from "./types";
+import { gameStateErrors } from "./validate";
+
+/**
+ * Archivo de partida: GameState con versión de esquema, para backups o pasar partidas entre dispositivos.
+ * Hasta el esquema actual cada versión solo agregó campos con valor por defecto (colecciones, reglas,
+ * pozo, tablero, catálogo, turnos), así que normalizeGame lleva cualquier archivo anterior al actual.
+ * Un cambio de GameState que no se pueda completar con un default sube GAME_SCHEMA_VERSION y agrega
+ * acá su transformación para los archivos de esquemas anteriores.
+ * Al importar, el estado pasa por la misma validación que un STATE recibido por la red (validate.ts).
+ */
+
+export const GAME_FILE_FORMAT = "propertybank.game";
+export const GAME_SCHEMA_VERSION = 6;
+
+export type GameFile = { format: typeof GAME_FILE_FORMAT; schema: number; exportedAt: number; state: GameState };
+
+export function exportGame(state: GameState, at = Date.now()): GameFile {
+  return { format: GAME_FILE_FORMAT, schema: GAME_SCHEMA_VERSION, exportedAt: at, state };
+}
+
+export type GameImport = { ok: true; state: GameState; schema: number } | { ok: false; errors: string[] };
+
+export function importGame(raw: unknown): GameImport {
+  const file = raw as Partial<GameFile> | null;
+  let schema: number;
+  let state: unknown;
+  if (file && typeof file === "object" && file.format === GAME_FILE_FORMAT) {
+    schema = file.schema as number;
+    state = file.state;
+    if (!Number.isInteger(schema) || schema < 0) return { ok: false, errors: ["Versión de esquema inválida"] };
+  } else if (file && typeof file === "object" && "gameId" in file && "props" in file) {
+    schema = 0;
+    state = file;
+  } else {
+    return { ok: false, errors: ["No es un archivo de partida"] };
+  }
+  if (schema > GAME_SCHEMA_VERSION) {
+    return { ok: false, errors: [`El archivo es de una versión más nueva (esquema ${schema}, esta app entiende hasta ${GAME_SCHEMA_VERSION})`] };
+  }
+  if (!state || typeof state !== "object") return { ok: false, errors: ["El archivo no trae la partida"] };
+
+  const errors = gameStateErrors(state);
+  return errors.length ? { ok: false, errors } : { ok: true, state: normalizeGame(state as GameState), schema };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { appendEvent, startLog } from "./events";
+import { HANDOFF_PEER_MAX, fitsPeerChannel, makeHandoff, readHandoff } from "./handoff";
+import { makeGame } from "./rules";
+
+describe("fitsPeerChannel", () => {
+  it("una partida chica entra en un envío; una con mucho historial va por QR o archivo", () => {
+    let g = startLog(makeGame(), 0);
+    const small = makeHandoff(g.log, g.state, "dev", undefined, undefined, 0);
+    expect(fitsPeerChannel(small)).toBe(true);
+
+    for (let i = 0; i < 1000 && fitsPeerChannel(makeHandoff(g.log, g.state, "dev", undefined, undefined, 0)); i++) {
+      const r = appendEvent(g.log, g.state, { k: "player_join", connId: `c${i}`, name: `Jugadora ñandú ${i}`, kind: "new" }, i);
+      if (!r.ok) throw new Error(r.reason);
+      g = r;
+    }
+    const big = makeHandoff(g.log, g.state, "dev", undefined, undefined, 0);
+    expect(fitsPeerChannel(big)).toBe(false);
+    // el tope es por bytes del mensaje, debajo del límite de ~64 KiB de SCTP
+    expect(HANDOFF_PEER_MAX).toBeLessThan(64 * 1024);
+    expect(new TextEncoder().encode(JSON.stringify({ t: "HANDOFF", handoff: big })).length).toBeGreaterThan(HANDOFF_PEER_MAX);
+  });
+});
+
+describe("makeHandoff", () => {
+  it("lleva la clave pública del Banco y nunca la privada", () => {
+    const g = startLog(makeGame(), 0);
+    const bundle = makeHandoff(g.log, g.state, "dev", "PUB-DEL-BANCO", undefined, 0);
+    expect(bundle.bankPub).toBe("PUB-DEL-BANCO");
+    expect(bundle).not.toHaveProperty("bankKey");
+    expect(JSON.stringify(bundle)).not.toContain("priv");
+  });
+
+  it("el paquete se lee en el Banco nuevo con los jugadores desconectados", () => {
+    let g = startLog(makeGame(), 0);
+    const r = appendEvent(g.log, g.state, { k: "player_join", connId: "c1", name: "Ana", kind: "new" }, 1);
+    if (!r.ok) throw new Error(r.reason);
+    g = r;
+    const bundle = makeHandoff(g.log, g.state, "dev", "PUB", undefined, 2);
+    expect(bundle.connected).toEqual(["ana"]);
+
+    const res = readHandoff(JSON.parse(JSON.stringify(bundle)), 3);
+    expect(res.ok).toBe(true);
+    if (res.ok) expect(res.state.players.ana.connected).toBe(false);
+    expect(readHandoff({ ...bundle, v: 9 })).toEqual({ ok: false, reason: "Versión de entrega desconocida (9)" });
+  });
+});
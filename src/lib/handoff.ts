@@ -0,0 +1,82 @@
+import { appendEvent, verifyLog, type GameLog } from "./events";
+import type { ResumeTokens } from "./reconnect";
+import type { GameState, PlayerKey } from "./types";
+
+/**
+ * Entrega del Banco a otro dispositivo (sin backend).
+ * El Banco actual arma un paquete con la partida completa (log + estado), la clave pública con la que
+ * firmaba el ledger y los tokens de reconexión: así los jugadores vuelven al Banco nuevo sin aprobación.
+ * La clave privada no viaja (QR, archivo o canal la dejarían expuesta): el Banco nuevo crea la suya y
+ * anuncia en el Offer cuál reemplaza, y los jugadores reciben un aviso de que la clave cambió.
+ * El dispositivo que lo entrega queda en solo lectura para que no haya dos Bancos.
+ */
+export type BankHandoff = {
+  kind: "HANDOFF";
+  v: 1;
+  at: number;
+  from: string; // deviceId del Banco que entrega
+  state: GameState;
+  log: GameLog;
+  bankPub?: string; // clave pública del Banco que entrega
+  resume?: ResumeTokens;
+  // jugadores que estaban conectados al entregar (el Banco nuevo los marca desconectados hasta que vuelvan)
+  connected: PlayerKey[];
+};
+
+export function makeHandoff(
+  log: GameLog,
+  state: GameState,
+  from: string,
+  bankPub: string | undefined,
+  resume: ResumeTokens | undefined,
+  at = Date.now()
+): BankHandoff {
+  return {
+    kind: "HANDOFF",
+    v: 1,
+    at,
+    from,
+    state,
+    log,
+    bankPub,
+    resume: resume?.gameId === state.gameId ? resume : undefined,
+    connected: Object.values(state.players).filter((p) => p.connected).map((p) => p.key),
+  };
+}
+
+export type HandoffResult = { ok: true; handoff: BankHandoff; log: GameLog; state: GameState } | { ok: false; reason: string };
+
+/**
+ * Valida un paquete recibido y devuelve la partida lista para el Banco nuevo:
+ * el log tiene que re-ejecutarse exactamente al estado incluido, y las conexiones
+ * del Banco viejo se registran como cortadas.
+ */
+export function readHandoff(raw: unknown, at = Date.now()): HandoffResult {
+  const h = raw as BankHandoff | null;
+  if (!h || typeof h !== "object" || h.kind !== "HANDOFF") return { ok: false, reason: "No es una entrega de Banco" };
+  if (h.v !== 1) return { ok: false, reason: `Versión de entrega desconocida (${String(h.v)})` };
+  if (!Array.isArray(h.log) || !h.state || typeof h.state !== "object") return { ok: false, reason: "Entrega incompleta" };
+
+  const chk = verifyLog(h.log, h.state);
+  if (!chk.ok) return { ok: false, reason: `Entrega inválida: ${chk.reason}` };
+
+  let log = h.log;
+  let state = h.state;
+  for (const p of Object.values(state.players)) {
+    if (!p.connected || !p.connId) continue;
+    const next = appendEvent(log, state, { k: "player_disconnect", connId: p.connId }, at);
+    if (next.ok) ({ log, state } = next);
+  }
+  return { ok: true, handoff: h, log, state };
+}
+
+/**
+ * Tope (en bytes) para mandar el paquete por el canal de un jugador: los navegadores cortan
+ * mensajes SCTP de más de ~64 KiB. Lo que no entra va por QR animado o archivo.
+ */
+export const HANDOFF_PEER_MAX = 60_000;
+
+/** true si el mensaje HANDOFF con este paquete entra en un solo envío por el data channel. */
+export function fitsPeerChannel(handoff: BankHandoff): boolean {
+  return new TextEncoder().encode(JSON.stringify({ t: "HANDOFF", handoff })).length <= HANDOFF_PEER_MAX;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { appendEvent, startLog, type GameCommand } from "./events";
+import { discardedPlayerEvents, restoreSnapshot } from "./history";
+import { joinPlayer, makeGame, transferCash } from "./rules";
+import type { GameState } from "./types";
+
+function base(): GameState {
+  let s = makeGame();
+  s = joinPlayer(s, "c1", "Ana", "new");
+  s = joinPlayer(s, "c2", "Beto", "new");
+  return transferCash(s, "BANK", "ana", 100, "b");
+}
+
+describe("restoreSnapshot", () => {
+  it("ubica los Tx que solo tiene el destino en su lugar de la cadena", () => {
+    const s0 = base();
+    const current = transferCash(transferCash(s0, "ana", "BANK", 10, "c1"), "beto", "BANK", 20, "c2");
+    const target = transferCash(s0, "beto", "ana", 30, "t");
+
+    const out = restoreSnapshot(current, target);
+
+    expect(out.tx.map((t) => t.note)).toEqual([expect.stringContaining("restaurado"), "c2", "c1", "t", "b"]);
+    expect(out.tx.map((t) => !!t.reverted)).toEqual([false, true, true, false, false]);
+    expect(out.players.ana.balance).toBe(1630);
+  });
+});
+
+describe("discardedPlayerEvents", () => {
+  it("lista las acciones de jugadores que se pierden al deshacer una del Banco", () => {
+    let g = startLog(makeGame());
+    const add = (cmd: GameCommand) => {
+      const r = appendEvent(g.log, g.state, cmd);
+      if (!r.ok) throw new Error(r.reason);
+      g = r;
+    };
+    add({ k: "player_join", connId: "c1", name: "Ana", kind: "new" }); // 1
+    add({ k: "cash", from: "BANK", to: "ana", amount: 50, note: "Banco" }); // 2: acción del Banco
+    add({ k: "player_join", connId: "c2", name: "Beto", kind: "new" }); // 3
+    add({ k: "player_request", by: "beto", req: { k: "PAY", toName: "BANK", amount: 10 } }); // 4
+
+    // deshacer el cash (volver a 1) descarta el ingreso de Beto y su solicitud
+    expect(discardedPlayerEvents(g.log, 4, 1).map((ev) => ev.seq)).toEqual([3, 4]);
+
+    add({ k: "restore", to: 1 }); // 5
+    expect(discardedPlayerEvents(g.log, 5, 1)).toEqual([]);
+    // rehacer vuelve a 4: no se pierde nada
+    expect(discardedPlayerEvents(g.log, 5, 4)).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { GameCommand, GameEvent, GameLog } from "./events";
+import { addTx } from "./rules";
+import type { GameState, Tx } from "./types";
+
+/** Cuántas acciones del Banco se pueden deshacer. */
+export const HISTORY_LIMIT = 50;
+
+/**
+ * Pilas de deshacer/rehacer del Banco (solo en memoria).
+ * Guardan posiciones del log de eventos: `seq` = estado posterior a ese evento.
+ */
+export type History = {
+  past: number[];
+  future: number[];
+};
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+/** Registra una acción del Banco; `prevSeq` es el último evento antes de la acción. */
+export function pushHistory(h: History, prevSeq: number): History {
+  if (h.past[h.past.length - 1] === prevSeq) return h;
+  return { past: [...h.past, prevSeq].slice(-HISTORY_LIMIT), future: [] };
+}
+
+/**
+ * Vuelve a `target` sin borrar registro: los Tx que no existen (activos) en `target`
+ * quedan marcados como revertidos. Las conexiones se toman del estado actual
+ * (no son historia de la partida). Se agrega un Tx "revert" para que el ledger
+ * explique el salto de saldos.
+ */
+export function restoreSnapshot(current: GameState, target: GameState): GameState {
+  const targetTx = new Map(target.tx.map((t) => [t.id, t]));
+  const currentIds = new Set(current.tx.map((t) => t.id));
+
+  const tx: Tx[] = current.tx.map((t) => targetTx.get(t.id) ?? (t.reverted ? t : { ...t, reverted: true }));
+  // los Tx que solo tiene `target` van justo después del que los precede en su cadena
+  // (la lista va de más nuevo a más viejo), no al final: así el registro sigue en orden
+  for (let i = target.tx.length - 1; i >= 0; i--) {
+    const t = target.tx[i];
+    if (currentIds.has(t.id)) continue;
+    const older = target.tx[i + 1];
+    const at = older ? tx.findIndex((x) => x.id === older.id) : -1;
+    tx.splice(at < 0 ? tx.length : at, 0, t);
+  }
+
+  const players = { ...target.players };
+  for (const k of Object.keys(players)) {
+    const live = current.players[k];
+    if (live) players[k] = { ...players[k], connId: live.connId, connected: live.connected };
+  }
+
+  const head = target.tx[0];
+  return addTx(
+    { ...target, players, tx },
+    {
+      type: "revert",
+      from: "BANK",
+      to: "BANK",
+      // sin hash = partida de antes del ledger
+      revertTo: head ? head.hash : "",
+      note: "Estado restaurado (deshacer / rehacer / volver atrás)",
+    }
+  );
+}
+
+/** Deshacer: el destino es un `restore` al estado anterior a la última acción. */
+export function undo(h: History, currentSeq: number): { history: History; seq: number } | null {
+  const target = h.past[h.past.length - 1];
+  if (target === undefined) return null;
+  return { history: { past: h.past.slice(0, -1), future: [...h.future, currentSeq] }, seq: target };
+}
+
+export function redo(h: History, currentSeq: number): { history: History; seq: number } | null {
+  const target = h.future[h.future.length - 1];
+  if (target === undefined) return null;
+  return { history: { past: [...h.past, currentSeq], future: h.future.slice(0, -1) }, seq: target };
+}
+
+/**
+ * Volver a un Tx del registro = volver al estado posterior al evento que lo generó
+ * (todo lo siguiente queda revertido). Se registra como una acción más: se puede deshacer.
+ */
+export function rollbackTo(h: History, current: GameState, currentSeq: number, txId: string): { history: History; seq: number } | null {
+  const tx = current.tx.find((t) => t.id === txId);
+  if (!tx || tx.reverted || tx.seq === undefined) return null;
+  if (current.tx.find((t) => !t.reverted)?.id === txId) return null;
+  return { history: pushHistory(h, currentSeq), seq: tx.seq };
+}
+
+export function canRollbackTo(current: GameState, txId: string): boolean {
+  return rollbackTo(EMPTY_HISTORY, current, 0, txId) !== null;
+}
+
+/** Eventos que los jugadores generan solos (no pasan por el historial del Banco). */
+const PLAYER_EVENTS = new Set<GameCommand["k"]>(["player_join", "player_disconnect", "player_request", "auction_bid"]);
+
+/** Eventos cuyo efecto está en el estado posterior a `seq` (un `restore` sigue desde su destino). */
+function effectiveSeqs(log: GameLog, seq: number): number[] {
+  const out: number[] = [];
+  for (let s = seq; s >= 0; ) {
+    const ev = log[s];
+    if (!ev) break;
+    if (ev.k === "restore") {
+      s = ev.to < s ? ev.to : -1; // un restore siempre apunta hacia atrás
+      continue;
+    }
+    out.push(s);
+    s -= 1;
+  }
+  return out;
+}
+
+/**
+ * Eventos de jugadores (pagos, ofertas, ingresos...) que se pierden al volver del estado `fromSeq`
+ * al `toSeq`: deshacer una acción del Banco también borra lo que los jugadores hicieron después.
+ */
+export function discardedPlayerEvents(log: GameLog, fromSeq: number, toSeq: number): GameEvent[] {
+  const kept = new Set(effectiveSeqs(log, toSeq));
+  return effectiveSeqs(log, fromSeq)
+    .filter((s) => !kept.has(s) && PLAYER_EVENTS.has(log[s].k))
+    .reverse()
+    .map((s) => log[s]);
+}
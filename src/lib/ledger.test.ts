@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { verifyLedger } from "./ledger";
+import { joinPlayer, makeGame, transferCash } from "./rules";
+import type { GameState, Tx } from "./types";
+
+/** Ana paga una multa (tag + acción del catálogo) y después le transfiere a Beto. */
+function game(): GameState {
+  let s = makeGame();
+  s = joinPlayer(s, "c1", "Ana", "new");
+  s = joinPlayer(s, "c2", "Beto", "new");
+  s = transferCash(s, "ana", "beto", 50, "Multa", { tag: "fine", action: "multa" });
+  return transferCash(s, "ana", "beto", 20, "Préstamo");
+}
+
+/** Edita el Tx `id` sin recalcular su hash (lo que haría alguien que adultera la partida). */
+function tamper(state: GameState, id: string, patch: Partial<Tx>): GameState {
+  return { ...state, tx: state.tx.map((t) => (t.id === id ? { ...t, ...patch } : t)) };
+}
+
+describe("verifyLedger", () => {
+  it("acepta la cadena sin tocar", () => {
+    const s = game();
+    expect(verifyLedger(s)).toMatchObject({ ok: true, head: s.tx[0].hash });
+  });
+
+  it.each([
+    ["el monto", { amount: 5 }],
+    ["la nota", { note: "Regalo" }],
+    ["la etiqueta", { tag: "tax" }],
+    ["la etiqueta (borrada)", { tag: undefined }],
+    ["la acción del catálogo", { action: "otra" }],
+  ] as const)("detecta que se editó %s de un Tx viejo", (_what, patch) => {
+    const s = game();
+    const multa = s.tx.find((t) => t.note === "Multa")!;
+    const check = verifyLedger(tamper(s, multa.id, patch));
+    expect(check).toEqual({ ok: false, reason: expect.stringMatching(/fue modificado$/) });
+  });
+
+  it("detecta un historial ya visto que se reescribió", () => {
+    const s = game();
+    expect(verifyLedger(s, "cabeza-que-no-existe")).toEqual({ ok: false, reason: "El historial ya visto fue reescrito" });
+  });
+});
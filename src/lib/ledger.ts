@@ -0,0 +1,180 @@
+import { signText, verifyText, type KeyPair } from "./session";
+import type { GameState, PlayerKey, Tx, TxType } from "./types";
+
+/**
+ * Ledger encadenado: cada Tx guarda el hash del anterior (`prevHash`) y los saldos
+ * resultantes (`balances`); su `hash` cubre ambos. El Banco firma solo la cabeza
+ * (tx[0].hash) con la clave de la partida anunciada en el Offer: como cada hash
+ * incluye al anterior, la firma compromete todo el historial.
+ *
+ * `reverted` y `seq` no entran en el hash (son marcas del Banco, no movimientos).
+ */
+
+/* SHA-256 síncrono: addTx es síncrono y el log de eventos tiene que re-ejecutarse igual. */
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01,
+  0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc,
+  0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da, 0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070, 0x19a4c116, 0x1e376c08,
+  0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+export function sha256Hex(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const bitLen = bytes.length * 8;
+  const total = (((bytes.length + 9 + 63) >> 6) << 6);
+  const buf = new Uint8Array(total);
+  buf.set(bytes);
+  buf[bytes.length] = 0x80;
+  const view = new DataView(buf.buffer);
+  view.setUint32(total - 8, Math.floor(bitLen / 0x100000000));
+  view.setUint32(total - 4, bitLen >>> 0);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let off = 0; off < total; off += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(off + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }
+  return Array.from(h, (x) => x.toString(16).padStart(8, "0")).join("");
+}
+
+export function balancesOf(state: GameState): Record<PlayerKey, number> {
+  const out: Record<PlayerKey, number> = {};
+  for (const k of Object.keys(state.players).sort()) out[k] = state.players[k].balance;
+  return out;
+}
+
+/** Hash de un Tx: contenido del movimiento + hash anterior + saldos resultantes. */
+export function txHash(tx: Omit<Tx, "hash">): string {
+  const balances = Object.entries(tx.balances ?? {}).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return sha256Hex(
+    JSON.stringify([
+      tx.prevHash ?? "",
+      tx.id,
+      tx.ts,
+      tx.type,
+      tx.from,
+      tx.to,
+      tx.amount ?? null,
+      tx.propertyId ?? null,
+      tx.groupId ?? null,
+      tx.revertTo ?? null,
+      tx.note,
+      tx.tag ?? null,
+      tx.action ?? null,
+      balances,
+    ])
+  );
+}
+
+/** Agrega los campos del ledger a un Tx nuevo (se llama desde addTx). */
+export function chainTx(state: GameState, tx: Tx): Tx {
+  const chained = { ...tx, prevHash: state.tx[0]?.hash ?? "", balances: balancesOf(state) };
+  return { ...chained, hash: txHash(chained) };
+}
+
+/** Tipos donde `amount` mueve saldos de `from` a `to` (el resto son registros informativos). */
+const MONEY_TX: TxType[] = ["cash", "mortgage", "unmortgage", "build", "sell_build"];
+
+export type LedgerCheck = { ok: true; head: string; count: number } | { ok: false; reason: string };
+
+/**
+ * Verificación completa del lado del jugador:
+ * - la cadena de hashes está intacta (nadie editó un Tx viejo)
+ * - cada movimiento explica exactamente el cambio de saldos respecto del anterior
+ * - un `revert` vuelve exactamente a los saldos del Tx al que apunta
+ * - los saldos actuales coinciden con los del último Tx
+ * - `seenHead` (la última cabeza aceptada) sigue en la cadena: el historial no se reescribió
+ */
+export function verifyLedger(state: GameState, seenHead?: string): LedgerCheck {
+  // los Tx sin hash son de antes del ledger: solo pueden estar al final (los más viejos)
+  const chain = [...state.tx].reverse();
+  const firstHashed = chain.findIndex((t) => t.hash);
+  if (firstHashed < 0) return { ok: true, head: "", count: 0 };
+  const hashed = chain.slice(firstHashed);
+  const byHash = new Map<string, Tx>();
+
+  let prev: Tx | null = null;
+  for (const t of hashed) {
+    const label = `Tx ${t.id} (${t.note})`;
+    if (!t.hash || !t.balances) return { ok: false, reason: `${label} sin hash en medio del ledger` };
+    if (txHash(t) !== t.hash) return { ok: false, reason: `${label} fue modificado` };
+    if ((t.prevHash ?? "") !== (prev?.hash ?? "")) return { ok: false, reason: `Cadena rota en ${label}` };
+
+    if (t.type === "revert" && t.revertTo === undefined && firstHashed > 0) {
+      // volvió a un estado anterior al ledger (partida vieja): no hay saldos con qué comparar
+    } else if (t.type === "revert") {
+      const target = t.revertTo ? byHash.get(t.revertTo) : null;
+      if (t.revertTo && !target) return { ok: false, reason: `${label} apunta a un Tx desconocido` };
+      for (const [k, v] of Object.entries(t.balances)) {
+        const expected = target?.balances?.[k] ?? state.rules.startingCash;
+        if (v !== expected) return { ok: false, reason: `${label}: saldo de ${k} no vuelve a ${expected}` };
+      }
+    } else if (prev || firstHashed === 0) {
+      const before = prev?.balances ?? {};
+      for (const [k, v] of Object.entries(t.balances)) {
+        let expected = before[k] ?? state.rules.startingCash;
+        if (MONEY_TX.includes(t.type) && t.amount) {
+          if (t.from === k) expected -= t.amount;
+          if (t.to === k) expected += t.amount;
+        }
+        if (v !== expected) return { ok: false, reason: `${label}: saldo de ${k} es ${v}, el ledger da ${expected}` };
+      }
+    }
+
+    byHash.set(t.hash, t);
+    prev = t;
+  }
+
+  const head = prev!;
+  for (const p of Object.values(state.players)) {
+    const expected = head.balances![p.key] ?? state.rules.startingCash;
+    if (p.balance !== expected) return { ok: false, reason: `Saldo de ${p.name} (${p.balance}) no coincide con el ledger (${expected})` };
+  }
+
+  if (seenHead && !byHash.has(seenHead)) return { ok: false, reason: "El historial ya visto fue reescrito" };
+
+  return { ok: true, head: head.hash!, count: hashed.length };
+}
+
+function headPayload(gameId: string, head: string): string {
+  return `PB-LEDGER:${gameId}:${head}`;
+}
+
+export function signLedgerHead(key: KeyPair, gameId: string, head: string): Promise<string> {
+  return signText(key, headPayload(gameId, head));
+}
+
+export function verifyLedgerHead(pub: string, gameId: string, head: string, sig: string): Promise<boolean> {
+  return verifyText(pub, headPayload(gameId, head), sig);
+}
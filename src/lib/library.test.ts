@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { appendEvent, startLog } from "./events";
+import { savedFrom } from "./library";
+import { makeGame } from "./rules";
+
+function game() {
+  const g = startLog(makeGame(), 100);
+  const r = appendEvent(g.log, g.state, { k: "player_join", connId: "c1", name: "Ana", kind: "new" }, 250);
+  if (!r.ok) throw new Error(r.reason);
+  return r;
+}
+
+describe("savedFrom", () => {
+  it("resume la partida: jugadores, creación y último evento", () => {
+    const g = game();
+    const saved = savedFrom(g.log, g.state, {});
+    expect(saved).toMatchObject({ gameId: g.state.gameId, createdAt: g.state.createdAt, updatedAt: 250, players: ["Ana"] });
+    expect(saved.log).toBe(g.log);
+  });
+
+  it("conserva fecha de creación y archivado de la entrada anterior", () => {
+    const g = game();
+    expect(savedFrom(g.log, g.state, {}, { createdAt: 1, archived: true })).toMatchObject({ createdAt: 1, archived: true });
+  });
+
+  it("solo guarda lo del Banco que es de esta partida", () => {
+    const g = game();
+    const id = g.state.gameId;
+    const key = { pub: "pub", priv: {} };
+    const saved = savedFrom(g.log, g.state, {
+      bankKey: { gameId: "otra", key },
+      bankPrevPub: { gameId: id, pub: "vieja" },
+      bankResume: { gameId: id, tokens: { ana: "hash" } },
+      bankHandedOff: { gameId: "otra", at: 1 },
+    });
+    expect(saved.bankKey).toBeUndefined();
+    expect(saved.bankHandedOff).toBeUndefined();
+    expect(saved.bankPrevPub).toEqual({ gameId: id, pub: "vieja" });
+    expect(saved.bankResume).toEqual({ gameId: id, tokens: { ana: "hash" } });
+  });
+});
@@ -0,0 +1,113 @@
+import type { GameLog } from "./events";
+import type { ResumeTokens } from "./reconnect";
+import type { KeyPair } from "./session";
+import type { GameState, PlayerKey } from "./types";
+
+/**
+ * Biblioteca de partidas del Banco en IndexedDB (una entrada por gameId).
+ * Cada partida guarda su log de eventos y lo propio del Banco para esa partida (clave del ledger,
+ * tokens de reconexión, entrega): al cambiar de partida todo vuelve como estaba.
+ * localStorage queda solo para preferencias del dispositivo y la partida activa.
+ */
+
+/** Lo que el Banco guarda por partida además del log. */
+export type BankSecrets = {
+  bankKey?: { gameId: string; key: KeyPair };
+  bankPrevPub?: { gameId: string; pub: string }; // clave del Banco anterior, si la partida llegó por entrega
+  bankResume?: ResumeTokens;
+  bankHandedOff?: { gameId: string; at: number; to?: PlayerKey };
+};
+
+export type SavedGame = BankSecrets & {
+  gameId: string;
+  createdAt: number;
+  updatedAt: number; // último evento
+  players: string[];
+  archived?: boolean;
+  log: GameLog;
+};
+
+/** Entrada de la lista (sin el log). */
+export type GameSummary = Omit<SavedGame, "log" | keyof BankSecrets> & { events: number };
+
+const DB_NAME = "propertybank";
+const DB_VERSION = 1;
+const STORE = "games";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: "gameId" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error ?? new Error("No se pudo abrir la base de partidas"));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("Error de la base de partidas"));
+  });
+}
+
+export function hasIndexedDB(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export async function listGames(): Promise<GameSummary[]> {
+  const all = await run<SavedGame[]>("readonly", (s) => s.getAll());
+  return all
+    .map(({ log, bankKey: _k, bankPrevPub: _p, bankResume: _r, bankHandedOff: _h, ...rest }) => ({ ...rest, events: log.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadGame(gameId: string): Promise<SavedGame | undefined> {
+  return run<SavedGame | undefined>("readonly", (s) => s.get(gameId));
+}
+
+export async function saveGame(game: SavedGame): Promise<void> {
+  await run("readwrite", (s) => s.put(game));
+}
+
+export async function deleteGame(gameId: string): Promise<void> {
+  await run("readwrite", (s) => s.delete(gameId));
+}
+
+export async function setArchived(gameId: string, archived: boolean): Promise<void> {
+  const cur = await loadGame(gameId);
+  if (cur) await saveGame({ ...cur, archived: archived || undefined });
+}
+
+/** Entrada de biblioteca para una partida; `base` conserva fecha de creación y archivado de la entrada anterior. */
+export function savedFrom(
+  log: GameLog,
+  state: GameState,
+  secrets: BankSecrets,
+  base?: Pick<SavedGame, "createdAt" | "archived">
+): SavedGame {
+  const mine = <T extends { gameId: string }>(x: T | undefined) => (x?.gameId === state.gameId ? x : undefined);
+  return {
+    gameId: state.gameId,
+    createdAt: base?.createdAt ?? state.createdAt,
+    updatedAt: log[log.length - 1]?.ts ?? Date.now(),
+    players: Object.values(state.players).map((p) => p.name),
+    archived: base?.archived,
+    log,
+    bankKey: mine(secrets.bankKey),
+    bankPrevPub: mine(secrets.bankPrevPub),
+    bankResume: mine(secrets.bankResume),
+    bankHandedOff: mine(secrets.bankHandedOff),
+  };
+}
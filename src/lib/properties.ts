@@ -1,80 +1,75 @@
-import type { PropertyDef, PropertyGroup } from "./types";
-
-export const GROUP_COLORS: Record<PropertyGroup, string> = {
-  brown: "#8B5A2B",
-  lightblue: "#8FD3FF",
-  pink: "#FF5AA5",
-  orange: "#FF8A3D",
-  red: "#E53935",
-  yellow: "#F9D423",
-  green: "#2ECC71",
-  blue: "#1E3A8A",
-  neutral_black: "#111827",
-  neutral_gray: "#6B7280",
-};
+import type { BoardDef, GroupDef, PropertyDef } from "./types";
 
 export function softBg(hex: string): string {
   return `${hex}1A`;
 }
 
 /**
- * Definición genérica estilo tablero clásico:
+ * Tablero genérico estilo clásico (el de las partidas sin tablero propio):
  * - 22 terrenos (2/3/3/3/3/3/3/2 por grupo)
  * - 4 transportes
  * - 2 servicios
+ * Costo de casa/hotel por grupo según la tabla clásica.
  */
-export const PROPERTY_DEFS: PropertyDef[] = buildDefs();
+export const CLASSIC_BOARD: BoardDef = {
+  id: "classic",
+  name: "Clásico",
+  groups: [
+    { id: "brown", label: "Marrón", color: "#8B5A2B", buildCost: 50 },
+    { id: "lightblue", label: "Celeste", color: "#8FD3FF", buildCost: 50 },
+    { id: "pink", label: "Rosa", color: "#FF5AA5", buildCost: 100 },
+    { id: "orange", label: "Naranja", color: "#FF8A3D", buildCost: 100 },
+    { id: "red", label: "Rojo", color: "#E53935", buildCost: 150 },
+    { id: "yellow", label: "Amarillo", color: "#F9D423", buildCost: 150 },
+    { id: "green", label: "Verde", color: "#2ECC71", buildCost: 200 },
+    { id: "blue", label: "Azul", color: "#1E3A8A", buildCost: 200 },
+    { id: "neutral_black", label: "Transportes", color: "#111827", buildCost: 0 },
+    { id: "neutral_gray", label: "Servicios", color: "#6B7280", buildCost: 0 },
+  ] satisfies GroupDef[],
+  props: buildDefs(),
+};
 
 function buildDefs(): PropertyDef[] {
-  const streets: Array<[PropertyGroup, number]> = [
-    ["brown", 60], ["brown", 60],
-    ["lightblue", 100], ["lightblue", 100], ["lightblue", 120],
-    ["pink", 140], ["pink", 140], ["pink", 160],
-    ["orange", 180], ["orange", 180], ["orange", 200],
-    ["red", 220], ["red", 220], ["red", 240],
-    ["yellow", 260], ["yellow", 260], ["yellow", 280],
-    ["green", 300], ["green", 300], ["green", 320],
-    ["blue", 350], ["blue", 400],
+  // renta: [sin edificios, 1 casa, 2, 3, 4, hotel]
+  const streets: Array<[string, number, number[]]> = [
+    ["brown", 60, [2, 10, 30, 90, 160, 250]], ["brown", 60, [4, 20, 60, 180, 320, 450]],
+    ["lightblue", 100, [6, 30, 90, 270, 400, 550]], ["lightblue", 100, [6, 30, 90, 270, 400, 550]], ["lightblue", 120, [8, 40, 100, 300, 450, 600]],
+    ["pink", 140, [10, 50, 150, 450, 625, 750]], ["pink", 140, [10, 50, 150, 450, 625, 750]], ["pink", 160, [12, 60, 180, 500, 700, 900]],
+    ["orange", 180, [14, 70, 200, 550, 750, 950]], ["orange", 180, [14, 70, 200, 550, 750, 950]], ["orange", 200, [16, 80, 220, 600, 800, 1000]],
+    ["red", 220, [18, 90, 250, 700, 875, 1050]], ["red", 220, [18, 90, 250, 700, 875, 1050]], ["red", 240, [20, 100, 300, 750, 925, 1100]],
+    ["yellow", 260, [22, 110, 330, 800, 975, 1150]], ["yellow", 260, [22, 110, 330, 800, 975, 1150]], ["yellow", 280, [24, 120, 360, 850, 1025, 1200]],
+    ["green", 300, [26, 130, 390, 900, 1100, 1275]], ["green", 300, [26, 130, 390, 900, 1100, 1275]], ["green", 320, [28, 150, 450, 1000, 1200, 1400]],
+    ["blue", 350, [35, 175, 500, 1100, 1300, 1500]], ["blue", 400, [50, 200, 600, 1400, 1700, 2000]],
   ];
 
-  const streetProps = streets.map(([group, price], i) => ({
+  const streetProps = streets.map(([group, price, rent], i) => ({
     id: `P${String(i + 1).padStart(2, "0")}`,
     kind: "street" as const,
     group,
     price,
+    rent,
     label: `Terreno ${i + 1}`,
   }));
 
+  // renta según cuántos transportes tenga el dueño (1..4)
   const rails = [200, 200, 200, 200].map((price, i) => ({
     id: `T${i + 1}`,
     kind: "rail" as const,
-    group: "neutral_black" as const,
+    group: "neutral_black",
     price,
+    rent: [25, 50, 100, 200],
     label: `Transporte ${i + 1}`,
   }));
 
+  // multiplicador de dados según cuántos servicios tenga el dueño (1..2)
   const utils = [150, 150].map((price, i) => ({
     id: `S${i + 1}`,
     kind: "utility" as const,
-    group: "neutral_gray" as const,
+    group: "neutral_gray",
     price,
+    rent: [4, 10],
     label: `Servicio ${i + 1}`,
   }));
 
   return [...streetProps, ...rails, ...utils];
 }
-
-/**
- * Costo de casa/hotel por grupo (tabla clásica).
- * (No usamos nombres, pero sí lógica de costos por color.)
- */
-export const BUILD_COST_BY_GROUP: Partial<Record<PropertyGroup, number>> = {
-  brown: 50,
-  lightblue: 50,
-  pink: 100,
-  orange: 100,
-  red: 150,
-  yellow: 150,
-  green: 200,
-  blue: 200,
-};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { QR_SINGLE_MAX, crc32, gatherQR, isQRFrame, splitQR, type QRGather, type QRGatherStep } from "./qr";
+
+// payload sin repeticiones obvias, como un estado comprimido
+const PAYLOAD = Array.from({ length: 2000 }, (_, i) => String.fromCharCode(33 + ((i * 7919) % 90))).join("");
+
+/** Escanea los cuadros en ese orden y devuelve el último paso. */
+function scan(frames: string[]): QRGatherStep {
+  let cur: QRGather | null = null;
+  let step: QRGatherStep = { gather: null };
+  for (const f of frames) {
+    step = gatherQR(cur, f);
+    cur = step.gather;
+    if (step.payload) break;
+  }
+  return step;
+}
+
+describe("splitQR / gatherQR", () => {
+  it("un payload corto queda como un único QR normal", () => {
+    const short = "x".repeat(QR_SINGLE_MAX);
+    expect(splitQR(short)).toEqual([short]);
+    expect(isQRFrame(short)).toBe(false);
+  });
+
+  it("parte en cuadros numerados y los junta en orden", () => {
+    const frames = splitQR(PAYLOAD, 300);
+    expect(frames).toHaveLength(7);
+    expect(frames.every(isQRFrame)).toBe(true);
+    expect(frames[0].startsWith(`PBM:${crc32(PAYLOAD)}:1:7:`)).toBe(true);
+    expect(scan(frames).payload).toBe(PAYLOAD);
+  });
+
+  it("los junta desordenados y con repetidos (la cámara vuelve a leer el mismo cuadro)", () => {
+    const frames = splitQR(PAYLOAD, 300);
+    const order = [4, 4, 1, 6, 0, 1, 3, 2, 3, 5];
+    const steps: QRGatherStep[] = [];
+    let cur: QRGather | null = null;
+    for (const i of order) {
+      const step = gatherQR(cur, frames[i]);
+      steps.push(step);
+      cur = step.gather;
+    }
+    // el repetido no suma: la transferencia se completa recién con el último cuadro que faltaba
+    expect(steps.findIndex((s) => s.payload)).toBe(order.length - 1);
+    expect(steps[order.length - 1].payload).toBe(PAYLOAD);
+  });
+
+  it("un cuadro dañado se detecta con el crc32 al completar", () => {
+    const frames = splitQR(PAYLOAD, 300);
+    frames[2] = frames[2].slice(0, -1) + (frames[2].endsWith("A") ? "B" : "A");
+    const step = scan(frames);
+    expect(step).toEqual({ gather: null, error: "El QR animado llegó dañado: escaneá de nuevo" });
+  });
+
+  it("un cuadro de otra transferencia descarta lo juntado", () => {
+    const a = splitQR(PAYLOAD, 300);
+    const b = splitQR(PAYLOAD.slice(1), 300);
+    const first = gatherQR(null, a[0]).gather;
+    const other = gatherQR(first, b[1]).gather!;
+    expect(other.sum).toBe(crc32(PAYLOAD.slice(1)));
+    expect(Object.keys(other.parts)).toEqual(["2"]);
+  });
+
+  it("rechaza cuadros mal formados sin perder lo juntado", () => {
+    const frames = splitQR(PAYLOAD, 300);
+    const cur = gatherQR(null, frames[0]).gather;
+    for (const bad of ["hola", "PBM:zz:1:2:x", `PBM:${crc32(PAYLOAD)}:0:7:x`, `PBM:${crc32(PAYLOAD)}:8:7:x`]) {
+      expect(gatherQR(cur, bad)).toEqual({ gather: cur, error: "Cuadro de QR inválido" });
+    }
+  });
+});
@@ -1,6 +1,9 @@
 import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from "lz-string";
+import type { SignalData } from "simple-peer";
+import { compactSignal, expandSignal } from "./signal";
 
 const QR_PREFIX = "PB1:"; // Property Bank v1
+const QR_PREFIX_V2 = "PB2:"; // v2: igual que v1 pero `signal` va en formato compacto (ver signal.ts)
 
 export function encodeQR(obj: unknown): string {
   const json = JSON.stringify(obj);
@@ -8,9 +11,82 @@ export function encodeQR(obj: unknown): string {
   return `${QR_PREFIX}${packed}`;
 }
 
+/** OFFER/ANSWER con la señal compacta; si la señal no se puede compactar sale como v1. */
+export function encodeSignalQR<T extends { signal: SignalData }>(obj: T): string {
+  const signal = compactSignal(obj.signal);
+  if (!signal) return encodeQR(obj);
+  return `${QR_PREFIX_V2}${compressToEncodedURIComponent(JSON.stringify({ ...obj, signal }))}`;
+}
+
 export function decodeQR<T>(text: string): T {
-  const raw = text.startsWith(QR_PREFIX) ? text.slice(QR_PREFIX.length) : text;
+  const v2 = text.startsWith(QR_PREFIX_V2);
+  const raw = v2 ? text.slice(QR_PREFIX_V2.length) : text.startsWith(QR_PREFIX) ? text.slice(QR_PREFIX.length) : text;
   const json = decompressFromEncodedURIComponent(raw);
   if (!json) throw new Error("QR inválido / no compatible");
-  return JSON.parse(json) as T;
+  const obj = JSON.parse(json);
+  if (v2 && typeof obj?.signal === "string") obj.signal = expandSignal(obj.signal);
+  return obj as T;
+}
+
+/**
+ * QR animado: un payload largo se parte en cuadros `PBM:<crc>:<i>:<n>:<datos>` que se muestran en ciclo.
+ * El lector junta los cuadros en cualquier orden; el crc32 del payload entero identifica la transferencia
+ * y confirma que se armó bien. Sirve para cualquier texto (OFFER/ANSWER, links, estado de la partida).
+ */
+const FRAME_PREFIX = "PBM:";
+
+/** Hasta este largo alcanza un solo QR legible. */
+export const QR_SINGLE_MAX = 700;
+/** Datos por cuadro del QR animado. */
+export const QR_FRAME_CHARS = 350;
+/** Tiempo que se muestra cada cuadro. */
+export const QR_FRAME_MS = 450;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export function crc32(text: string): string {
+  let c = 0xffffffff;
+  for (const b of new TextEncoder().encode(text)) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return ((c ^ 0xffffffff) >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Cuadros para mostrar; un payload corto queda como un único QR normal. */
+export function splitQR(payload: string, size = QR_FRAME_CHARS): string[] {
+  if (payload.length <= QR_SINGLE_MAX) return [payload];
+  const sum = crc32(payload);
+  const n = Math.ceil(payload.length / size);
+  return Array.from({ length: n }, (_, i) => `${FRAME_PREFIX}${sum}:${i + 1}:${n}:${payload.slice(i * size, (i + 1) * size)}`);
+}
+
+export function isQRFrame(text: string): boolean {
+  return text.startsWith(FRAME_PREFIX);
+}
+
+/** Cuadros juntados hasta ahora (por número). */
+export type QRGather = { sum: string; total: number; parts: Record<number, string> };
+
+export type QRGatherStep = { gather: QRGather | null; payload?: string; error?: string };
+
+/** Suma un cuadro escaneado; `payload` aparece cuando están todos y el checksum coincide. */
+export function gatherQR(cur: QRGather | null, frame: string): QRGatherStep {
+  const m = /^PBM:([0-9a-f]{8}):(\d+):(\d+):([\s\S]*)$/.exec(frame);
+  if (!m) return { gather: cur, error: "Cuadro de QR inválido" };
+  const [, sum, iText, nText, data] = m;
+  const i = Number(iText);
+  const total = Number(nText);
+  if (!total || i < 1 || i > total) return { gather: cur, error: "Cuadro de QR inválido" };
+
+  // un cuadro de otra transferencia descarta lo juntado
+  const base = cur && cur.sum === sum && cur.total === total ? cur : { sum, total, parts: {} };
+  if (base.parts[i] === data) return { gather: base };
+  const gather = { ...base, parts: { ...base.parts, [i]: data } };
+  if (Object.keys(gather.parts).length < total) return { gather };
+
+  const payload = Array.from({ length: total }, (_, k) => gather.parts[k + 1]).join("");
+  if (crc32(payload) !== sum) return { gather: null, error: "El QR animado llegó dañado: escaneá de nuevo" };
+  return { gather: null, payload };
 }
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { checkResume, issueResume, linksOf, meshPair, pickBuddy } from "./reconnect";
+import { joinPlayer, makeGame } from "./rules";
+import type { GameState } from "./types";
+
+describe("tokens de reanudación", () => {
+  it("vale solo el último token del jugador y solo en su partida", () => {
+    let tokens = issueResume(undefined, "g1", "ana", "viejo");
+    tokens = issueResume(tokens, "g1", "ana", "nuevo");
+    tokens = issueResume(tokens, "g1", "beto", "de-beto");
+
+    expect(checkResume(tokens, "g1", "ana", "nuevo")).toBe(true);
+    expect(checkResume(tokens, "g1", "ana", "viejo")).toBe(false);
+    expect(checkResume(tokens, "g1", "ana", "de-beto")).toBe(false);
+    expect(checkResume(tokens, "g2", "ana", "nuevo")).toBe(false);
+    expect(checkResume(tokens, "g1", "carla", "nuevo")).toBe(false);
+    expect(checkResume(undefined, "g1", "ana", "nuevo")).toBe(false);
+    expect(checkResume(tokens, "g1", "ana", 42 as never)).toBe(false);
+  });
+
+  it("el Banco guarda el hash, no el token", () => {
+    const tokens = issueResume(undefined, "g1", "ana", "secreto");
+    expect(JSON.stringify(tokens)).not.toContain("secreto");
+  });
+
+  it("los tokens de otra partida se descartan al emitir uno nuevo", () => {
+    const old = issueResume(undefined, "g1", "ana", "t1");
+    expect(issueResume(old, "g2", "beto", "t2").tokens).not.toHaveProperty("ana");
+  });
+});
+
+describe("pickBuddy", () => {
+  function game(): GameState {
+    let s = makeGame();
+    for (const [i, name] of ["Ana", "Beto", "Carla", "Dani"].entries()) s = joinPlayer(s, `c${i}`, name, "new");
+    return s;
+  }
+
+  it("elige al conectado con menos enlaces, sin repetir ni elegirse a sí mismo", () => {
+    const pairs = new Set([meshPair("beto", "carla"), meshPair("carla", "dani")]);
+    expect(pickBuddy(game(), "ana", pairs)).toBe("beto");
+    expect(pickBuddy(game(), "beto", pairs)).toBe("ana");
+  });
+
+  it("saltea a los desconectados y devuelve null si no queda nadie", () => {
+    const s = game();
+    const off = (st: GameState, k: string) => ({ ...st, players: { ...st.players, [k]: { ...st.players[k], connected: false } } });
+    expect(pickBuddy(off(off(s, "beto"), "carla"), "ana", new Set())).toBe("dani");
+    expect(pickBuddy(off(off(off(s, "beto"), "carla"), "dani"), "ana", new Set())).toBeNull();
+  });
+
+  it("los enlaces no tienen orden", () => {
+    const pairs = new Set([meshPair("dani", "ana")]);
+    expect(meshPair("ana", "dani")).toBe(meshPair("dani", "ana"));
+    expect(linksOf(pairs, "ana")).toEqual(["dani"]);
+    expect(linksOf(pairs, "dani")).toEqual(["ana"]);
+  });
+});
@@ -0,0 +1,73 @@
+import { nanoid } from "nanoid";
+import { sha256Hex } from "./ledger";
+import type { GameState, PlayerKey } from "./types";
+
+/**
+ * Reconexión sin QR.
+ * Al aceptar a un jugador el Banco le entrega un token de reanudación (WELCOME) y guarda solo su hash.
+ * Además le asigna un compañero con el que arma un enlace directo (MESH, señalizado a través del Banco).
+ * Si se corta el enlace con el Banco, el jugador negocia una conexión nueva por ese compañero (RESUME):
+ * el compañero reenvía offer/answer y el Banco, al ver un token válido, lo reengancha a su PlayerKey
+ * sin pedir aprobación. Sin enlaces vivos hace falta un Offer nuevo, pero el HELLO lleva el token
+ * y tampoco se pide aprobación.
+ */
+
+/** Banco: hash del token vigente de cada jugador de la partida. */
+export type ResumeTokens = { gameId: string; tokens: Record<PlayerKey, string> };
+
+/** Jugador: token recibido en el último WELCOME. */
+export type ResumeSession = { gameId: string; key: PlayerKey; token: string };
+
+/** Tiempo para completar una reconexión por un compañero antes de pedir un Offer nuevo. */
+export const RESUME_TIMEOUT_MS = 15_000;
+
+export function newResumeToken(): string {
+  return nanoid(24);
+}
+
+function tokenHash(gameId: string, token: string): string {
+  return sha256Hex(`PB-RESUME:${gameId}:${token}`);
+}
+
+/** Registra el token nuevo del jugador (reemplaza al anterior; los de otra partida se descartan). */
+export function issueResume(cur: ResumeTokens | undefined, gameId: string, key: PlayerKey, token: string): ResumeTokens {
+  const tokens = cur?.gameId === gameId ? cur.tokens : {};
+  return { gameId, tokens: { ...tokens, [key]: tokenHash(gameId, token) } };
+}
+
+export function checkResume(cur: ResumeTokens | undefined, gameId: string, key: PlayerKey, token: string): boolean {
+  if (!cur || cur.gameId !== gameId || typeof token !== "string") return false;
+  const expected = cur.tokens[key];
+  return !!expected && expected === tokenHash(gameId, token);
+}
+
+/** Id de un enlace entre dos jugadores (sin orden). */
+export function meshPair(a: PlayerKey, b: PlayerKey): string {
+  return a < b ? `${a}\n${b}` : `${b}\n${a}`;
+}
+
+export function linksOf(pairs: Set<string>, key: PlayerKey): PlayerKey[] {
+  const out: PlayerKey[] = [];
+  for (const pair of pairs) {
+    const [a, b] = pair.split("\n");
+    if (a === key) out.push(b);
+    else if (b === key) out.push(a);
+  }
+  return out;
+}
+
+/** Compañero para un jugador sin enlaces: el conectado con menos enlaces (reparte la carga de reenvío). */
+export function pickBuddy(state: GameState, self: PlayerKey, pairs: Set<string>): PlayerKey | null {
+  const linked = new Set(linksOf(pairs, self));
+  let best: PlayerKey | null = null;
+  let bestCount = Infinity;
+  for (const p of Object.values(state.players)) {
+    if (p.key === self || !p.connected || linked.has(p.key)) continue;
+    const count = linksOf(pairs, p.key).length;
+    if (count < bestCount) {
+      best = p.key;
+      bestCount = count;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { verifyLedger } from "./ledger";
+import { addPlayerRequest, approvePayRequest, rejectPayRequest } from "./requests";
+import { joinPlayer, makeGame, transferCash } from "./rules";
+import type { GameState } from "./types";
+
+// marrón P01 (renta 2, 4 con el grupo completo) y P02; servicios S1-S2 (4x / 10x los dados)
+
+function game(): GameState {
+  let s = makeGame();
+  s = joinPlayer(s, "c1", "Ana", "new");
+  return joinPlayer(s, "c2", "Beto", "new");
+}
+
+function own(state: GameState, owner: string | null, ids: string[], mortgaged = false): GameState {
+  const props = { ...state.props };
+  for (const id of ids) props[id] = { ...props[id], owner, mortgaged };
+  return { ...state, props };
+}
+
+describe("addPlayerRequest", () => {
+  it("un pago válido queda pendiente; uno inválido queda rechazado con el motivo", () => {
+    let s = addPlayerRequest(game(), "ana", { k: "PAY", toName: "Beto", amount: 100, note: "préstamo" });
+    expect(s.requests[0]).toMatchObject({ by: "ana", from: "ana", to: "beto", amount: 100, status: "pending" });
+
+    s = addPlayerRequest(s, "ana", { k: "PAY", toName: "Zoe", amount: 100 });
+    expect(s.requests[0]).toMatchObject({ status: "rejected", reason: "Destino inexistente" });
+    s = addPlayerRequest(s, "ana", { k: "PAY", toName: "ana", amount: 100 });
+    expect(s.requests[0]).toMatchObject({ status: "rejected", reason: "No podés pagarte a vos mismo" });
+  });
+
+  it("la renta la calcula el Banco y solo la pide el dueño", () => {
+    const s = own(game(), "ana", ["P01"]);
+    expect(addPlayerRequest(s, "ana", { k: "RENT", propId: "P01", payer: "beto" }).requests[0]).toMatchObject({
+      from: "beto",
+      to: "ana",
+      amount: 2,
+      propertyId: "P01",
+      status: "pending",
+    });
+    expect(addPlayerRequest(s, "beto", { k: "RENT", propId: "P01", payer: "ana" }).requests[0]).toMatchObject({
+      status: "rejected",
+      reason: "La propiedad no es tuya",
+    });
+  });
+});
+
+describe("approvePayRequest", () => {
+  it("ejecuta el pago y lo deja en el ledger", () => {
+    let s = addPlayerRequest(game(), "ana", { k: "PAY", toName: "Beto", amount: 100, note: "préstamo" });
+    s = approvePayRequest(s, s.requests[0].id);
+    expect(s.requests[0].status).toBe("approved");
+    expect(s.players.ana.balance).toBe(1400);
+    expect(s.players.beto.balance).toBe(1600);
+    expect(verifyLedger(s).ok).toBe(true);
+  });
+
+  it("vuelve a chequear el saldo de quien paga al aprobar", () => {
+    let s = addPlayerRequest(game(), "ana", { k: "PAY", toName: "Beto", amount: 100 });
+    s = transferCash(s, "ana", "BANK", 1450, "impuestos");
+    const out = approvePayRequest(s, s.requests[0].id);
+    expect(out.requests[0]).toMatchObject({ status: "rejected", reason: "Saldo insuficiente de Ana" });
+    expect(out.players.ana.balance).toBe(50);
+    expect(out.tx).toBe(s.tx);
+  });
+
+  it("recalcula la renta con el estado del momento de aprobar", () => {
+    let s = own(game(), "ana", ["P01"]);
+    s = addPlayerRequest(s, "ana", { k: "RENT", propId: "P01", payer: "beto" });
+    const id = s.requests[0].id;
+    s = own(s, "ana", ["P02"]); // completa el grupo antes de la aprobación: la renta se duplica
+
+    const out = approvePayRequest(s, id);
+    expect(out.requests[0]).toMatchObject({ status: "approved", amount: 4 });
+    expect(out.players.beto.balance).toBe(1496);
+    expect(out.tx[0]).toMatchObject({ from: "beto", to: "ana", amount: 4, propertyId: "P01" });
+  });
+
+  it("la renta de un servicio usa los dados del pedido", () => {
+    let s = own(game(), "ana", ["S1"]);
+    s = addPlayerRequest(s, "ana", { k: "RENT", propId: "S1", payer: "beto", dice: 7 });
+    const id = s.requests[0].id;
+    s = own(s, "ana", ["S2"]);
+    expect(approvePayRequest(s, id).requests[0]).toMatchObject({ status: "approved", amount: 70 });
+  });
+
+  it("rechaza la renta si la propiedad cambió de dueño o se hipotecó", () => {
+    let s = own(game(), "ana", ["P01"]);
+    s = addPlayerRequest(s, "ana", { k: "RENT", propId: "P01", payer: "beto" });
+    const id = s.requests[0].id;
+
+    expect(approvePayRequest(own(s, "beto", ["P01"]), id).requests[0]).toMatchObject({
+      status: "rejected",
+      reason: "La propiedad cambió de dueño",
+    });
+    expect(approvePayRequest(own(s, "ana", ["P01"], true), id).requests[0]).toMatchObject({
+      status: "rejected",
+      reason: "Propiedad hipotecada: sin renta",
+    });
+  });
+
+  it("solo resuelve solicitudes pendientes", () => {
+    let s = addPlayerRequest(game(), "ana", { k: "PAY", toName: "Beto", amount: 100 });
+    const id = s.requests[0].id;
+    s = rejectPayRequest(s, id);
+    expect(s.requests[0]).toMatchObject({ status: "rejected", reason: "Rechazada por el Banco" });
+    expect(approvePayRequest(s, id)).toBe(s);
+  });
+});
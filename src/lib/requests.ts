@@ -0,0 +1,164 @@
+import {
+  bankActionAmount,
+  bankActionParties,
+  clampMoney,
+  computeRent,
+  findBankAction,
+  getDef,
+  newId,
+  normalizeName,
+  now,
+  playerDisplay,
+  transferCash,
+} from "./rules";
+import type { GameState, PayRequest, PlayerKey, PlayerRequest } from "./types";
+
+/** Cuántas solicitudes resueltas se conservan (las pendientes nunca se descartan). */
+const RESOLVED_KEEP = 30;
+
+function resolveTarget(state: GameState, toName: string): PlayerKey | "BANK" | null {
+  if (toName === "BANK") return "BANK";
+  if (state.players[toName]) return toName;
+  const key = normalizeName(toName);
+  return state.players[key] ? key : null;
+}
+
+function pruneResolved(list: PayRequest[]): PayRequest[] {
+  let kept = 0;
+  return list.filter((r) => r.status === "pending" || kept++ < RESOLVED_KEEP);
+}
+
+/**
+ * Registra una solicitud de un jugador (pago propio, cobro de renta o acción del catálogo).
+ * Si es inválida queda registrada como rechazada (así el jugador ve el motivo).
+ */
+export function addPlayerRequest(
+  state: GameState,
+  by: PlayerKey,
+  req: Extract<PlayerRequest, { k: "PAY" | "RENT" | "BANK_ACTION" }>
+): GameState {
+  if (!state.players[by]) return state;
+  if (req.k === "BANK_ACTION") return addActionRequest(state, by, req);
+  return req.k === "RENT" ? addRentRequest(state, by, req) : addPayRequest(state, by, req);
+}
+
+function addPayRequest(state: GameState, from: PlayerKey, req: Extract<PlayerRequest, { k: "PAY" }>): GameState {
+  const to = resolveTarget(state, req.toName);
+  const base = {
+    id: newId(8),
+    ts: now(),
+    by: from,
+    from,
+    amount: clampMoney(req.amount),
+    note: req.note?.trim() ?? "",
+    // impuestos y multas solo se le pagan al Banco
+    ...(req.tag && to === "BANK" ? { tag: req.tag } : {}),
+  };
+
+  let entry: PayRequest;
+  if (!to) {
+    entry = { ...base, to: req.toName, status: "rejected", resolvedAt: base.ts, reason: "Destino inexistente" };
+  } else if (to === from) {
+    entry = { ...base, to, status: "rejected", resolvedAt: base.ts, reason: "No podés pagarte a vos mismo" };
+  } else if (base.amount <= 0) {
+    entry = { ...base, to, status: "rejected", resolvedAt: base.ts, reason: "Monto inválido" };
+  } else {
+    entry = { ...base, to, status: "pending" };
+  }
+
+  return { ...state, requests: pruneResolved([entry, ...state.requests]) };
+}
+
+/** El dueño pide cobrar la renta: el Banco la calcula (autoritativo) y queda pendiente. */
+function addRentRequest(state: GameState, by: PlayerKey, req: Extract<PlayerRequest, { k: "RENT" }>): GameState {
+  const ps = state.props[req.propId];
+  const def = getDef(state, req.propId);
+  const base = {
+    id: newId(8),
+    ts: now(),
+    by,
+    from: req.payer,
+    to: by,
+    amount: computeRent(state, req.propId, req.dice),
+    note: `Renta ${def?.label ?? req.propId}`,
+    propertyId: req.propId,
+    ...(req.dice !== undefined ? { dice: req.dice } : {}),
+  };
+
+  let reason: string | null = null;
+  if (!ps || !def) reason = "Propiedad inexistente";
+  else if (ps.owner !== by) reason = "La propiedad no es tuya";
+  else if (!state.players[req.payer] || req.payer === by) reason = "Pagador inválido";
+  else if (def.kind === "utility" && !(Number(req.dice) > 0)) reason = "Falta el total de dados";
+  else if (base.amount <= 0) reason = ps.mortgaged ? "Propiedad hipotecada: sin renta" : "Renta 0";
+
+  const entry: PayRequest = reason
+    ? { ...base, status: "rejected", resolvedAt: base.ts, reason }
+    : { ...base, status: "pending" };
+
+  return { ...state, requests: pruneResolved([entry, ...state.requests]) };
+}
+
+/** Acción del catálogo para uno mismo: el monto se calcula al pedirla (el Banco aprueba ese monto). */
+function addActionRequest(state: GameState, by: PlayerKey, req: Extract<PlayerRequest, { k: "BANK_ACTION" }>): GameState {
+  const action = findBankAction(state, req.actionId);
+  const base = { id: newId(8), ts: now(), by, note: action?.label ?? req.actionId, action: req.actionId };
+
+  let entry: PayRequest;
+  if (!action) {
+    entry = { ...base, from: by, to: "BANK", amount: 0, status: "rejected", resolvedAt: base.ts, reason: "Acción inexistente" };
+  } else {
+    const amount = bankActionAmount(state, action, by);
+    const tagged = { ...base, ...bankActionParties(action, by), amount, ...(action.tag ? { tag: action.tag } : {}) };
+    entry =
+      amount > 0
+        ? { ...tagged, status: "pending" }
+        : { ...tagged, status: "rejected", resolvedAt: base.ts, reason: "La acción no tiene monto" };
+  }
+
+  return { ...state, requests: pruneResolved([entry, ...state.requests]) };
+}
+
+function resolve(state: GameState, id: string, patch: Partial<PayRequest>): GameState {
+  return {
+    ...state,
+    requests: pruneResolved(state.requests.map((r) => (r.id === id ? { ...r, ...patch, resolvedAt: now() } : r))),
+  };
+}
+
+export function rejectPayRequest(state: GameState, id: string, reason = "Rechazada por el Banco"): GameState {
+  const r = state.requests.find((x) => x.id === id);
+  if (!r || r.status !== "pending") return state;
+  return resolve(state, id, { status: "rejected", reason });
+}
+
+/**
+ * Aprueba la solicitud y ejecuta el movimiento real (transferCash).
+ * Todo se vuelve a chequear contra el estado de ahora: la renta se recalcula (pudo haber construcción,
+ * hipoteca o cambio de dueño desde el pedido) y quien paga tiene que tener el saldo.
+ */
+export function approvePayRequest(state: GameState, id: string): GameState {
+  const r = state.requests.find((x) => x.id === id);
+  if (!r || r.status !== "pending") return state;
+
+  if (r.from !== "BANK" && !state.players[r.from]) return rejectPayRequest(state, id, "El solicitante ya no está en la partida");
+  if (r.to !== "BANK" && !state.players[r.to]) return rejectPayRequest(state, id, "El destino ya no está en la partida");
+
+  let amount = r.amount;
+  if (r.propertyId) {
+    const ps = state.props[r.propertyId];
+    if (ps?.owner !== r.to) return rejectPayRequest(state, id, "La propiedad cambió de dueño");
+    amount = computeRent(state, r.propertyId, r.dice);
+    if (amount <= 0) return rejectPayRequest(state, id, ps.mortgaged ? "Propiedad hipotecada: sin renta" : "Renta 0");
+  }
+  const payer = r.from === "BANK" ? null : state.players[r.from];
+  if (payer && payer.balance < amount) return rejectPayRequest(state, id, `Saldo insuficiente de ${payer.name}`);
+
+  const note = r.note || `Solicitud de ${playerDisplay(state, r.by)}`;
+  const s = transferCash(state, r.from, r.to, amount, note, {
+    ...(r.propertyId ? { propertyId: r.propertyId } : {}),
+    ...(r.tag ? { tag: r.tag } : {}),
+    ...(r.action ? { action: r.action } : {}),
+  });
+  return resolve(s, id, { status: "approved", amount });
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { verifyLedger } from "./ledger";
+import { DEFAULT_RULES, checkRules, declareBankruptcyToBank, declareBankruptcyToPlayer, joinPlayer, makeGame, transferCash } from "./rules";
+import type { GameState } from "./types";
+
+// Tablero clásico: marrón P01-P02 y celeste P03-P05 (casa 50, el Banco la compra a 25),
+// rosa P06-P08 (casa 100 → 50), T1 (precio 200, hipoteca 100), S1 (precio 150, hipoteca 75).
+
+function game(): GameState {
+  let s = makeGame();
+  s = joinPlayer(s, "c1", "Ana", "new");
+  return joinPlayer(s, "c2", "Beto", "new");
+}
+
+/** Le da las propiedades a `owner` con esos edificios (5 = hotel), descontando el inventario del Banco. */
+function own(state: GameState, owner: string, props: Record<string, { buildings?: number; mortgaged?: boolean }>): GameState {
+  const s = { ...state, props: { ...state.props }, bank: { ...state.bank } };
+  for (const [id, { buildings = 0, mortgaged = false }] of Object.entries(props)) {
+    s.props[id] = { ...s.props[id], owner, buildings, mortgaged };
+    if (buildings === 5) s.bank.hotelsAvailable -= 1;
+    else s.bank.housesAvailable -= buildings;
+  }
+  return s;
+}
+
+describe("declareBankruptcyToPlayer", () => {
+  it("vende los hoteles al Banco a mitad de precio y le paga al acreedor", () => {
+    let s = own(game(), "ana", { P01: { buildings: 5 }, P02: { buildings: 5 } });
+    s = transferCash(s, "ana", "BANK", 1400, "gastos"); // le quedan 100
+    expect(s.bank.hotelsAvailable).toBe(10);
+
+    const out = declareBankruptcyToPlayer(s, "ana", "beto");
+
+    // 2 hoteles × 5 edificios × 25 + los 100 de efectivo
+    expect(out.players.beto.balance).toBe(1500 + 250 + 100);
+    expect(out.players.ana).toBeUndefined();
+    expect(out.bank).toEqual({ housesAvailable: 32, hotelsAvailable: 12 });
+    expect(out.props.P01).toMatchObject({ owner: "beto", buildings: 0 });
+    expect(out.props.P02).toMatchObject({ owner: "beto", buildings: 0 });
+    expect(verifyLedger(out).ok).toBe(true);
+  });
+
+  it("liquida varios grupos con casas y hoteles mezclados", () => {
+    let s = own(game(), "ana", {
+      P03: { buildings: 3 },
+      P04: { buildings: 3 },
+      P05: { buildings: 2 },
+      P06: { buildings: 5 },
+      P07: { buildings: 4 },
+      P08: { buildings: 4 },
+      T1: {},
+    });
+    s = transferCash(s, "ana", "BANK", 1500, "gastos");
+    expect(s.bank).toEqual({ housesAvailable: 32 - 16, hotelsAvailable: 11 });
+
+    const out = declareBankruptcyToPlayer(s, "ana", "beto");
+
+    // celeste: 8 casas × 25; rosa: hotel (5) + 8 casas, 13 × 50
+    expect(out.players.beto.balance).toBe(1500 + 200 + 650);
+    expect(out.bank).toEqual({ housesAvailable: 32, hotelsAvailable: 12 });
+    for (const id of ["P03", "P04", "P05", "P06", "P07", "P08", "T1"]) {
+      expect(out.props[id]).toMatchObject({ owner: "beto", buildings: 0 });
+    }
+    expect(out.tx.filter((t) => t.type === "sell_build")).toHaveLength(6);
+    expect(verifyLedger(out).ok).toBe(true);
+  });
+
+  it("el acreedor levanta las hipotecas que elige y paga el interés de las demás", () => {
+    const s = own(game(), "ana", { T1: { mortgaged: true }, S1: { mortgaged: true } });
+
+    const out = declareBankruptcyToPlayer(s, "ana", "beto", ["T1"]);
+
+    // T1: 100 + 10 de interés; S1: sigue hipotecada, interés ceil(7.5) = 8
+    expect(out.players.beto.balance).toBe(1500 + 1500 - 110 - 8);
+    expect(out.props.T1).toMatchObject({ owner: "beto", mortgaged: false });
+    expect(out.props.S1).toMatchObject({ owner: "beto", mortgaged: true });
+    expect(out.tx.find((t) => t.type === "unmortgage")).toMatchObject({ from: "beto", to: "BANK", amount: 110, propertyId: "T1" });
+    expect(verifyLedger(out).ok).toBe(true);
+  });
+
+  it("si el acreedor no puede levantar la hipoteca, solo paga el interés", () => {
+    let s = own(game(), "ana", { T1: { mortgaged: true } });
+    s = transferCash(s, "beto", "BANK", 1495, "gastos"); // le quedan 5
+    s = transferCash(s, "ana", "BANK", 1500, "gastos");
+
+    const out = declareBankruptcyToPlayer(s, "ana", "beto", ["T1"]);
+
+    expect(out.props.T1).toMatchObject({ owner: "beto", mortgaged: true });
+    expect(out.players.beto.balance).toBe(5 - 10);
+    expect(verifyLedger(out).ok).toBe(true);
+  });
+
+  it("un saldo negativo del deudor queda como deuda incobrable del Banco en el registro", () => {
+    let s = own(game(), "ana", { P01: { buildings: 1 }, P02: { buildings: 1 } });
+    s = transferCash(s, "ana", "beto", 1800, "renta"); // Ana queda en -300
+
+    const out = declareBankruptcyToPlayer(s, "ana", "beto");
+
+    // el acreedor conserva lo cobrado y recibe la liquidación (2 casas × 25)
+    expect(out.players.beto.balance).toBe(3300 + 50);
+    const writeOff = out.tx.find((t) => t.type === "cash" && t.from === "BANK" && t.to === "ana");
+    expect(writeOff?.amount).toBe(300);
+    expect(writeOff?.balances?.ana).toBe(0);
+    expect(verifyLedger(out).ok).toBe(true);
+  });
+});
+
+describe("declareBankruptcyToBank", () => {
+  it("devuelve los edificios, entrega el efectivo al Banco y manda las propiedades a subasta", () => {
+    let s = own(game(), "ana", { P01: { buildings: 5 }, P02: { buildings: 4 }, T1: { mortgaged: true } });
+    s = transferCash(s, "ana", "BANK", 1380, "gastos"); // le quedan 120
+
+    const out = declareBankruptcyToBank(s, "ana");
+
+    expect(out.players.ana).toBeUndefined();
+    expect(out.players.beto.balance).toBe(1500);
+    expect(out.bank).toEqual({ housesAvailable: 32, hotelsAvailable: 12 });
+    expect(out.auctionQueue).toEqual(["P01", "P02", "T1"]);
+    for (const id of ["P01", "P02", "T1"]) expect(out.props[id]).toMatchObject({ owner: null, buildings: 0, mortgaged: false });
+    // los edificios vuelven sin movimientos de dinero Banco → Banco; el efectivo queda registrado como entregado
+    expect(out.tx.some((t) => t.type === "sell_build")).toBe(false);
+    expect(out.tx.find((t) => t.type === "bankruptcy_bank")?.note).toContain("Edificios devueltos: 4 casas, 1 hotel");
+    expect(out.tx.find((t) => t.type === "cash" && t.from === "ana")).toMatchObject({ to: "BANK", amount: 120, balances: { ana: 0 } });
+    expect(verifyLedger(out).ok).toBe(true);
+  });
+
+  it("un saldo negativo queda como deuda incobrable antes de retirar al jugador", () => {
+    let s = own(game(), "ana", { P03: {} });
+    s = transferCash(s, "ana", "BANK", 1700, "impuestos"); // Ana queda en -200
+
+    const out = declareBankruptcyToBank(s, "ana");
+
+    const writeOff = out.tx.find((t) => t.type === "cash" && t.from === "BANK" && t.to === "ana");
+    expect(writeOff?.amount).toBe(200);
+    expect(writeOff?.balances?.ana).toBe(0);
+    expect(out.auctionQueue).toEqual(["P03"]);
+    expect(verifyLedger(out).ok).toBe(true);
+  });
+});
+
+describe("checkRules", () => {
+  it("acepta las reglas oficiales", () => {
+    expect(checkRules(DEFAULT_RULES)).toEqual([]);
+  });
+
+  it("la hipoteca paga entre 1% y 100% del precio, bordes incluidos", () => {
+    const msg = "La hipoteca tiene que pagar entre 1% y 100% del precio";
+    for (const mortgageRatio of [0.01, 0.5, 1]) expect(checkRules({ ...DEFAULT_RULES, mortgageRatio })).toEqual([]);
+    for (const mortgageRatio of [0, 0.001, 0.009, 1.01, -0.5, NaN]) {
+      expect(checkRules({ ...DEFAULT_RULES, mortgageRatio }), String(mortgageRatio)).toEqual([msg]);
+    }
+  });
+});
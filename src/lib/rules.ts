@@ -1,9 +1,44 @@
 import { nanoid } from "nanoid";
-import { BUILD_COST_BY_GROUP, PROPERTY_DEFS } from "./properties";
-import type { GameState, PlayerKey, PropertyDef, PropertyGroup, PropertyState, Tx } from "./types";
+import { chainTx } from "./ledger";
+import { CLASSIC_BOARD } from "./properties";
+import type {
+  BankAction,
+  BoardDef,
+  CashTag,
+  ConnId,
+  GameRules,
+  GameState,
+  GroupDef,
+  PlayerKey,
+  PropertyDef,
+  PropertyGroup,
+  PropertyState,
+  Tx,
+} from "./types";
+
+/**
+ * Evento del log que se está aplicando (ver events.ts). Mientras está activo,
+ * `now()` y `newId()` salen del evento: re-ejecutar el log da exactamente el mismo estado.
+ */
+let eventCtx: { seq: number; id: string; ts: number; n: number } | null = null;
+
+export function withEvent<T>(ev: { seq: number; id: string; ts: number }, fn: () => T): T {
+  const prev = eventCtx;
+  eventCtx = { seq: ev.seq, id: ev.id, ts: ev.ts, n: 0 };
+  try {
+    return fn();
+  } finally {
+    eventCtx = prev;
+  }
+}
 
 export function now(): number {
-  return Date.now();
+  return eventCtx ? eventCtx.ts : Date.now();
+}
+
+export function newId(size = 10): string {
+  if (!eventCtx) return nanoid(size);
+  return `${eventCtx.id}.${(eventCtx.n++).toString(36)}`;
 }
 
 export function normalizeName(name: string): string {
@@ -21,65 +56,285 @@ export function clampMoney(n: number): number {
   return Math.max(-9_999_999, Math.min(9_999_999, v));
 }
 
-export function makeGame(): GameState {
-  const gameId = nanoid(6).toUpperCase();
+/** Acciones del tablero clásico: salida e impuestos (ganancias: 200 o 10% del patrimonio). La fianza va por turns.ts. */
+export const DEFAULT_BANK_ACTIONS: BankAction[] = [
+  { id: "go", label: "Pasó por la salida", dir: "to_player", amount: 200 },
+  { id: "income_tax", label: "Impuesto a las ganancias", dir: "to_bank", amount: 200, netWorthPct: 0.1, tag: "tax" },
+  { id: "luxury_tax", label: "Impuesto al lujo", dir: "to_bank", amount: 100, tag: "tax" },
+];
+
+/** Tope del catálogo (viaja en cada STATE dentro de las reglas). */
+const MAX_BANK_ACTIONS = 20;
+
+/** Reglas oficiales: caja de 32 casas y 12 hoteles, hipoteca a mitad de precio con 10% de interés. */
+export const DEFAULT_RULES: GameRules = {
+  startingCash: 1500,
+  totalHouses: 32,
+  totalHotels: 12,
+  mortgageRatio: 0.5,
+  mortgageInterest: 0.1,
+  evenBuild: true,
+  unlimitedBuildings: false,
+  freeParking: false,
+  bankActions: DEFAULT_BANK_ACTIONS,
+  jailBail: 50,
+};
+
+/** Problemas de un conjunto de reglas (vacío si se puede jugar con ellas). */
+export function checkRules(rules: Partial<GameRules> | null | undefined): string[] {
+  if (!rules || typeof rules !== "object") return ["Faltan las reglas de la partida"];
+  const errors: string[] = [];
+  const count = (n: unknown) => typeof n === "number" && Number.isInteger(n) && n >= 0;
+  const ratio = (n: unknown, min = 0) => typeof n === "number" && Number.isFinite(n) && n >= min && n <= 1;
+  if (!count(rules.startingCash)) errors.push("El efectivo inicial tiene que ser un entero no negativo");
+  if (!count(rules.totalHouses)) errors.push("La cantidad de casas tiene que ser un entero no negativo");
+  if (!count(rules.totalHotels)) errors.push("La cantidad de hoteles tiene que ser un entero no negativo");
+  if (!ratio(rules.mortgageRatio, 0.01)) errors.push("La hipoteca tiene que pagar entre 1% y 100% del precio");
+  if (!ratio(rules.mortgageInterest)) errors.push("El interés de hipoteca tiene que estar entre 0% y 100%");
+  if (typeof rules.evenBuild !== "boolean") errors.push("evenBuild no es booleano");
+  if (typeof rules.unlimitedBuildings !== "boolean") errors.push("unlimitedBuildings no es booleano");
+  if (typeof rules.freeParking !== "boolean") errors.push("freeParking no es booleano");
+  if (!count(rules.jailBail) || rules.jailBail === 0) errors.push("La fianza de la cárcel tiene que ser un entero positivo");
+  errors.push(...checkBankActions(rules.bankActions));
+  return errors;
+}
+
+function checkBankActions(actions: unknown): string[] {
+  if (!Array.isArray(actions)) return ["Falta el catálogo de acciones del Banco"];
+  if (actions.length > MAX_BANK_ACTIONS) return [`Demasiadas acciones del Banco (máximo ${MAX_BANK_ACTIONS})`];
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  actions.forEach((a: Partial<BankAction> | null, i) => {
+    const name = a && typeof a.label === "string" && a.label.trim() ? `Acción "${a.label}"` : `Acción ${i + 1}`;
+    if (!a || typeof a !== "object") return errors.push(`${name}: datos inválidos`);
+    if (typeof a.id !== "string" || !a.id) errors.push(`${name}: falta el id`);
+    else if (ids.has(a.id)) errors.push(`${name}: id "${a.id}" repetido`);
+    else ids.add(a.id);
+    if (typeof a.label !== "string" || !a.label.trim()) errors.push(`${name}: falta el nombre`);
+    if (a.dir !== "to_player" && a.dir !== "to_bank") errors.push(`${name}: dirección inválida`);
+    if (typeof a.amount !== "number" || !Number.isInteger(a.amount) || a.amount < 0) errors.push(`${name}: el monto tiene que ser un entero no negativo`);
+    const pct = a.netWorthPct;
+    if (pct !== undefined && !(typeof pct === "number" && pct > 0 && pct <= 1)) errors.push(`${name}: el porcentaje del patrimonio tiene que estar entre 1% y 100%`);
+    if (a.amount === 0 && pct === undefined) errors.push(`${name}: sin monto ni porcentaje`);
+    if (a.tag !== undefined && a.tag !== "tax" && a.tag !== "fine") errors.push(`${name}: tipo de pago inválido`);
+    if (a.tag !== undefined && a.dir !== "to_bank") errors.push(`${name}: solo un pago al Banco puede ser impuesto o multa`);
+  });
+  return errors;
+}
+
+/** "10%" para mostrar una fracción de las reglas. */
+export function formatRate(n: number): string {
+  return `${Math.round(n * 1000) / 10}%`;
+}
+
+export function newGameId(): string {
+  return nanoid(6).toUpperCase();
+}
+
+export function makeGame(rules: GameRules = DEFAULT_RULES, board: BoardDef = CLASSIC_BOARD): GameState {
+  const gameId = newGameId();
 
   const props: Record<string, PropertyState> = {};
-  for (const d of PROPERTY_DEFS) {
+  for (const d of board.props) {
     props[d.id] = { id: d.id, owner: null, mortgaged: false, buildings: 0 };
   }
 
   return {
     gameId,
     createdAt: now(),
-    startingCash: 1500,
+    rules,
+    board,
     players: {},
     props,
     tx: [],
     bank: {
-      housesAvailable: 32,
-      hotelsAvailable: 12,
+      housesAvailable: rules.totalHouses,
+      hotelsAvailable: rules.totalHotels,
     },
+    pot: 0,
     auctionQueue: [],
+    requests: [],
+    buildDemand: [],
+    shortage: null,
+    auction: null,
+    trades: [],
+    turn: { order: [], current: null, number: 0, doubles: 0 },
+  };
+}
+
+/**
+ * Completa campos que pueden faltar en estados guardados con versiones anteriores
+ * (localStorage del Banco o STATE recibido de un Banco viejo).
+ * Antes de las reglas de la casa solo existía `startingCash`: el resto eran las oficiales.
+ * Las partidas sin tablero propio se jugaban con el clásico.
+ */
+export function normalizeGame(state: GameState & { startingCash?: number }): GameState {
+  const { startingCash, ...rest } = state;
+  return {
+    ...rest,
+    rules: { ...DEFAULT_RULES, ...(state.rules ?? { startingCash: startingCash ?? DEFAULT_RULES.startingCash }) },
+    board: state.board ?? CLASSIC_BOARD,
+    pot: state.pot ?? 0,
+    auctionQueue: state.auctionQueue ?? [],
+    requests: state.requests ?? [],
+    buildDemand: state.buildDemand ?? [],
+    shortage: state.shortage ?? null,
+    auction: state.auction ?? null,
+    trades: state.trades ?? [],
+    turn: state.turn ?? { order: [], current: null, number: 0, doubles: 0 },
   };
 }
 
-export function addTx(state: GameState, tx: Omit<Tx, "id" | "ts">): GameState {
-  const full: Tx = { id: nanoid(10), ts: now(), ...tx };
-  return { ...state, tx: [full, ...state.tx] };
+export type JoinKind = "new" | "rejoin" | "duplicate";
+
+/** PlayerKey que va a tener el jugador al aceptarlo (un nombre duplicado recibe sufijo). */
+export function joinKeyFor(state: GameState, name: string, kind: JoinKind): PlayerKey {
+  const key = normalizeName(name);
+  if (kind !== "duplicate") return key;
+  let unique = key;
+  let n = 2;
+  while (state.players[unique]) {
+    unique = `${key} ${n}`;
+    n++;
+  }
+  return unique;
 }
 
-export function playerDisplay(state: GameState, key: PlayerKey | "BANK"): string {
+/**
+ * Alta (o reconexión) de un jugador aceptado por el Banco.
+ * `publicKey` queda asociada al jugador; en una reconexión aceptada reemplaza a la anterior
+ * (el Banco decidió confiar en el dispositivo nuevo).
+ */
+export function joinPlayer(state: GameState, connId: ConnId, name: string, kind: JoinKind, publicKey?: string): GameState {
+  const key = normalizeName(name);
+  const players = { ...state.players };
+
+  if (kind === "new") {
+    players[key] = { key, name, connId, connected: true, balance: state.rules.startingCash, publicKey };
+    return { ...state, players };
+  }
+
+  if (kind === "rejoin") {
+    const old = players[key];
+    if (!old) return state;
+    players[key] = { ...old, connId, connected: true, name, publicKey: publicKey ?? old.publicKey };
+    return { ...state, players };
+  }
+
+  // duplicate aceptado: forzamos nombre único agregando sufijo
+  const unique = joinKeyFor(state, name, kind);
+  players[unique] = { key: unique, name: unique, connId, connected: true, balance: state.rules.startingCash, publicKey };
+  return { ...state, players };
+}
+
+/** Marca desconectado al jugador asociado a esa conexión. */
+export function disconnectPlayer(state: GameState, connId: ConnId): GameState {
+  const k = Object.keys(state.players).find((x) => state.players[x].connId === connId);
+  if (!k) return state;
+  return { ...state, players: { ...state.players, [k]: { ...state.players[k], connId: null, connected: false } } };
+}
+
+/**
+ * Resultado de una acción de reglas: el estado nuevo o el motivo por el que no se pudo.
+ * Los intentos fallidos no tocan el estado (no generan Tx).
+ */
+export type RuleResult = { ok: true; state: GameState } | { ok: false; reason: string };
+
+export function addTx(state: GameState, tx: Omit<Tx, "id" | "ts" | "prevHash" | "hash" | "balances">): GameState {
+  const full: Tx = { id: newId(10), ts: now(), ...tx };
+  if (eventCtx) full.seq = eventCtx.seq;
+  return { ...state, tx: [chainTx(state, full), ...state.tx] };
+}
+
+export const TAG_LABEL: Record<CashTag, string> = { tax: "Impuesto", fine: "Multa" };
+
+export function playerDisplay(state: GameState, key: PlayerKey | "BANK" | "POT"): string {
   if (key === "BANK") return "BANCO";
+  if (key === "POT") return "POZO";
   return state.players[key]?.name ?? key;
 }
 
-export function getDef(propId: string): PropertyDef | undefined {
-  return PROPERTY_DEFS.find((p) => p.id === propId);
+/** Definición de la propiedad en el tablero de la partida. */
+export function getDef(state: GameState, propId: string): PropertyDef | undefined {
+  return state.board.props.find((p) => p.id === propId);
 }
 
-export function mortgageValue(propId: string): number {
-  const def = getDef(propId);
+export function groupDef(state: GameState, group: PropertyGroup): GroupDef | undefined {
+  return state.board.groups.find((g) => g.id === group);
+}
+
+export function groupColor(state: GameState, group: PropertyGroup): string {
+  return groupDef(state, group)?.color ?? "#6B7280";
+}
+
+/** Costo de una casa u hotel en el grupo (0 si el grupo no admite edificios). */
+export function buildCost(state: GameState, group: PropertyGroup): number {
+  return groupDef(state, group)?.buildCost ?? 0;
+}
+
+export function mortgageValue(state: GameState, propId: string): number {
+  const def = getDef(state, propId);
   if (!def) return 0;
   // En reglas, el valor hipotecario está impreso; en tablero clásico suele ser 1/2 del precio.
-  return Math.floor(def.price / 2);
+  return Math.floor(def.price * state.rules.mortgageRatio);
 }
 
-export function groupOf(propId: string): PropertyGroup | null {
-  const def = getDef(propId);
+/** Interés sobre el valor hipotecario (al levantar o al recibir una hipotecada); oficial: 10%. */
+export function mortgageInterest(state: GameState, propId: string): number {
+  return Math.ceil(mortgageValue(state, propId) * state.rules.mortgageInterest);
+}
+
+export function groupOf(state: GameState, propId: string): PropertyGroup | null {
+  const def = getDef(state, propId);
   return def ? def.group : null;
 }
 
-export function groupProps(group: PropertyGroup): string[] {
-  return PROPERTY_DEFS.filter((d) => d.group === group && d.kind === "street").map((d) => d.id);
+export function groupProps(state: GameState, group: PropertyGroup): string[] {
+  return state.board.props.filter((d) => d.group === group && d.kind === "street").map((d) => d.id);
 }
 
 export function ownsFullGroup(state: GameState, owner: PlayerKey, group: PropertyGroup): boolean {
-  const ids = groupProps(group);
+  const ids = groupProps(state, group);
   if (!ids.length) return false;
   return ids.every((id) => state.props[id]?.owner === owner);
 }
 
+function countOwnedOfKind(state: GameState, owner: PlayerKey, kind: PropertyDef["kind"]): number {
+  return state.board.props.filter((d) => d.kind === kind && state.props[d.id]?.owner === owner).length;
+}
+
+/**
+ * Renta oficial según el estado de la propiedad:
+ * - Hipotecada o sin dueño: 0
+ * - Terreno sin edificios: base (doble si el dueño tiene el grupo completo)
+ * - Terreno con casas/hotel: según tabla
+ * - Transporte: según cuántos transportes tenga el dueño
+ * - Servicio: dados × 4 (uno) o × 10 (ambos); sin dados no se puede calcular (0)
+ */
+export function computeRent(state: GameState, propId: string, diceTotal?: number): number {
+  const def = getDef(state, propId);
+  const ps = state.props[propId];
+  if (!def || !ps || !ps.owner || ps.mortgaged) return 0;
+  const owner = ps.owner;
+
+  if (def.kind === "street") {
+    const base = def.rent[ps.buildings] ?? 0;
+    if (ps.buildings === 0 && ownsFullGroup(state, owner, def.group)) return base * 2;
+    return base;
+  }
+
+  if (def.kind === "rail") {
+    const n = countOwnedOfKind(state, owner, "rail");
+    return def.rent[Math.min(n, def.rent.length) - 1] ?? 0;
+  }
+
+  const dice = clampMoney(diceTotal ?? 0);
+  if (dice <= 0) return 0;
+  const n = countOwnedOfKind(state, owner, "utility");
+  const mult = def.rent[Math.min(n, def.rent.length) - 1] ?? 0;
+  return dice * mult;
+}
+
 /**
  * Regla oficial: no se pueden hipotecar propiedades mejoradas;
  * para hipotecar, primero vender TODOS los edificios del grupo al Banco (a mitad).
@@ -90,12 +345,12 @@ export function canMortgage(state: GameState, propId: string): { ok: true } | {
   if (!ps.owner) return { ok: false, reason: "Sin dueño" };
   if (ps.mortgaged) return { ok: false, reason: "Ya está hipotecada" };
 
-  const g = groupOf(propId);
-  const def = getDef(propId);
+  const g = groupOf(state, propId);
+  const def = getDef(state, propId);
   if (!g || !def) return { ok: false, reason: "Definición inválida" };
 
   if (def.kind === "street") {
-    const ids = groupProps(g);
+    const ids = groupProps(state, g);
     const anyBuildings = ids.some((id) => state.props[id]?.buildings > 0);
     if (anyBuildings) {
       return { ok: false, reason: "Primero vendé todos los edificios del grupo (regla oficial)" };
@@ -107,13 +362,13 @@ export function canMortgage(state: GameState, propId: string): { ok: true } | {
   return { ok: true };
 }
 
-export function doMortgage(state: GameState, propId: string): GameState {
+export function doMortgage(state: GameState, propId: string): RuleResult {
   const chk = canMortgage(state, propId);
-  if (!chk.ok) return addTx(state, { type: "mortgage", from: "BANK", to: "BANK", note: `Hipoteca fallida: ${chk.reason}`, propertyId: propId });
+  if (!chk.ok) return chk;
 
   const ps = state.props[propId];
   const owner = ps.owner!;
-  const mv = mortgageValue(propId);
+  const mv = mortgageValue(state, propId);
 
   const next: GameState = {
     ...state,
@@ -127,14 +382,17 @@ export function doMortgage(state: GameState, propId: string): GameState {
     },
   };
 
-  return addTx(next, {
-    type: "mortgage",
-    from: "BANK",
-    to: owner,
-    amount: mv,
-    propertyId: propId,
-    note: `Hipoteca (${playerDisplay(next, owner)} recibe ${formatMoney(mv)})`,
-  });
+  return {
+    ok: true,
+    state: addTx(next, {
+      type: "mortgage",
+      from: "BANK",
+      to: owner,
+      amount: mv,
+      propertyId: propId,
+      note: `Hipoteca (${playerDisplay(next, owner)} recibe ${formatMoney(mv)})`,
+    }),
+  };
 }
 
 export function canUnmortgage(state: GameState, propId: string): { ok: true; cost: number } | { ok: false; reason: string } {
@@ -143,16 +401,16 @@ export function canUnmortgage(state: GameState, propId: string): { ok: true; cos
   if (!ps.owner) return { ok: false, reason: "Sin dueño" };
   if (!ps.mortgaged) return { ok: false, reason: "No está hipotecada" };
 
-  const mv = mortgageValue(propId);
-  const cost = mv + Math.ceil(mv * 0.1); // +10% interés (regla oficial) :contentReference[oaicite:1]{index=1}
+  const mv = mortgageValue(state, propId);
+  const cost = mv + mortgageInterest(state, propId); // + interés (regla oficial: 10%) :contentReference[oaicite:1]{index=1}
   const owner = ps.owner;
   if (state.players[owner].balance < cost) return { ok: false, reason: "Saldo insuficiente para levantar hipoteca" };
   return { ok: true, cost };
 }
 
-export function doUnmortgage(state: GameState, propId: string): GameState {
+export function doUnmortgage(state: GameState, propId: string): RuleResult {
   const chk = canUnmortgage(state, propId);
-  if (!chk.ok) return addTx(state, { type: "unmortgage", from: "BANK", to: "BANK", note: `Levantar hipoteca falló: ${chk.reason}`, propertyId: propId });
+  if (!chk.ok) return chk;
 
   const ps = state.props[propId];
   const owner = ps.owner!;
@@ -170,25 +428,32 @@ export function doUnmortgage(state: GameState, propId: string): GameState {
     },
   };
 
-  return addTx(next, {
-    type: "unmortgage",
-    from: owner,
-    to: "BANK",
-    amount: cost,
-    propertyId: propId,
-    note: `Levantar hipoteca (+10% interés)`,
-  });
+  return {
+    ok: true,
+    state: addTx(next, {
+      type: "unmortgage",
+      from: owner,
+      to: "BANK",
+      amount: cost,
+      propertyId: propId,
+      note: `Levantar hipoteca (+${formatRate(state.rules.mortgageInterest)} interés)`,
+    }),
+  };
 }
 
 /**
  * Construcción oficial:
  * - Debe poseer grupo completo
  * - No se puede construir si algún lote del grupo está hipotecado
- * - Construir parejo (no más de 1 casa de diferencia) :contentReference[oaicite:2]{index=2}
- * - Inventario del banco (casas/hoteles)
+ * - Construir parejo (no más de 1 casa de diferencia), salvo que las reglas lo desactiven :contentReference[oaicite:2]{index=2}
+ * - Inventario del banco (casas/hoteles), salvo edificios ilimitados
  */
-export function canBuildHouse(state: GameState, propId: string): { ok: true; cost: number } | { ok: false; reason: string } {
-  const def = getDef(propId);
+export function canBuildHouse(
+  state: GameState,
+  propId: string,
+  opts: { price?: number; duringShortage?: boolean } = {}
+): { ok: true; cost: number } | { ok: false; reason: string } {
+  const def = getDef(state, propId);
   const ps = state.props[propId];
   if (!def || !ps) return { ok: false, reason: "Propiedad inválida" };
   if (def.kind !== "street") return { ok: false, reason: "Solo terrenos admiten casas/hotel" };
@@ -198,33 +463,49 @@ export function canBuildHouse(state: GameState, propId: string): { ok: true; cos
   const g = def.group;
   if (!ownsFullGroup(state, ps.owner, g)) return { ok: false, reason: "Debe tener el grupo completo" };
 
-  const ids = groupProps(g);
+  const ids = groupProps(state, g);
   const anyMortgaged = ids.some((id) => state.props[id].mortgaged);
   if (anyMortgaged) return { ok: false, reason: "No se construye si alguna del grupo está hipotecada" };
 
   if (ps.buildings >= 5) return { ok: false, reason: "Ya tiene hotel" };
 
   // Regla de construcción pareja:
-  const levels = ids.map((id) => state.props[id].buildings);
-  const min = Math.min(...levels);
-  if (ps.buildings !== min) return { ok: false, reason: "Construcción pareja: construí primero en las más bajas" };
+  if (state.rules.evenBuild) {
+    const levels = ids.map((id) => state.props[id].buildings);
+    const min = Math.min(...levels);
+    if (ps.buildings !== min) return { ok: false, reason: "Construcción pareja: construí primero en las más bajas" };
+  }
 
-  if (ps.buildings === 4) {
+  if (state.rules.unlimitedBuildings) {
+    // sin límite: el inventario del Banco puede quedar negativo (piezas de más)
+  } else if (ps.buildings === 4) {
     if (state.bank.hotelsAvailable <= 0) return { ok: false, reason: "Banco sin hoteles" };
   } else {
     if (state.bank.housesAvailable <= 0) return { ok: false, reason: "Banco sin casas" };
   }
+  // con escasez, las últimas unidades se subastan entre los interesados
+  if (!opts.duringShortage && state.shortage?.kind === (ps.buildings === 4 ? "hotel" : "house")) {
+    return { ok: false, reason: "Subasta por escasez en curso" };
+  }
 
-  const cost = BUILD_COST_BY_GROUP[g] ?? 0;
+  const cost = opts.price ?? buildCost(state, g);
   if (cost <= 0) return { ok: false, reason: "Costo no definido" };
   if (state.players[ps.owner].balance < cost) return { ok: false, reason: "Saldo insuficiente" };
 
   return { ok: true, cost };
 }
 
-export function doBuild(state: GameState, propId: string): GameState {
-  const chk = canBuildHouse(state, propId);
-  if (!chk.ok) return addTx(state, { type: "build", from: "BANK", to: "BANK", note: `Build falló: ${chk.reason}`, propertyId: propId });
+/**
+ * Compra de casa/hotel. `opts.price`/`opts.note` los usa la subasta por escasez
+ * (se paga la oferta ganadora en lugar del costo de tabla).
+ */
+export function doBuild(
+  state: GameState,
+  propId: string,
+  opts: { price?: number; note?: string; duringShortage?: boolean } = {}
+): RuleResult {
+  const chk = canBuildHouse(state, propId, opts);
+  if (!chk.ok) return chk;
 
   const ps = state.props[propId];
   const owner = ps.owner!;
@@ -253,18 +534,47 @@ export function doBuild(state: GameState, propId: string): GameState {
     },
   };
 
-  return addTx(next, {
-    type: "build",
-    from: owner,
-    to: "BANK",
-    amount: cost,
-    propertyId: propId,
-    note: nextBuildings === 5 ? "Compra de hotel" : "Compra de casa",
-  });
+  return {
+    ok: true,
+    state: addTx(next, {
+      type: "build",
+      from: owner,
+      to: "BANK",
+      amount: cost,
+      propertyId: propId,
+      note: opts.note ?? (nextBuildings === 5 ? "Compra de hotel" : "Compra de casa"),
+    }),
+  };
+}
+
+/**
+ * Control de inventario: casas/hoteles del Banco + los que están en el tablero
+ * deben sumar siempre el total de la caja (según las reglas; oficial: 32 casas / 12 hoteles).
+ * Con edificios ilimitados el Banco puede quedar en negativo.
+ */
+export function checkInventory(state: GameState): {
+  ok: boolean;
+  houses: { bank: number; board: number; total: number };
+  hotels: { bank: number; board: number; total: number };
+} {
+  const levels = Object.values(state.props).map((p) => p.buildings);
+  const housesBoard = housesOnBoard(levels);
+  const hotelsBoard = levels.filter((n) => n === 5).length;
+  const houses = { bank: state.bank.housesAvailable, board: housesBoard, total: state.bank.housesAvailable + housesBoard };
+  const hotels = { bank: state.bank.hotelsAvailable, board: hotelsBoard, total: state.bank.hotelsAvailable + hotelsBoard };
+  const { totalHouses, totalHotels, unlimitedBuildings } = state.rules;
+  return {
+    ok:
+      houses.total === totalHouses &&
+      hotels.total === totalHotels &&
+      (unlimitedBuildings || (houses.bank >= 0 && hotels.bank >= 0)),
+    houses,
+    hotels,
+  };
 }
 
 export function canSellBuilding(state: GameState, propId: string): { ok: true; value: number } | { ok: false; reason: string } {
-  const def = getDef(propId);
+  const def = getDef(state, propId);
   const ps = state.props[propId];
   if (!def || !ps) return { ok: false, reason: "Propiedad inválida" };
   if (def.kind !== "street") return { ok: false, reason: "Solo terrenos" };
@@ -272,79 +582,214 @@ export function canSellBuilding(state: GameState, propId: string): { ok: true; v
   if (ps.buildings <= 0) return { ok: false, reason: "No hay edificios para vender" };
 
   const g = def.group;
-  const ids = groupProps(g);
+  const ids = groupProps(state, g);
 
   // Venta pareja e inversa: vender desde las más altas
-  const levels = ids.map((id) => state.props[id].buildings);
-  const max = Math.max(...levels);
-  if (ps.buildings !== max) return { ok: false, reason: "Venta pareja: vendé primero de las más altas" };
+  if (state.rules.evenBuild) {
+    const levels = ids.map((id) => state.props[id].buildings);
+    const max = Math.max(...levels);
+    if (ps.buildings !== max) return { ok: false, reason: "Venta pareja: vendé primero de las más altas" };
+  }
 
-  const cost = BUILD_COST_BY_GROUP[g] ?? 0;
+  const cost = buildCost(state, g);
   const value = Math.floor(cost / 2); // Banco compra a mitad (regla oficial) :contentReference[oaicite:3]{index=3}
   return { ok: true, value };
 }
 
-export function doSellBuilding(state: GameState, propId: string): GameState {
+/** Casas sobre el tablero en un conjunto de niveles (un hotel no cuenta como casas). */
+function housesOnBoard(levels: number[]): number {
+  return levels.reduce((acc, n) => acc + (n < 5 ? n : 0), 0);
+}
+
+/**
+ * Plan de venta de un edificio en `propId` respetando el inventario del Banco.
+ * Vender un hotel lo reemplaza por 4 casas: si el Banco no tiene esas casas,
+ * el grupo entero baja parejo (desde las más altas) hasta un nivel que el Banco pueda abastecer.
+ */
+export function sellBuildingPlan(
+  state: GameState,
+  propId: string
+): { ok: true; levels: Record<string, number>; steps: number; value: number; forced: boolean } | { ok: false; reason: string } {
   const chk = canSellBuilding(state, propId);
-  if (!chk.ok) return addTx(state, { type: "sell_build", from: "BANK", to: "BANK", note: `Venta falló: ${chk.reason}`, propertyId: propId });
+  if (!chk.ok) return chk;
+
+  const g = groupOf(state, propId)!;
+  const ids = groupProps(state, g);
+  const levels: Record<string, number> = {};
+  for (const id of ids) levels[id] = state.props[id].buildings;
+
+  const housesBefore = housesOnBoard(ids.map((id) => levels[id]));
+  const fits = () =>
+    state.rules.unlimitedBuildings || housesOnBoard(ids.map((id) => levels[id])) - housesBefore <= state.bank.housesAvailable;
+
+  // primer paso: el edificio pedido
+  levels[propId] -= 1;
+  let steps = 1;
+  // si no alcanza el inventario, seguir bajando parejo desde las más altas
+  while (!fits()) {
+    const max = Math.max(...ids.map((id) => levels[id]));
+    if (max <= 0) break;
+    const id = levels[propId] === max ? propId : ids.find((x) => levels[x] === max)!;
+    levels[id] -= 1;
+    steps += 1;
+  }
+
+  return { ok: true, levels, steps, value: steps * chk.value, forced: steps > 1 };
+}
+
+export function doSellBuilding(state: GameState, propId: string): RuleResult {
+  const plan = sellBuildingPlan(state, propId);
+  if (!plan.ok) return plan;
 
   const ps = state.props[propId];
   const owner = ps.owner!;
-  const value = chk.value;
+  const ids = Object.keys(plan.levels);
+
+  const before = ids.map((id) => state.props[id].buildings);
+  const after = ids.map((id) => plan.levels[id]);
+  const bankNext = {
+    housesAvailable: state.bank.housesAvailable - (housesOnBoard(after) - housesOnBoard(before)),
+    hotelsAvailable:
+      state.bank.hotelsAvailable + before.filter((n) => n === 5).length - after.filter((n) => n === 5).length,
+  };
 
-  const bankNext = { ...state.bank };
-  // Si vendés hotel, vuelve 1 hotel al banco y consume 4 casas (si se re-colocan); simplificación segura:
-  if (ps.buildings === 5) {
-    bankNext.hotelsAvailable += 1;
-    // Para pasar de hotel -> 4 casas, la regla lo permite como “hotel = 5 casas”.
-    // Mantener inventario realista completo puede ser v2; aquí lo modelamos como un paso abajo.
-    bankNext.housesAvailable = Math.max(0, bankNext.housesAvailable - 4);
-  } else {
-    bankNext.housesAvailable += 1;
-  }
+  const props = { ...state.props };
+  for (const id of ids) props[id] = { ...props[id], buildings: plan.levels[id] };
 
   const next: GameState = {
     ...state,
     bank: bankNext,
-    props: {
-      ...state.props,
-      [propId]: { ...ps, buildings: ps.buildings - 1 },
-    },
+    props,
     players: {
       ...state.players,
-      [owner]: { ...state.players[owner], balance: clampMoney(state.players[owner].balance + value) },
+      [owner]: { ...state.players[owner], balance: clampMoney(state.players[owner].balance + plan.value) },
     },
   };
 
-  return addTx(next, {
-    type: "sell_build",
-    from: "BANK",
-    to: owner,
-    amount: value,
-    propertyId: propId,
-    note: "Venta de edificio (Banco paga la mitad)",
-  });
+  return {
+    ok: true,
+    state: addTx(next, {
+      type: "sell_build",
+      from: "BANK",
+      to: owner,
+      amount: plan.value,
+      propertyId: propId,
+      note: plan.forced
+        ? `Escasez de casas: grupo bajado parejo (${plan.steps} edificios, Banco paga la mitad)`
+        : ps.buildings === 5
+        ? "Venta de hotel por 4 casas (Banco paga la mitad)"
+        : "Venta de edificio (Banco paga la mitad)",
+    }),
+  };
 }
 
-export function transferCash(state: GameState, from: PlayerKey | "BANK", to: PlayerKey | "BANK", amount: number, note: string): GameState {
+/**
+ * Movimiento de efectivo. Con Free Parking, un impuesto o multa (`extra.tag`) dirigido al Banco va al pozo.
+ */
+export function transferCash(
+  state: GameState,
+  from: PlayerKey | "BANK" | "POT",
+  to: PlayerKey | "BANK" | "POT",
+  amount: number,
+  note: string,
+  extra: Pick<Tx, "propertyId" | "groupId" | "tag" | "action"> = {}
+): GameState {
   const amt = clampMoney(amount);
   if (amt === 0) return state;
+  if (to === "BANK" && extra.tag && state.rules.freeParking) to = "POT";
 
+  let pot = state.pot;
   const players = { ...state.players };
-  if (from !== "BANK") {
+  if (from === "POT") {
+    if (pot < amt) return state;
+    pot -= amt;
+  } else if (from !== "BANK") {
     if (!players[from]) return state;
     players[from] = { ...players[from], balance: clampMoney(players[from].balance - amt) };
   }
-  if (to !== "BANK") {
+  if (to === "POT") {
+    pot += amt;
+  } else if (to !== "BANK") {
     if (!players[to]) return state;
     players[to] = { ...players[to], balance: clampMoney(players[to].balance + amt) };
   }
 
-  const next: GameState = { ...state, players };
-  return addTx(next, { type: "cash", from, to, amount: amt, note });
+  const next: GameState = { ...state, players, pot };
+  return addTx(next, { type: "cash", from, to, amount: amt, note, ...extra });
+}
+
+/** El jugador que cae en Free Parking se lleva todo el pozo. */
+export function collectPot(state: GameState, player: PlayerKey): RuleResult {
+  if (!state.rules.freeParking) return { ok: false, reason: "La partida no juega con pozo de Free Parking" };
+  if (!state.players[player]) return { ok: false, reason: "Jugador inexistente" };
+  if (state.pot <= 0) return { ok: false, reason: "El pozo está vacío" };
+  return { ok: true, state: transferCash(state, "POT", player, state.pot, "Free Parking: cobra el pozo") };
+}
+
+/**
+ * Patrimonio: efectivo + precio de sus propiedades (las hipotecadas, por su valor hipotecario)
+ * + lo que costaron sus edificios.
+ */
+export function netWorth(state: GameState, player: PlayerKey): number {
+  const p = state.players[player];
+  if (!p) return 0;
+  let total = p.balance;
+  for (const d of state.board.props) {
+    const ps = state.props[d.id];
+    if (ps?.owner !== player) continue;
+    total += ps.mortgaged ? mortgageValue(state, d.id) : d.price;
+    total += ps.buildings * buildCost(state, d.group); // hotel = 4 casas + 1
+  }
+  return total;
+}
+
+export function findBankAction(state: GameState, actionId: string): BankAction | undefined {
+  return state.rules.bankActions.find((a) => a.id === actionId);
+}
+
+/** Monto de la acción para ese jugador (con porcentaje, lo menor entre el fijo y el porcentaje). */
+export function bankActionAmount(state: GameState, action: BankAction, player: PlayerKey): number {
+  if (!action.netWorthPct) return action.amount;
+  const pct = clampMoney(Math.max(0, netWorth(state, player)) * action.netWorthPct);
+  return action.amount > 0 ? Math.min(action.amount, pct) : pct;
+}
+
+/** Quién paga y quién cobra en una acción del catálogo. */
+export function bankActionParties(action: BankAction, player: PlayerKey): { from: PlayerKey | "BANK"; to: PlayerKey | "BANK" } {
+  return action.dir === "to_player" ? { from: "BANK", to: player } : { from: player, to: "BANK" };
 }
 
-export function transferProperty(state: GameState, propId: string, to: PlayerKey | null, note: string): GameState {
+/** Ejecuta una acción del catálogo para el jugador (el Tx queda marcado con el id de la acción). */
+export function applyBankAction(state: GameState, player: PlayerKey, actionId: string): RuleResult {
+  const action = findBankAction(state, actionId);
+  if (!action) return { ok: false, reason: "Acción inexistente" };
+  if (!state.players[player]) return { ok: false, reason: "Jugador inexistente" };
+  const amount = bankActionAmount(state, action, player);
+  if (amount <= 0) return { ok: false, reason: "La acción no tiene monto para este jugador" };
+  const { from, to } = bankActionParties(action, player);
+  const extra = { action: action.id, ...(action.tag ? { tag: action.tag } : {}) };
+  return { ok: true, state: transferCash(state, from, to, amount, action.label, extra) };
+}
+
+/** Cobra la renta de la propiedad al jugador que cayó en ella (pago directo al dueño). */
+export function collectRent(state: GameState, propId: string, payer: PlayerKey, diceTotal?: number): GameState {
+  const ps = state.props[propId];
+  if (!ps?.owner || ps.owner === payer || !state.players[payer]) return state;
+
+  const rent = computeRent(state, propId, diceTotal);
+  if (rent <= 0) return state;
+
+  const label = getDef(state, propId)?.label ?? propId;
+  return transferCash(state, payer, ps.owner, rent, `Renta ${label}`, { propertyId: propId });
+}
+
+export function transferProperty(
+  state: GameState,
+  propId: string,
+  to: PlayerKey | null,
+  note: string,
+  extra: Pick<Tx, "groupId"> = {}
+): GameState {
   const ps = state.props[propId];
   if (!ps) return state;
 
@@ -362,60 +807,148 @@ export function transferProperty(state: GameState, propId: string, to: PlayerKey
     to: to ?? "BANK",
     propertyId: propId,
     note,
+    ...extra,
   });
 }
 
 /**
- * Bancarrota oficial hacia jugador:
- * - Devuelve edificios al banco por mitad (cash al acreedor)
- * - Transfiere TODO lo de valor al acreedor
- * - Si hay propiedades hipotecadas: acreedor paga 10% inmediato al banco :contentReference[oaicite:4]{index=4}
+ * Liquida TODOS los edificios de `owner`, grupo por grupo, vendiendo parejo
+ * (siempre desde la más alta, como exige canSellBuilding). El Banco paga la mitad a `payTo`.
+ * Como cada grupo termina sin edificios, un hotel vuelve directo al Banco
+ * sin necesitar 4 casas del inventario; cada casa vuelve al inventario.
+ * Solo para pagarle a un jugador: en la bancarrota al Banco los edificios vuelven sin venta.
  */
-export function declareBankruptcyToPlayer(state: GameState, debtor: PlayerKey, creditor: PlayerKey): GameState {
-  if (!state.players[debtor] || !state.players[creditor]) return state;
-
+export function liquidateBuildings(state: GameState, owner: PlayerKey, payTo: PlayerKey, note: string): GameState {
   let s = state;
+  const groups = new Set(state.board.props.filter((d) => d.kind === "street").map((d) => d.group));
+
+  for (const g of groups) {
+    const ids = groupProps(state, g).filter((id) => s.props[id]?.owner === owner);
+    if (!ids.some((id) => s.props[id].buildings > 0)) continue;
+
+    const levels: Record<string, number> = {};
+    for (const id of ids) levels[id] = s.props[id].buildings;
+    const sold: Record<string, number> = {};
+    let value = 0;
+
+    // Venta pareja: siempre se vende en la más alta del grupo
+    for (;;) {
+      const max = Math.max(...ids.map((id) => levels[id]));
+      if (max <= 0) break;
+      const id = ids.find((x) => levels[x] === max)!;
+      if (!value) {
+        const chk = canSellBuilding(s, id);
+        if (!chk.ok) break;
+        value = chk.value;
+      }
+      levels[id] -= 1;
+      sold[id] = (sold[id] ?? 0) + 1;
+    }
 
-  // 1) Vender TODOS los edificios del deudor (a mitad) y ese cash va al acreedor
-  for (const def of PROPERTY_DEFS) {
-    const ps = s.props[def.id];
-    if (!ps || ps.owner !== debtor) continue;
-    if (def.kind !== "street") continue;
-
-    while (ps.buildings > 0) {
-      // doSellBuilding paga al dueño; pero en bancarrota, ese cash va al acreedor.
-      // Simplificación: vendemos, luego transferimos inmediatamente al acreedor.
-      const beforeBal = s.players[debtor].balance;
-      s = doSellBuilding(s, def.id);
-      const afterBal = s.players[debtor].balance;
-      const delta = afterBal - beforeBal;
-      if (delta > 0) {
-        s = transferCash(s, debtor, creditor, delta, "Liquidación por bancarrota (edificios)");
+    const bank = { ...s.bank };
+    const props = { ...s.props };
+    for (const id of ids) {
+      const before = s.props[id].buildings;
+      if (!sold[id]) continue;
+      if (before === 5) bank.hotelsAvailable += 1;
+      else bank.housesAvailable += before;
+      props[id] = { ...props[id], buildings: levels[id] };
+    }
+    s = { ...s, bank, props };
+
+    for (const id of ids) {
+      const n = sold[id];
+      if (!n) continue;
+      const amount = n * value;
+      if (s.players[payTo]) {
+        s = {
+          ...s,
+          players: { ...s.players, [payTo]: { ...s.players[payTo], balance: clampMoney(s.players[payTo].balance + amount) } },
+        };
       }
-      break; // evitar bucle largo en MVP (un step por propiedad). Si querés full, lo hacemos v2.
+      s = addTx(s, {
+        type: "sell_build",
+        from: "BANK",
+        to: payTo,
+        amount,
+        propertyId: id,
+        note: `${note} (${state.props[id].buildings === 5 ? "hotel" : `${n} casa${n === 1 ? "" : "s"}`})`,
+      });
     }
   }
 
-  // 2) Transferir todas las propiedades al acreedor
-  for (const def of PROPERTY_DEFS) {
+  return s;
+}
+
+/**
+ * Entrega el efectivo del deudor en quiebra. Un saldo negativo (pagos registrados sin fondos)
+ * es deuda incobrable: la absorbe el Banco con un Tx propio, así el saldo llega a 0 en el registro
+ * y el acreedor conserva lo que ya cobró.
+ */
+function handOverCash(state: GameState, debtor: PlayerKey, to: PlayerKey | "BANK", note: string): GameState {
+  const cash = state.players[debtor]?.balance ?? 0;
+  if (cash > 0) return transferCash(state, debtor, to, cash, note);
+  if (cash < 0) return transferCash(state, "BANK", debtor, -cash, "Deuda incobrable por bancarrota (la absorbe el Banco)");
+  return state;
+}
+
+/**
+ * Bancarrota oficial hacia jugador:
+ * - Devuelve TODOS los edificios al banco por mitad (cash al acreedor)
+ * - Transfiere TODO lo de valor al acreedor
+ * - Por cada propiedad hipotecada el acreedor elige: pagar ya el interés al banco (sigue hipotecada)
+ *   o levantarla en el acto (principal + interés; oficial: 10%). `liftMortgages` lista las que levanta. :contentReference[oaicite:4]{index=4}
+ */
+export function declareBankruptcyToPlayer(
+  state: GameState,
+  debtor: PlayerKey,
+  creditor: PlayerKey,
+  liftMortgages: string[] = []
+): GameState {
+  if (!state.players[debtor] || !state.players[creditor] || debtor === creditor) return state;
+
+  let s = state;
+
+  // 1) Vender TODOS los edificios del deudor (a mitad); ese cash va al acreedor
+  s = liquidateBuildings(s, debtor, creditor, "Liquidación por bancarrota");
+
+  // 2) Transferir todo el efectivo del deudor al acreedor (si quedó en negativo, la deuda se cancela a la vista)
+  s = handOverCash(s, debtor, creditor, "Transferencia de efectivo por bancarrota");
+
+  // 3) Transferir todas las propiedades al acreedor
+  for (const def of state.board.props) {
     const ps = s.props[def.id];
     if (!ps || ps.owner !== debtor) continue;
 
     s = transferProperty(s, def.id, creditor, "Transferencia por bancarrota");
-    // Si estaba hipotecada, acreedor paga 10% inmediato al banco
-    if (ps.mortgaged) {
-      const mv = mortgageValue(def.id);
-      const interest = Math.ceil(mv * 0.1);
-      s = transferCash(s, creditor, "BANK", interest, "Interés 10% por recibir propiedad hipotecada");
+    if (!ps.mortgaged) continue;
+
+    const interest = mortgageInterest(s, def.id);
+    const liftCost = mortgageValue(s, def.id) + interest;
+    if (liftMortgages.includes(def.id) && s.players[creditor].balance >= liftCost) {
+      s = {
+        ...s,
+        props: { ...s.props, [def.id]: { ...s.props[def.id], mortgaged: false } },
+        players: {
+          ...s.players,
+          [creditor]: { ...s.players[creditor], balance: clampMoney(s.players[creditor].balance - liftCost) },
+        },
+      };
+      s = addTx(s, {
+        type: "unmortgage",
+        from: creditor,
+        to: "BANK",
+        amount: liftCost,
+        propertyId: def.id,
+        note: `Levanta hipoteca al recibir por bancarrota (+${formatRate(s.rules.mortgageInterest)} interés)`,
+      });
+    } else {
+      s = transferCash(s, creditor, "BANK", interest, `Interés ${formatRate(s.rules.mortgageInterest)} por recibir propiedad hipotecada`, {
+        propertyId: def.id,
+      });
     }
   }
 
-  // 3) Transferir todo el efectivo restante del deudor al acreedor
-  const cashLeft = s.players[debtor].balance;
-  if (cashLeft !== 0) {
-    s = transferCash(s, debtor, creditor, cashLeft, "Transferencia de efectivo por bancarrota");
-  }
-
   // 4) Remover jugador deudor (queda retirado)
   const players = { ...s.players };
   delete players[debtor];
@@ -434,28 +967,32 @@ export function declareBankruptcyToPlayer(state: GameState, debtor: PlayerKey, c
 /**
  * Bancarrota oficial hacia el banco:
  * - Entrega todo al banco y el banco subasta propiedades (excepto edificios) :contentReference[oaicite:5]{index=5}
+ * - Los edificios vuelven al inventario del banco sin movimiento de dinero (la mitad que pagaría
+ *   el banco se la quedaría él mismo); el efectivo del deudor pasa al banco
  */
 export function declareBankruptcyToBank(state: GameState, debtor: PlayerKey): GameState {
   if (!state.players[debtor]) return state;
 
   let s = state;
 
-  // 1) vender edificios al banco (el jugador recibe cash, pero se lo queda el banco en quiebra al banco)
-  // Para MVP: simplemente los eliminamos y no pagamos cash (más estricto a favor del banco).
-  // Si querés exactitud total, lo ajustamos en v2.
-  const propsNext = { ...s.props };
-  for (const def of PROPERTY_DEFS) {
-    const ps = propsNext[def.id];
-    if (!ps || ps.owner !== debtor) continue;
-    if (def.kind === "street" && ps.buildings > 0) {
-      propsNext[def.id] = { ...ps, buildings: 0 };
-    }
+  // 1) Los edificios vuelven al inventario (se anotan en el Tx de la bancarrota, no como venta)
+  const props = { ...s.props };
+  const bank = { ...s.bank };
+  const returned = { houses: 0, hotels: 0 };
+  for (const def of state.board.props) {
+    const ps = props[def.id];
+    if (!ps || ps.owner !== debtor || ps.buildings === 0) continue;
+    if (ps.buildings === 5) returned.hotels += 1;
+    else returned.houses += ps.buildings;
+    props[def.id] = { ...ps, buildings: 0 };
   }
-  s = { ...s, props: propsNext };
+  bank.housesAvailable += returned.houses;
+  bank.hotelsAvailable += returned.hotels;
+  s = { ...s, props, bank };
 
   // 2) pasar propiedades al banco y agregarlas a auctionQueue (mortgages canceladas al pasar al banco)
   const auctionQueue = [...s.auctionQueue];
-  for (const def of PROPERTY_DEFS) {
+  for (const def of state.board.props) {
     const ps = s.props[def.id];
     if (!ps || ps.owner !== debtor) continue;
 
@@ -470,8 +1007,8 @@ export function declareBankruptcyToBank(state: GameState, debtor: PlayerKey): Ga
   }
   s = { ...s, auctionQueue };
 
-  // 3) efectivo del deudor queda en banco (en práctica se usa para pagar impuestos/penalidad)
-  // Para MVP: lo dejamos en 0 y retiramos jugador
+  // 3) Todo el efectivo del deudor va al Banco (si quedó en negativo, la deuda se cancela a la vista)
+  s = handOverCash(s, debtor, "BANK", "Efectivo entregado al Banco por bancarrota");
   const players = { ...s.players };
   delete players[debtor];
   s = { ...s, players };
@@ -480,7 +1017,11 @@ export function declareBankruptcyToBank(state: GameState, debtor: PlayerKey): Ga
     type: "bankruptcy_bank",
     from: debtor,
     to: "BANK",
-    note: `Bancarrota al Banco: ${playerDisplay(state, debtor)}. Propiedades a subasta: ${auctionQueue.length}`,
+    note:
+      `Bancarrota al Banco: ${playerDisplay(state, debtor)}. Propiedades a subasta: ${auctionQueue.length}` +
+      (returned.houses || returned.hotels
+        ? `. Edificios devueltos: ${returned.houses} casa${returned.houses === 1 ? "" : "s"}, ${returned.hotels} hotel${returned.hotels === 1 ? "" : "es"}`
+        : ""),
   });
 
   return s;
@@ -0,0 +1,79 @@
+import type { ConnId, Player } from "./types";
+
+/** Par ECDSA P-256 exportado: pública en base64 (spki), privada en JWK (para guardarla en localStorage). */
+export type KeyPair = { pub: string; priv: JsonWebKey };
+
+/**
+ * Identidad de dispositivo del jugador: par de claves creado en el primer ingreso.
+ * La pública queda asociada al PlayerKey en el GameState; la privada nunca sale del dispositivo.
+ * En cada HELLO el jugador firma `gameId:connId` (connId es único por Offer, así que una firma
+ * capturada no sirve para otra conexión).
+ */
+export type DeviceKey = KeyPair;
+
+/** Resultado de verificar un HELLO contra el jugador existente (si lo hay). */
+export type HelloAuth =
+  | "ok" // firma válida y, si el jugador existe, misma clave
+  | "unbound" // jugador de una versión anterior, sin clave asociada todavía
+  | "missing" // el dispositivo no mandó credencial (cliente viejo o sin WebCrypto)
+  | "invalid" // firma que no verifica
+  | "mismatch"; // firma válida pero de otra clave: otro dispositivo usando ese nombre
+
+const KEY_ALG: EcKeyImportParams = { name: "ECDSA", namedCurve: "P-256" };
+const SIGN_ALG: EcdsaParams = { name: "ECDSA", hash: "SHA-256" };
+
+/** WebCrypto solo existe en contextos seguros (https / localhost). */
+export function hasWebCrypto(): boolean {
+  return typeof crypto !== "undefined" && !!crypto.subtle;
+}
+
+function toB64(buf: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buf)));
+}
+
+function fromB64(s: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(s);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+export async function createKeyPair(): Promise<KeyPair> {
+  const pair = await crypto.subtle.generateKey(KEY_ALG, true, ["sign", "verify"]);
+  const pub = toB64(await crypto.subtle.exportKey("spki", pair.publicKey));
+  const priv = await crypto.subtle.exportKey("jwk", pair.privateKey);
+  return { pub, priv };
+}
+
+export async function signText(key: KeyPair, text: string): Promise<string> {
+  const priv = await crypto.subtle.importKey("jwk", key.priv, KEY_ALG, false, ["sign"]);
+  return toB64(await crypto.subtle.sign(SIGN_ALG, priv, new TextEncoder().encode(text)));
+}
+
+export async function verifyText(pub: string, text: string, sig: string): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey("spki", fromB64(pub), KEY_ALG, false, ["verify"]);
+    return await crypto.subtle.verify(SIGN_ALG, key, fromB64(sig), new TextEncoder().encode(text));
+  } catch {
+    return false;
+  }
+}
+
+export const createDeviceKey = createKeyPair;
+
+export function signHello(key: DeviceKey, gameId: string, connId: ConnId): Promise<string> {
+  return signText(key, `PB-HELLO:${gameId}:${connId}`);
+}
+
+export function verifyHello(pub: string, gameId: string, connId: ConnId, sig: string): Promise<boolean> {
+  return verifyText(pub, `PB-HELLO:${gameId}:${connId}`, sig);
+}
+
+/** Clasifica un HELLO ya verificado (`valid`) contra el jugador que usa ese nombre. */
+export function helloAuth(existing: Player | undefined, pub: string | null, valid: boolean): HelloAuth {
+  if (!pub) return existing?.publicKey ? "mismatch" : "missing";
+  if (!valid) return "invalid";
+  if (!existing) return "ok";
+  if (!existing.publicKey) return "unbound";
+  return existing.publicKey === pub ? "ok" : "mismatch";
+}
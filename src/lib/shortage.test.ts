@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { verifyLedger } from "./ledger";
+import { joinPlayer, makeGame } from "./rules";
+import { awardShortage, minShortageBid, placeShortageBid, setBuildDemand } from "./shortage";
+import type { GameState } from "./types";
+
+// marrón P01-P02 y celeste P03-P05: casa a 50
+function game(housesAvailable: number): GameState {
+  let s = makeGame();
+  s = joinPlayer(s, "c1", "Ana", "new");
+  s = joinPlayer(s, "c2", "Beto", "new");
+  const props = { ...s.props };
+  for (const id of ["P01", "P02"]) props[id] = { ...props[id], owner: "ana" };
+  for (const id of ["P03", "P04", "P05"]) props[id] = { ...props[id], owner: "beto" };
+  return { ...s, props, bank: { ...s.bank, housesAvailable } };
+}
+
+function ok(res: { ok: true; state: GameState } | { ok: false; reason: string }): GameState {
+  if (!res.ok) throw new Error(res.reason);
+  return res.state;
+}
+
+/** Ana y Beto piden construir con una sola casa en el Banco: se abre la subasta. */
+function inShortage(): GameState {
+  const s = ok(setBuildDemand(game(1), "ana", "P01"));
+  return ok(setBuildDemand(s, "beto", "P03"));
+}
+
+describe("subasta por escasez", () => {
+  it("se abre cuando la demanda supera el inventario y no antes", () => {
+    const one = ok(setBuildDemand(game(1), "ana", "P01"));
+    expect(one.shortage).toBeNull();
+
+    const s = inShortage();
+    expect(s.shortage).toMatchObject({ kind: "house", bids: {} });
+    expect(ok(setBuildDemand(s, "beto", null)).shortage).toBeNull();
+  });
+
+  it("valida las ofertas: demanda previa, mínimo de tabla, incremento y saldo", () => {
+    let s = inShortage();
+    expect(placeShortageBid(game(1), "ana", 100)).toEqual({ ok: false, reason: "No hay subasta por escasez" });
+    expect(minShortageBid(s, "ana")).toBe(50);
+    expect(placeShortageBid(s, "ana", 40)).toEqual({ ok: false, reason: "La oferta mínima es 50" });
+    expect(placeShortageBid(s, "ana", 5000)).toEqual({ ok: false, reason: "Saldo insuficiente para esa oferta" });
+
+    s = ok(placeShortageBid(s, "ana", 80));
+    expect(minShortageBid(s, "beto")).toBe(90);
+    expect(placeShortageBid(s, "beto", 85).ok).toBe(false);
+    s = ok(placeShortageBid(s, "beto", 90));
+    expect(s.shortage?.bids).toEqual({ ana: 80, beto: 90 });
+  });
+
+  it("adjudica al mejor postor: construye, cobra la oferta y cierra", () => {
+    let s = inShortage();
+    s = ok(placeShortageBid(s, "ana", 80));
+    s = ok(placeShortageBid(s, "beto", 120));
+
+    const out = ok(awardShortage(s));
+
+    expect(out.props.P03.buildings).toBe(1);
+    expect(out.players.beto.balance).toBe(1500 - 120);
+    expect(out.players.ana.balance).toBe(1500);
+    expect(out.bank.housesAvailable).toBe(0);
+    expect(out.shortage).toBeNull();
+    // sin casas en el Banco la demanda de Ana ya no se puede cumplir: se descarta
+    expect(out.buildDemand).toEqual([]);
+    expect(out.tx[0]).toMatchObject({ type: "build", from: "beto", to: "BANK", amount: 120, propertyId: "P03" });
+    expect(verifyLedger(out).ok).toBe(true);
+  });
+
+  it("sin ofertas no se adjudica", () => {
+    expect(awardShortage(inShortage())).toEqual({ ok: false, reason: "No hay ofertas" });
+  });
+});
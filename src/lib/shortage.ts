@@ -0,0 +1,153 @@
+import { buildCost, canBuildHouse, clampMoney, doBuild, groupOf, newId, now, type RuleResult } from "./rules";
+import type { BuildDemand, BuildKind, GameState, PlayerKey } from "./types";
+
+/** Incremento mínimo entre ofertas de la subasta por escasez. */
+export const SHORTAGE_BID_STEP = 10;
+
+/** Qué unidad necesita la propiedad para subir un nivel. */
+export function buildKindFor(state: GameState, propId: string): BuildKind {
+  return state.props[propId]?.buildings === 4 ? "hotel" : "house";
+}
+
+/** Unidades que tiene el Banco (Infinity con edificios ilimitados: nunca hay escasez). */
+export function supplyOf(state: GameState, kind: BuildKind): number {
+  if (state.rules.unlimitedBuildings) return Infinity;
+  return kind === "hotel" ? state.bank.hotelsAvailable : state.bank.housesAvailable;
+}
+
+export function demandFor(state: GameState, kind: BuildKind): BuildDemand[] {
+  return state.buildDemand.filter((d) => d.kind === kind);
+}
+
+function buildCostOf(state: GameState, propId: string): number {
+  const g = groupOf(state, propId);
+  return g ? buildCost(state, g) : 0;
+}
+
+/** Descarta demandas que ya no se pueden construir (vendió, hipotecó, ya construyó, etc.). */
+function pruneDemand(state: GameState): GameState {
+  const buildDemand = state.buildDemand.filter(
+    (d) =>
+      state.players[d.player] &&
+      buildKindFor(state, d.propId) === d.kind &&
+      canBuildHouse(state, d.propId, { duringShortage: true }).ok
+  );
+  return buildDemand.length === state.buildDemand.length ? state : { ...state, buildDemand };
+}
+
+/**
+ * Regla oficial de escasez: si más jugadores quieren construir que unidades tiene el Banco,
+ * las unidades se subastan. Abre la subasta cuando la demanda supera la oferta
+ * y la cierra si la demanda vuelve a entrar en el inventario.
+ */
+export function syncShortage(state: GameState): GameState {
+  let s = pruneDemand(state);
+
+  if (s.shortage) {
+    const k = s.shortage.kind;
+    if (demandFor(s, k).length > supplyOf(s, k) && supplyOf(s, k) > 0) {
+      const bidders = new Set(demandFor(s, k).map((d) => d.player));
+      const bids = Object.fromEntries(Object.entries(s.shortage.bids).filter(([p]) => bidders.has(p)));
+      return { ...s, shortage: { ...s.shortage, bids } };
+    }
+    s = { ...s, shortage: null };
+  }
+
+  for (const kind of ["house", "hotel"] as const) {
+    const supply = supplyOf(s, kind);
+    if (supply > 0 && demandFor(s, kind).length > supply) {
+      return { ...s, shortage: { id: newId(8), kind, openedAt: now(), bids: {} } };
+    }
+  }
+  return s;
+}
+
+/** Registra dónde quiere construir el jugador (`propId = null` retira la demanda). */
+export function setBuildDemand(state: GameState, player: PlayerKey, propId: string | null): RuleResult {
+  if (!state.players[player]) return { ok: false, reason: "Jugador inexistente" };
+  const rest = state.buildDemand.filter((d) => d.player !== player);
+
+  if (propId === null) return { ok: true, state: syncShortage({ ...state, buildDemand: rest }) };
+
+  if (state.props[propId]?.owner !== player) return { ok: false, reason: "La propiedad no es tuya" };
+  const chk = canBuildHouse(state, propId, { duringShortage: true });
+  if (!chk.ok) return chk;
+
+  const kind = buildKindFor(state, propId);
+  if (state.shortage && state.shortage.kind !== kind) {
+    return { ok: false, reason: "Hay otra subasta por escasez en curso" };
+  }
+
+  const entry: BuildDemand = { player, propId, kind, ts: now() };
+  return { ok: true, state: syncShortage({ ...state, buildDemand: [...rest, entry] }) };
+}
+
+export function highestShortageBid(state: GameState): { player: PlayerKey; amount: number } | null {
+  if (!state.shortage) return null;
+  let best: { player: PlayerKey; amount: number } | null = null;
+  for (const [player, amount] of Object.entries(state.shortage.bids)) {
+    if (!best || amount > best.amount) best = { player, amount };
+  }
+  return best;
+}
+
+/** Oferta mínima: el costo de tabla de su grupo y por encima de la mejor oferta actual. */
+export function minShortageBid(state: GameState, player: PlayerKey): number {
+  const d = state.buildDemand.find((x) => x.player === player);
+  const base = d ? buildCostOf(state, d.propId) : 0;
+  const best = highestShortageBid(state);
+  return Math.max(base, best ? best.amount + SHORTAGE_BID_STEP : 0);
+}
+
+export function placeShortageBid(state: GameState, player: PlayerKey, amount: number): RuleResult {
+  const sh = state.shortage;
+  if (!sh) return { ok: false, reason: "No hay subasta por escasez" };
+  const d = state.buildDemand.find((x) => x.player === player && x.kind === sh.kind);
+  if (!d) return { ok: false, reason: "Primero indicá dónde querés construir" };
+
+  const amt = clampMoney(amount);
+  const min = minShortageBid(state, player);
+  if (amt < min) return { ok: false, reason: `La oferta mínima es ${min}` };
+  if (amt > state.players[player].balance) return { ok: false, reason: "Saldo insuficiente para esa oferta" };
+
+  return { ok: true, state: { ...state, shortage: { ...sh, bids: { ...sh.bids, [player]: amt } } } };
+}
+
+/**
+ * Adjudica una unidad al mejor postor: construye en la propiedad que declaró
+ * y paga su oferta al Banco (queda como Tx "build").
+ */
+export function awardShortage(state: GameState): RuleResult {
+  const sh = state.shortage;
+  const best = highestShortageBid(state);
+  if (!sh || !best) return { ok: false, reason: "No hay ofertas" };
+
+  const d = state.buildDemand.find((x) => x.player === best.player);
+  if (!d) return { ok: false, reason: "El ganador ya no tiene demanda" };
+
+  const built = doBuild(state, d.propId, {
+    price: best.amount,
+    duringShortage: true,
+    note: `Subasta por escasez: ${sh.kind === "hotel" ? "hotel" : "casa"}`,
+  });
+  if (!built.ok) return { ok: false, reason: `No se puede adjudicar: ${built.reason}` };
+
+  const s = { ...built.state, buildDemand: built.state.buildDemand.filter((x) => x.player !== best.player), shortage: null };
+  return { ok: true, state: syncShortage(s) };
+}
+
+export function cancelShortage(state: GameState): GameState {
+  if (!state.shortage) return state;
+  const kind = state.shortage.kind;
+  return { ...state, shortage: null, buildDemand: state.buildDemand.filter((d) => d.kind !== kind) };
+}
+
+/** Sin escasez: el Banco construye directamente lo pedido a precio de tabla. */
+export function fulfillBuildDemand(state: GameState, player: PlayerKey): RuleResult {
+  const d = state.buildDemand.find((x) => x.player === player);
+  if (!d) return { ok: false, reason: "Sin demanda" };
+  const built = doBuild(state, d.propId);
+  if (!built.ok) return built;
+  const s = built.state;
+  return { ok: true, state: syncShortage({ ...s, buildDemand: s.buildDemand.filter((x) => x.player !== player) }) };
+}
@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import { compactSignal, expandSignal } from "./signal";
+
+// SDP de data channel como los generan los navegadores (recortados a lo que importa, con los candidatos ya juntos)
+
+const CHROME_OFFER = [
+  "v=0",
+  "o=- 4611731400430051336 2 IN IP4 127.0.0.1",
+  "s=-",
+  "t=0 0",
+  "a=group:BUNDLE 0",
+  "a=extmap-allow-mixed",
+  "a=msid-semantic: WMS",
+  "m=application 54400 UDP/DTLS/SCTP webrtc-datachannel",
+  "c=IN IP4 203.0.113.7",
+  "a=candidate:3098751364 1 udp 2113937151 3f1c9a2e-5b7d-4e0a-9c11-2a6b8e4d7f10.local 54400 typ host generation 0 network-cost 999",
+  "a=candidate:842163049 1 udp 1677729535 203.0.113.7 54400 typ srflx raddr 0.0.0.0 rport 0 generation 0 network-cost 999",
+  "a=candidate:1510613869 1 tcp 1518280447 192.168.1.20 9 typ host tcptype active generation 0",
+  "a=ice-ufrag:Xf3k",
+  "a=ice-pwd:2kq5Lr0bXcT7nP1yZ9aWm4sE",
+  "a=ice-options:trickle",
+  "a=fingerprint:sha-256 6B:8B:5D:EA:59:04:20:23:29:C8:87:1C:CC:87:32:BE:DD:8C:66:A5:8E:50:55:EA:8C:D3:B6:5C:09:5E:D6:BC",
+  "a=setup:actpass",
+  "a=mid:0",
+  "a=sctp-port:5000",
+  "a=max-message-size:262144",
+  "",
+].join("\r\n");
+
+const CHROME_ANSWER = [
+  "v=0",
+  "o=- 7592831201458327711 2 IN IP4 127.0.0.1",
+  "s=-",
+  "t=0 0",
+  "a=group:BUNDLE 0",
+  "a=msid-semantic: WMS",
+  "m=application 9 UDP/DTLS/SCTP webrtc-datachannel",
+  "c=IN IP4 0.0.0.0",
+  "a=candidate:1467250027 1 udp 2122260223 192.168.1.34 60710 typ host generation 0",
+  "a=candidate:1467250027 1 udp 2122262783 2001:db8::4a2c 60711 typ host generation 0",
+  "a=candidate:2789470651 1 udp 41885439 198.51.100.9 3478 typ relay raddr 203.0.113.8 rport 60710 generation 0",
+  "a=ice-ufrag:aB9z",
+  "a=ice-pwd:Q1w2E3r4T5y6U7i8O9p0AsDf",
+  "a=ice-options:trickle",
+  "a=fingerprint:sha-256 1F:0E:57:63:2B:7A:90:B1:2C:41:DE:C6:48:66:11:A3:3E:BD:9F:0C:A5:E7:27:50:4F:63:C9:4E:D2:17:08:AB",
+  "a=setup:active",
+  "a=mid:0",
+  "a=sctp-port:5000",
+  "a=max-message-size:262144",
+  "",
+].join("\r\n");
+
+const FIREFOX_OFFER = [
+  "v=0",
+  "o=mozilla...THIS_IS_SDPARTA-99.0 5297485437183853126 0 IN IP4 0.0.0.0",
+  "s=-",
+  "t=0 0",
+  "a=sendrecv",
+  "a=fingerprint:sha-256 A9:0C:4F:22:18:7B:3E:E1:55:9D:60:0B:C2:77:8F:14:D0:39:6A:85:2E:F1:B4:47:93:0D:CC:5B:71:E8:26:3F",
+  "a=group:BUNDLE 0",
+  "a=ice-options:trickle",
+  "a=msid-semantic:WMS *",
+  "m=application 61215 UDP/DTLS/SCTP webrtc-datachannel",
+  "c=IN IP4 203.0.113.50",
+  "a=candidate:0 1 UDP 2122252543 0b4f1d2c-8e6a-4c3b-a7d9-5f1e2b3c4d5e.local 61215 typ host",
+  "a=candidate:2 1 TCP 2105524479 0b4f1d2c-8e6a-4c3b-a7d9-5f1e2b3c4d5e.local 9 typ host tcptype active",
+  "a=candidate:1 1 UDP 1686052863 203.0.113.50 61215 typ srflx raddr 0.0.0.0 rport 0",
+  "a=sendrecv",
+  "a=end-of-candidates",
+  "a=ice-pwd:5d1e2c7a9b3f4e6d8c0a1b2c3d4e5f60",
+  "a=ice-ufrag:8f2a1c3d",
+  "a=mid:0",
+  "a=setup:actpass",
+  "a=sctp-port:5000",
+  "a=max-message-size:1073741823",
+  "",
+].join("\r\n");
+
+const FIREFOX_ANSWER = [
+  "v=0",
+  "o=mozilla...THIS_IS_SDPARTA-99.0 886133275034116478 0 IN IP4 0.0.0.0",
+  "s=-",
+  "t=0 0",
+  "a=sendrecv",
+  "a=fingerprint:sha-512 3C:77:0A:E1:9B:25:6D:F4:10:8E:C2:5A:47:B9:03:DE:61:F8:2C:95:7E:13:A0:4B:D6:89:F2:35:1C:6E:BA:07:48:D3:91:2F:65:0C:EA:7B:14:86:5D:C9:23:F0:A8:3E:71:B4:0D:92:6F:E5:38:1A:C7:54:8B:2E:F9:06",
+  "a=group:BUNDLE 0",
+  "a=ice-options:trickle",
+  "a=msid-semantic:WMS *",
+  "m=application 9 UDP/DTLS/SCTP webrtc-datachannel",
+  "c=IN IP4 0.0.0.0",
+  "a=candidate:0 1 UDP 2122187007 7c9e6679-7425-40de-944b-e07fc1f90ae7.local 50312 typ host",
+  "a=candidate:1 1 UDP 2122252543 c2d4e6f8-0a1b-4c3d-9e5f-6a7b8c9d0e1f.local 50313 typ host",
+  "a=sendrecv",
+  "a=end-of-candidates",
+  "a=ice-pwd:e8b6c1f03a2d4b5c6d7e8f9a0b1c2d3e",
+  "a=ice-ufrag:3a7c9e1b",
+  "a=mid:0",
+  "a=setup:active",
+  "a=sctp-port:5000",
+  "a=max-message-size:1073741823",
+  "",
+].join("\r\n");
+
+const SAFARI_OFFER = [
+  "v=0",
+  "o=- 1853201745036391847 2 IN IP4 127.0.0.1",
+  "s=-",
+  "t=0 0",
+  "a=group:BUNDLE 0",
+  "a=extmap-allow-mixed",
+  "a=msid-semantic: WMS",
+  "m=application 9 UDP/DTLS/SCTP webrtc-datachannel",
+  "c=IN IP4 0.0.0.0",
+  "a=candidate:2230441235 1 udp 2113937151 9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d.local 63218 typ host generation 0 network-cost 999",
+  "a=candidate:2230441236 1 udp 2113939711 1b2c3d4e-5f60-4718-a9b0-c1d2e3f40516.local 63219 typ host generation 0 network-cost 999",
+  "a=candidate:4157265812 1 udp 1677729535 198.51.100.77 63218 typ srflx raddr 0.0.0.0 rport 0 generation 0 network-cost 999",
+  "a=ice-ufrag:uS4f",
+  "a=ice-pwd:ZxCvBnMaSdFgHjKlQwErTyUi",
+  "a=ice-options:trickle",
+  "a=fingerprint:sha-256 D4:1A:90:6C:3F:E2:58:B7:0D:81:4E:A6:93:2C:F5:17:6B:C0:E9:34:58:AF:12:7D:BE:03:6A:C9:41:F8:2D:95",
+  "a=setup:actpass",
+  "a=mid:0",
+  "a=sctp-port:5000",
+  "a=max-message-size:262144",
+  "",
+].join("\r\n");
+
+const SAFARI_ANSWER = [
+  "v=0",
+  "o=- 6140297312551120093 2 IN IP4 127.0.0.1",
+  "s=-",
+  "t=0 0",
+  "a=group:BUNDLE 0",
+  "a=msid-semantic: WMS",
+  "m=application 9 UDP/DTLS/SCTP webrtc-datachannel",
+  "c=IN IP4 0.0.0.0",
+  "a=candidate:3345209741 1 udp 2113937151 f47ac10b-58cc-4372-a567-0e02b2c3d479.local 58004 typ host generation 0 network-cost 999",
+  "a=ice-ufrag:pQ7w",
+  "a=ice-pwd:LkJhGfDsApOiUyTrEwQzXcVb",
+  "a=ice-options:trickle",
+  "a=fingerprint:sha-256 0A:5B:E3:91:7C:22:D8:4F:B6:13:6E:A0:C9:85:2D:F7:44:1B:93:E0:6A:CF:58:27:B1:0D:F4:39:8E:62:A5:CC",
+  "a=setup:active",
+  "a=mid:0",
+  "a=sctp-port:5000",
+  "a=max-message-size:262144",
+  "",
+].join("\r\n");
+
+const attr = (sdp: string, name: string) =>
+  sdp
+    .split("\r\n")
+    .find((l) => l.startsWith(`a=${name}:`))
+    ?.slice(name.length + 3);
+
+/** Tipo, dirección y puerto de los candidatos UDP (lo que hace falta para conectar). */
+const udpCandidates = (sdp: string) =>
+  sdp
+    .split("\r\n")
+    .filter((l) => l.startsWith("a=candidate:"))
+    .map((l) => l.split(" "))
+    .filter((p) => p[2].toLowerCase() === "udp")
+    .map((p) => `${p[7]} ${p[4]} ${p[5]}`)
+    .sort();
+
+describe("compactSignal / expandSignal", () => {
+  const fixtures = [
+    ["Chrome", "offer", CHROME_OFFER, "actpass"],
+    ["Chrome", "answer", CHROME_ANSWER, "active"],
+    ["Firefox", "offer", FIREFOX_OFFER, "actpass"],
+    ["Firefox", "answer", FIREFOX_ANSWER, "active"],
+    ["Safari", "offer", SAFARI_OFFER, "actpass"],
+    ["Safari", "answer", SAFARI_ANSWER, "active"],
+  ] as const;
+
+  it.each(fixtures)("%s %s: el SDP reconstruido conserva fingerprint, ufrag/pwd y candidatos", (_browser, type, sdp, setup) => {
+    const compact = compactSignal({ type, sdp });
+    expect(compact).not.toBeNull();
+    expect(compact!.length).toBeLessThan(sdp.length / 3);
+
+    const out = expandSignal(compact!);
+    expect(out).toMatchObject({ type });
+    const rebuilt = (out as { sdp: string }).sdp;
+
+    expect(attr(rebuilt, "fingerprint")).toBe(attr(sdp, "fingerprint")!.toUpperCase().replace(/^SHA-/, "sha-"));
+    expect(attr(rebuilt, "ice-ufrag")).toBe(attr(sdp, "ice-ufrag"));
+    expect(attr(rebuilt, "ice-pwd")).toBe(attr(sdp, "ice-pwd"));
+    expect(attr(rebuilt, "setup")).toBe(setup);
+    expect(attr(rebuilt, "mid")).toBe(attr(sdp, "mid"));
+    expect(udpCandidates(rebuilt)).toEqual(udpCandidates(sdp));
+  });
+
+  it("los candidatos mDNS viajan comprimidos y vuelven como <uuid>.local", () => {
+    const compact = compactSignal({ type: "answer", sdp: FIREFOX_ANSWER })!;
+    expect(compact).not.toContain(".local");
+    const rebuilt = (expandSignal(compact) as { sdp: string }).sdp;
+    expect(rebuilt).toContain(" 7c9e6679-7425-40de-944b-e07fc1f90ae7.local 50312 typ host");
+  });
+
+  it("compactar lo reconstruido da el mismo texto", () => {
+    for (const [, type, sdp] of fixtures) {
+      const once = compactSignal({ type, sdp })!;
+      expect(compactSignal(expandSignal(once))).toBe(once);
+    }
+  });
+
+  it("rechaza lo que no es un único data channel", () => {
+    const audio = CHROME_OFFER.replace("m=application", "m=audio 9 UDP/TLS/RTP/SAVPF 111\r\nm=application");
+    expect(compactSignal({ type: "offer", sdp: audio })).toBeNull();
+    expect(compactSignal({ type: "offer", sdp: CHROME_OFFER.replace("sctp-port:5000", "sctp-port:5001") })).toBeNull();
+    expect(() => expandSignal("x|a|b|c|0|")).toThrow("Señal compacta inválida");
+  });
+});
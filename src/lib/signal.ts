@@ -0,0 +1,209 @@
+import type { Instance as PeerInstance, SignalData } from "simple-peer";
+
+/**
+ * Señalización compacta para QR.
+ * Un offer/answer de data channel solo necesita: tipo, setup DTLS, ufrag/pwd de ICE, fingerprint,
+ * mid y algunos candidatos. Todo lo demás del SDP es fijo y se reconstruye del otro lado.
+ *
+ *   <tipo><setup>|<ufrag>|<pwd>|<fingerprint>|<mid>|<candidatos>
+ *
+ * - tipo: o (offer) / a (answer); setup: a (actpass) / c (active) / p (passive)
+ * - fingerprint: base64 de los bytes; con prefijo `alg:` si no es sha-256
+ * - candidatos separados por coma: <h|s|r|p><dirección>:<puerto> (UDP);
+ *   un host mDNS `<uuid>.local` va como `~<uuid en base64url>`
+ *
+ * Lo que no entra en este molde (varias m-lines, otro sctp-port...) devuelve null y se manda entero.
+ */
+
+/** Tiempo máximo juntando candidatos antes de armar el QR (con los que haya). */
+export const GATHER_TIMEOUT_MS = 3000;
+
+/** Candidatos que se conservan por tipo: alcanza con uno o dos caminos de cada clase. */
+const KEEP: Record<string, number> = { host: 2, srflx: 2, relay: 1, prflx: 1 };
+const TYP_CODE: Record<string, string> = { host: "h", srflx: "s", relay: "r", prflx: "p" };
+const CODE_TYP: Record<string, string> = { h: "host", s: "srflx", r: "relay", p: "prflx" };
+// prioridades típicas de Chrome por tipo (menos el índice, para que no empaten)
+const PRIORITY: Record<string, number> = { host: 2122260223, srflx: 1686052607, relay: 41885439, prflx: 1845501695 };
+const SETUP_CODE: Record<string, string> = { actpass: "a", active: "c", passive: "p" };
+const CODE_SETUP: Record<string, string> = { a: "actpass", c: "active", p: "passive" };
+const SCTP_PORT = "5000";
+const MAX_MESSAGE_SIZE = 262144;
+
+type Candidate = { typ: string; address: string; port: string };
+
+function attr(lines: string[], name: string): string | undefined {
+  const prefix = `a=${name}:`;
+  return lines.find((l) => l.startsWith(prefix))?.slice(prefix.length).trim();
+}
+
+function parseCandidate(line: string): Candidate | null {
+  // candidate:<foundation> <component> <transport> <priority> <address> <port> typ <type> ...
+  const parts = line.replace(/^a=/, "").replace(/^candidate:/, "").trim().split(/\s+/);
+  if (parts.length < 8 || parts[6] !== "typ") return null;
+  const [, component, transport, , address, port, , typ] = parts;
+  if (component !== "1" || transport.toLowerCase() !== "udp" || !(typ in KEEP)) return null;
+  return { typ, address, port };
+}
+
+/** Se queda con los candidatos útiles: UDP, sin repetidos, IPv4 antes que IPv6 y un máximo por tipo. */
+export function pickCandidates(lines: string[]): Candidate[] {
+  const seen = new Set<string>();
+  const all = lines
+    .map(parseCandidate)
+    .filter((c): c is Candidate => {
+      if (!c) return false;
+      const id = `${c.typ} ${c.address} ${c.port}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  const v6 = (c: Candidate) => (c.address.includes(":") ? 1 : 0);
+  const count: Record<string, number> = {};
+  return [...all]
+    .sort((a, b) => v6(a) - v6(b))
+    .filter((c) => (count[c.typ] = (count[c.typ] ?? 0) + 1) <= KEEP[c.typ]);
+}
+
+const UUID_LOCAL = /^([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})\.local$/i;
+
+function b64url(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromB64url(text: string): number[] {
+  const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Array.from(bin, (ch) => ch.charCodeAt(0));
+}
+
+function hexBytes(hex: string): number[] {
+  return hex.match(/../g)!.map((h) => parseInt(h, 16));
+}
+
+function bytesHex(bytes: number[], sep = ""): string {
+  return bytes.map((b) => b.toString(16).padStart(2, "0")).join(sep);
+}
+
+function packAddress(address: string): string {
+  const m = UUID_LOCAL.exec(address);
+  return m ? `~${b64url(hexBytes(m.slice(1).join("").toLowerCase()))}` : address;
+}
+
+function unpackAddress(text: string): string {
+  if (!text.startsWith("~")) return text;
+  const hex = bytesHex(fromB64url(text.slice(1)));
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}.local`;
+}
+
+/** Offer/answer → formato compacto. null si la señal no es un offer/answer de un solo data channel. */
+export function compactSignal(signal: SignalData): string | null {
+  if (!("sdp" in signal) || !signal.sdp || (signal.type !== "offer" && signal.type !== "answer")) return null;
+  const lines = signal.sdp.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const media = lines.filter((l) => l.startsWith("m="));
+  if (media.length !== 1 || !/^m=application \d+ UDP\/DTLS\/SCTP webrtc-datachannel$/.test(media[0])) return null;
+
+  const ufrag = attr(lines, "ice-ufrag");
+  const pwd = attr(lines, "ice-pwd");
+  const setup = SETUP_CODE[attr(lines, "setup") ?? ""];
+  const mid = attr(lines, "mid");
+  const [alg, fp] = (attr(lines, "fingerprint") ?? "").split(/\s+/);
+  const sctpPort = attr(lines, "sctp-port");
+  if (!ufrag || !pwd || !setup || !mid || !fp || !/^([0-9A-F]{2}:)*[0-9A-F]{2}$/i.test(fp) || (sctpPort && sctpPort !== SCTP_PORT)) return null;
+  if ([ufrag, pwd, mid].some((v) => v.includes("|"))) return null;
+
+  const fingerprint = `${alg.toLowerCase() === "sha-256" ? "" : `${alg}:`}${b64url(hexBytes(fp.replace(/:/g, "")))}`;
+  const candidates = pickCandidates(lines.filter((l) => l.startsWith("a=candidate:")))
+    .map((c) => `${TYP_CODE[c.typ]}${packAddress(c.address)}:${c.port}`)
+    .join(",");
+  return [`${signal.type === "offer" ? "o" : "a"}${setup}`, ufrag, pwd, fingerprint, mid, candidates].join("|");
+}
+
+/** Formato compacto → offer/answer con un SDP completo que aceptan los navegadores. */
+export function expandSignal(text: string): SignalData {
+  const [head, ufrag, pwd, fingerprint, mid, candidates] = text.split("|");
+  const type = head?.[0] === "o" ? "offer" : head?.[0] === "a" ? "answer" : null;
+  const setup = CODE_SETUP[head?.[1] ?? ""];
+  if (!type || !setup || !ufrag || !pwd || !fingerprint || !mid || candidates === undefined) throw new Error("Señal compacta inválida");
+
+  const sep = fingerprint.lastIndexOf(":");
+  const alg = sep >= 0 ? fingerprint.slice(0, sep) : "sha-256";
+  const fp = bytesHex(fromB64url(fingerprint.slice(sep + 1)), ":").toUpperCase();
+
+  const cands = candidates
+    ? candidates.split(",").map((c, i) => {
+        const typ = CODE_TYP[c[0]];
+        const at = c.lastIndexOf(":");
+        if (!typ || at < 2) throw new Error("Señal compacta inválida");
+        const address = unpackAddress(c.slice(1, at));
+        return `a=candidate:${i + 1} 1 udp ${PRIORITY[typ] - i} ${address} ${c.slice(at + 1)} typ ${typ} generation 0`;
+      })
+    : [];
+
+  const sdp = [
+    "v=0",
+    "o=- 1 2 IN IP4 127.0.0.1",
+    "s=-",
+    "t=0 0",
+    `a=group:BUNDLE ${mid}`,
+    "a=msid-semantic: WMS",
+    "m=application 9 UDP/DTLS/SCTP webrtc-datachannel",
+    "c=IN IP4 0.0.0.0",
+    ...cands,
+    "a=end-of-candidates",
+    `a=ice-ufrag:${ufrag}`,
+    `a=ice-pwd:${pwd}`,
+    "a=ice-options:trickle",
+    `a=fingerprint:${alg} ${fp}`,
+    `a=setup:${setup}`,
+    `a=mid:${mid}`,
+    `a=sctp-port:${SCTP_PORT}`,
+    `a=max-message-size:${MAX_MESSAGE_SIZE}`,
+    "",
+  ].join("\r\n");
+  return { type, sdp };
+}
+
+/**
+ * Con trickle el peer emite el offer/answer enseguida y después los candidatos de a uno.
+ * Para un QR hace falta todo junto: se agregan los candidatos al SDP hasta que termina la
+ * recolección (`icegatheringstatechange` → complete) o pasa `ms`, y recién ahí se entrega la señal.
+ */
+export function gatherSignal(peer: PeerInstance, onReady: (signal: SignalData) => void, ms = GATHER_TIMEOUT_MS) {
+  let desc: { type: "offer" | "answer"; sdp: string } | null = null;
+  const candidates: string[] = [];
+  let done = false;
+  let gathered = false;
+  let expired = false;
+  // simple-peer no avisa en público el fin de la recolección: se escucha la conexión WebRTC
+  // (con addEventListener, sin pisar los handlers `on...` que usa simple-peer)
+  const pc = (peer as PeerInstance & { _pc?: RTCPeerConnection })._pc;
+  const onGathering = () => {
+    if (pc?.iceGatheringState !== "complete") return;
+    gathered = true;
+    finish();
+  };
+
+  const finish = () => {
+    if (done || !desc) return;
+    done = true;
+    window.clearTimeout(timer);
+    pc?.removeEventListener("icegatheringstatechange", onGathering);
+    const extra = candidates.map((c) => `a=${c}\r\n`).join("");
+    onReady({ type: desc.type, sdp: desc.sdp.replace(/\r?\n?$/, "\r\n") + extra });
+  };
+  const timer = window.setTimeout(() => {
+    expired = true;
+    finish();
+  }, ms);
+
+  peer.on("signal", (signal: SignalData) => {
+    if (done) return;
+    if ("candidate" in signal && signal.candidate) {
+      candidates.push(signal.candidate.candidate.replace(/^a=/, ""));
+    } else if ("sdp" in signal && signal.sdp && (signal.type === "offer" || signal.type === "answer")) {
+      desc = { type: signal.type, sdp: signal.sdp };
+      if (expired || gathered) finish();
+    }
+  });
+  // sin la conexión (u otra implementación) queda el tope de `ms`
+  pc?.addEventListener("icegatheringstatechange", onGathering);
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { appendEvent, replay, startLog, type GameCommand } from "./events";
+import { joinPlayer, makeGame } from "./rules";
+import { applyPatch, applySyncPatch, diffState } from "./sync";
+
+function logWith(cmds: GameCommand[]) {
+  let g = startLog(joinPlayer(makeGame(), "c1", "Ana", "new"), 0);
+  for (const cmd of cmds) {
+    const r = appendEvent(g.log, g.state, cmd, g.log.length);
+    if (!r.ok) throw new Error(r.reason);
+    g = r;
+  }
+  return g;
+}
+
+// un poco de todo: Tx nuevos, propiedades, jugadores, subasta y un deshacer (Tx revertidos)
+const CMDS: GameCommand[] = [
+  { k: "player_join", connId: "c2", name: "Beto", kind: "new" },
+  { k: "cash", from: "BANK", to: "ana", amount: 200, note: "Salida" },
+  { k: "property_transfer", propId: "P01", to: "ana", note: "Asignación" },
+  { k: "property_transfer", propId: "P02", to: "ana", note: "Asignación" },
+  { k: "build", propId: "P01" },
+  { k: "auction_open", propId: "T1" },
+  { k: "restore", to: 4 },
+  { k: "player_disconnect", connId: "c2" },
+];
+
+describe("diffState / applyPatch", () => {
+  it("cada parche entre versiones consecutivas reconstruye el estado siguiente", () => {
+    const g = logWith(CMDS);
+    for (let v = 0; v < g.log.length - 1; v++) {
+      const prev = replay(g.log, v);
+      const next = replay(g.log, v + 1);
+      const patch = diffState(prev, next);
+      expect(patch, `versión ${v} → ${v + 1}`).not.toBeNull();
+      expect(applyPatch(prev, patch!)).toEqual(next);
+    }
+  });
+
+  it("un parche desde una versión vieja también alcanza el estado actual", () => {
+    const g = logWith(CMDS);
+    const patch = diffState(replay(g.log, 1), g.state);
+    expect(applyPatch(replay(g.log, 1), patch!)).toEqual(g.state);
+  });
+
+  it("sin cambios el parche está vacío; de otra partida no hay parche", () => {
+    const g = logWith(CMDS);
+    expect(diffState(g.state, g.state)).toEqual({});
+    expect(diffState(g.state, makeGame())).toBeNull();
+  });
+
+  it("si se pierde un Tx ya enviado no hay parche (va el STATE completo)", () => {
+    const g = logWith(CMDS);
+    expect(diffState(g.state, { ...g.state, tx: g.state.tx.slice(1) })).toBeNull();
+  });
+});
+
+describe("applySyncPatch", () => {
+  const g = logWith(CMDS);
+  const at = (v: number) => ({ state: replay(g.log, v), version: v });
+  const msg = (from: number, to: number) => ({ from, to, patch: diffState(replay(g.log, from), replay(g.log, to))! });
+
+  it("aplica el parche que parte de la versión que tenemos", () => {
+    const res = applySyncPatch(at(2), msg(2, 3));
+    expect(res).toEqual({ ok: true, synced: at(3) });
+  });
+
+  it("con un hueco de versiones (o sin estado) pide RESYNC", () => {
+    expect(applySyncPatch(at(1), msg(2, 3))).toEqual({ ok: false, reason: "Falta la versión 2" });
+    expect(applySyncPatch(at(3), msg(2, 3)).ok).toBe(false);
+    expect(applySyncPatch(null, msg(2, 3)).ok).toBe(false);
+  });
+
+  it("un parche bien formado que deja un estado roto se descarta", () => {
+    const res = applySyncPatch(at(2), { from: 2, to: 3, patch: { rest: { bank: null as never } } });
+    expect(res.ok).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import type { GameState, StatePatch, Tx } from "./types";
+import { checkGameState } from "./validate";
+
+/**
+ * Sincronización incremental Banco → jugadores.
+ * La versión del estado es la posición en el log de eventos del Banco (monótona).
+ * Cada PATCH lleva `from`/`to`: si el jugador no está exactamente en `from`, pide RESYNC
+ * y el Banco le manda el STATE completo.
+ */
+
+function same(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Diferencia entre dos estados consecutivos. Devuelve null si no se puede expresar
+ * como parche (los Tx nuevos no quedaron adelante): en ese caso va un STATE completo.
+ */
+export function diffState(prev: GameState, next: GameState): StatePatch | null {
+  if (prev.gameId !== next.gameId) return null;
+
+  const prevTx = new Map(prev.tx.map((t) => [t.id, t]));
+  const added: Tx[] = [];
+  const updated: Tx[] = [];
+  let prefix = true;
+  for (const t of next.tx) {
+    const old = prevTx.get(t.id);
+    if (!old) {
+      if (!prefix) return null;
+      added.push(t);
+      continue;
+    }
+    prefix = false;
+    if (!same(old, t)) updated.push(t);
+  }
+  // se descartó algún Tx: no pasa hoy, mejor no adivinar
+  if (next.tx.length - added.length !== prev.tx.length) return null;
+
+  const patch: StatePatch = {};
+  if (added.length) patch.tx = added;
+  if (updated.length) patch.txUpdates = updated;
+
+  const players: StatePatch["players"] = {};
+  for (const [k, p] of Object.entries(next.players)) if (!same(prev.players[k], p)) players[k] = p;
+  if (Object.keys(players).length) patch.players = players;
+  const removed = Object.keys(prev.players).filter((k) => !next.players[k]);
+  if (removed.length) patch.removedPlayers = removed;
+
+  const props: StatePatch["props"] = {};
+  for (const [id, ps] of Object.entries(next.props)) if (!same(prev.props[id], ps)) props[id] = ps;
+  if (Object.keys(props).length) patch.props = props;
+
+  const rest: Record<string, unknown> = {};
+  for (const key of Object.keys(next) as Array<keyof GameState>) {
+    if (key === "players" || key === "props" || key === "tx") continue;
+    if (!same(prev[key], next[key])) rest[key] = next[key];
+  }
+  if (Object.keys(rest).length) patch.rest = rest as StatePatch["rest"];
+
+  return patch;
+}
+
+export function applyPatch(state: GameState, patch: StatePatch): GameState {
+  let tx = state.tx;
+  if (patch.txUpdates?.length) {
+    const upd = new Map(patch.txUpdates.map((t) => [t.id, t]));
+    tx = tx.map((t) => upd.get(t.id) ?? t);
+  }
+  if (patch.tx?.length) tx = [...patch.tx, ...tx];
+
+  const players = { ...state.players, ...patch.players };
+  for (const k of patch.removedPlayers ?? []) delete players[k];
+
+  return {
+    ...state,
+    ...patch.rest,
+    players,
+    props: { ...state.props, ...patch.props },
+    tx,
+  };
+}
+
+/** Jugador: último estado aplicado y su versión (los PATCH se aplican sobre esto). */
+export type Synced = { state: GameState; version: number };
+
+/**
+ * Jugador: aplica un PATCH del Banco. Falla (y hay que pedir RESYNC) si no parte de la versión
+ * que tenemos o si deja un estado roto, aunque el parche por sí solo esté bien formado.
+ */
+export function applySyncPatch(
+  cur: Synced | null,
+  msg: { from: number; to: number; patch: StatePatch }
+): { ok: true; synced: Synced } | { ok: false; reason: string } {
+  if (!cur || cur.version !== msg.from) return { ok: false, reason: `Falta la versión ${msg.from}` };
+  const state = applyPatch(cur.state, msg.patch);
+  const valid = checkGameState(state);
+  if (!valid.ok) return { ok: false, reason: valid.reason };
+  return { ok: true, synced: { state, version: msg.to } };
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { verifyLedger } from "./ledger";
+import { joinPlayer, makeGame, transferCash } from "./rules";
+import { applyTrade, canApplyTrade, proposeTrade, respondTrade } from "./trade";
+import type { GameState, TradeBundle } from "./types";
+
+// Tablero clásico: marrón P01-P02, rosa P06-P08, T1 (precio 200, hipoteca 100 → interés 10).
+
+function game(): GameState {
+  let s = makeGame();
+  s = joinPlayer(s, "c1", "Ana", "new");
+  s = joinPlayer(s, "c2", "Beto", "new");
+  return joinPlayer(s, "c3", "Carla", "new");
+}
+
+function own(state: GameState, owner: string, props: Record<string, { buildings?: number; mortgaged?: boolean }>): GameState {
+  const s = { ...state, props: { ...state.props } };
+  for (const [id, { buildings = 0, mortgaged = false }] of Object.entries(props)) {
+    s.props[id] = { ...s.props[id], owner, buildings, mortgaged };
+  }
+  return s;
+}
+
+function ok(res: { ok: true; state: GameState } | { ok: false; reason: string }): GameState {
+  if (!res.ok) throw new Error(res.reason);
+  return res.state;
+}
+
+const bundle = (cash: number, props: string[] = []): TradeBundle => ({ cash, props });
+
+describe("canApplyTrade", () => {
+  it("cada propiedad tiene que ser de quien la entrega", () => {
+    const s = own(game(), "ana", { T1: {} });
+    expect(canApplyTrade(s, { from: "beto", to: "ana", give: bundle(0, ["T1"]), get: bundle(100) })).toEqual({
+      ok: false,
+      reason: "Transporte 1 no es de Beto",
+    });
+  });
+
+  it("no se intercambian terrenos de un grupo con edificios de las partes", () => {
+    const s = own(game(), "ana", { P01: {}, P02: { buildings: 1 } });
+    const res = canApplyTrade(s, { from: "ana", to: "beto", give: bundle(0, ["P01"]), get: bundle(100) });
+    expect(res.ok).toBe(false);
+    expect(!res.ok && res.reason).toMatch(/primero vendé los edificios del grupo/);
+  });
+
+  it("los edificios de un tercero en el grupo no bloquean el intercambio", () => {
+    let s = own(game(), "ana", { P06: {} });
+    s = own(s, "carla", { P07: { buildings: 2 }, P08: {} });
+    expect(canApplyTrade(s, { from: "ana", to: "beto", give: bundle(0, ["P06"]), get: bundle(100) })).toEqual({ ok: true });
+  });
+
+  it("quien recibe una hipotecada tiene que poder pagar el interés", () => {
+    let s = own(game(), "ana", { T1: { mortgaged: true } });
+    s = transferCash(s, "beto", "BANK", 1495, "gastos"); // le quedan 5, el interés es 10
+    expect(canApplyTrade(s, { from: "ana", to: "beto", give: bundle(0, ["T1"]), get: bundle(0) })).toEqual({
+      ok: false,
+      reason: "Saldo insuficiente de Beto",
+    });
+  });
+});
+
+describe("applyTrade", () => {
+  it("mueve efectivo y propiedades, cobra el interés de la hipotecada y agrupa los Tx", () => {
+    let s = own(game(), "ana", { T1: { mortgaged: true } });
+    s = ok(proposeTrade(s, "ana", "beto", bundle(0, ["T1"]), bundle(150)));
+    const id = s.trades[0].id;
+
+    const out = ok(applyTrade(s, id));
+
+    expect(out.props.T1).toMatchObject({ owner: "beto", mortgaged: true });
+    expect(out.players.ana.balance).toBe(1500 + 150);
+    expect(out.players.beto.balance).toBe(1500 - 150 - 10);
+    expect(out.trades[0]).toMatchObject({ id, status: "applied" });
+    const fee = out.tx.find((t) => t.from === "beto" && t.to === "BANK");
+    expect(fee).toMatchObject({ amount: 10, propertyId: "T1", groupId: id });
+    expect(out.tx.slice(0, out.tx.length - s.tx.length).every((t) => t.groupId === id)).toBe(true);
+    expect(verifyLedger(out).ok).toBe(true);
+  });
+
+  it("es atómico: si una parte ya no puede pagar no se mueve nada", () => {
+    let s = own(game(), "ana", { T1: {} });
+    s = ok(proposeTrade(s, "ana", "beto", bundle(0, ["T1"]), bundle(300)));
+    const id = s.trades[0].id;
+    s = transferCash(s, "beto", "BANK", 1300, "renta");
+
+    expect(applyTrade(s, id)).toEqual({ ok: false, reason: "Saldo insuficiente de Beto" });
+    expect(applyTrade({ ...s, trades: [] }, id)).toEqual({ ok: false, reason: "Esa propuesta ya no está pendiente" });
+  });
+});
+
+describe("respondTrade", () => {
+  it("aceptar una propuesta que ya no se puede aplicar la cierra como fallida", () => {
+    let s = own(game(), "ana", { T1: {} });
+    s = ok(proposeTrade(s, "ana", "beto", bundle(0, ["T1"]), bundle(300)));
+    const id = s.trades[0].id;
+    s = transferCash(s, "beto", "BANK", 1300, "renta");
+    const before = s.tx.length;
+
+    const out = ok(respondTrade(s, "beto", id, "accept"));
+
+    expect(out.trades[0]).toMatchObject({ id, status: "failed", reason: "Saldo insuficiente de Beto" });
+    expect(out.props.T1.owner).toBe("ana");
+    expect(out.tx).toHaveLength(before);
+  });
+
+  it("solo el destinatario acepta o rechaza y solo quien propone cancela", () => {
+    let s = own(game(), "ana", { T1: {} });
+    s = ok(proposeTrade(s, "ana", "beto", bundle(0, ["T1"]), bundle(100)));
+    const id = s.trades[0].id;
+    expect(respondTrade(s, "carla", id, "accept")).toEqual({ ok: false, reason: "La propuesta no es para vos" });
+    expect(respondTrade(s, "beto", id, "cancel")).toEqual({ ok: false, reason: "Solo quien propone puede cancelar" });
+    expect(ok(respondTrade(s, "beto", id, "reject")).trades[0].status).toBe("rejected");
+  });
+});
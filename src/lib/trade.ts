@@ -0,0 +1,176 @@
+import {
+  addTx,
+  clampMoney,
+  formatRate,
+  getDef,
+  groupProps,
+  mortgageInterest,
+  newId,
+  now,
+  playerDisplay,
+  transferCash,
+  transferProperty,
+  type RuleResult,
+} from "./rules";
+import type { GameState, PlayerKey, TradeBundle, TradeOffer } from "./types";
+
+/** Cuántas propuestas cerradas se conservan (las pendientes nunca se descartan). */
+const RESOLVED_KEEP = 20;
+
+function pruneResolved(list: TradeOffer[]): TradeOffer[] {
+  let kept = 0;
+  return list.filter((t) => t.status === "pending" || kept++ < RESOLVED_KEEP);
+}
+
+function cleanBundle(b: TradeBundle): TradeBundle {
+  return { cash: Math.max(0, clampMoney(b.cash)), props: [...new Set(b.props)] };
+}
+
+export function isEmptyBundle(b: TradeBundle): boolean {
+  return b.cash <= 0 && b.props.length === 0;
+}
+
+/** Interés que paga quien recibe cada propiedad hipotecada (regla oficial: 10%). */
+export function mortgageFees(state: GameState, props: string[]): number {
+  return props.filter((id) => state.props[id]?.mortgaged).reduce((acc, id) => acc + mortgageInterest(state, id), 0);
+}
+
+/**
+ * Validación del intercambio completo:
+ * - cada propiedad es de quien la entrega
+ * - ningún terreno del grupo en manos de las dos partes tiene edificios (regla oficial)
+ * - cada parte cubre su efectivo + el interés de las hipotecadas que recibe
+ */
+export function canApplyTrade(state: GameState, t: Pick<TradeOffer, "from" | "to" | "give" | "get">): { ok: true } | { ok: false; reason: string } {
+  const a = state.players[t.from];
+  const b = state.players[t.to];
+  if (!a || !b) return { ok: false, reason: "Jugador inexistente" };
+  if (t.from === t.to) return { ok: false, reason: "No podés intercambiar con vos mismo" };
+  if (isEmptyBundle(t.give) && isEmptyBundle(t.get)) return { ok: false, reason: "Intercambio vacío" };
+
+  const parties = new Set<PlayerKey>([t.from, t.to]);
+  const sides: Array<[PlayerKey, string[]]> = [
+    [t.from, t.give.props],
+    [t.to, t.get.props],
+  ];
+  for (const [owner, props] of sides) {
+    for (const id of props) {
+      const def = getDef(state, id);
+      if (!def || !state.props[id]) return { ok: false, reason: "Propiedad inexistente" };
+      if (state.props[id].owner !== owner) return { ok: false, reason: `${def.label} no es de ${playerDisplay(state, owner)}` };
+      const built = (x: string) => state.props[x]?.buildings > 0 && parties.has(state.props[x].owner ?? "");
+      if (def.kind === "street" && groupProps(state, def.group).some(built)) {
+        return { ok: false, reason: `${def.label}: primero vendé los edificios del grupo` };
+      }
+    }
+  }
+
+  const aAfter = a.balance - t.give.cash + t.get.cash - mortgageFees(state, t.get.props);
+  const bAfter = b.balance - t.get.cash + t.give.cash - mortgageFees(state, t.give.props);
+  if (a.balance < t.give.cash || aAfter < 0) return { ok: false, reason: `Saldo insuficiente de ${a.name}` };
+  if (b.balance < t.get.cash || bAfter < 0) return { ok: false, reason: `Saldo insuficiente de ${b.name}` };
+
+  return { ok: true };
+}
+
+/** Registra una propuesta (o contraoferta, que cierra la original). */
+export function proposeTrade(
+  state: GameState,
+  from: PlayerKey,
+  to: PlayerKey,
+  give: TradeBundle,
+  get: TradeBundle,
+  counterOf?: string
+): RuleResult {
+  const offer = { from, to, give: cleanBundle(give), get: cleanBundle(get) };
+  const chk = canApplyTrade(state, offer);
+  if (!chk.ok) return chk;
+
+  let trades = state.trades;
+  if (counterOf) {
+    const orig = trades.find((t) => t.id === counterOf);
+    if (!orig || orig.status !== "pending" || orig.to !== from) return { ok: false, reason: "Esa propuesta ya no está pendiente" };
+    trades = trades.map((t) => (t.id === counterOf ? { ...t, status: "countered" as const, resolvedAt: now() } : t));
+  }
+
+  const entry: TradeOffer = { id: newId(8), ts: now(), ...offer, status: "pending", counterOf };
+  return { ok: true, state: { ...state, trades: pruneResolved([entry, ...trades]) } };
+}
+
+function close(state: GameState, id: string, patch: Partial<TradeOffer>): GameState {
+  return {
+    ...state,
+    trades: pruneResolved(state.trades.map((t) => (t.id === id ? { ...t, ...patch, resolvedAt: now() } : t))),
+  };
+}
+
+/**
+ * Aplica el intercambio de forma atómica: o se mueve todo o nada.
+ * Todos los Tx comparten `groupId` = id del intercambio.
+ */
+export function applyTrade(state: GameState, id: string): RuleResult {
+  const t = state.trades.find((x) => x.id === id);
+  if (!t || t.status !== "pending") return { ok: false, reason: "Esa propuesta ya no está pendiente" };
+
+  const chk = canApplyTrade(state, t);
+  if (!chk.ok) return { ok: false, reason: chk.reason };
+
+  const extra = { groupId: t.id };
+  let s = state;
+  const order = (ids: string[]) => state.board.props.map((d) => d.id).filter((x) => ids.includes(x));
+
+  if (t.give.cash > 0) s = transferCash(s, t.from, t.to, t.give.cash, "Intercambio (efectivo)", extra);
+  if (t.get.cash > 0) s = transferCash(s, t.to, t.from, t.get.cash, "Intercambio (efectivo)", extra);
+
+  const moves: Array<[string[], PlayerKey]> = [
+    [order(t.give.props), t.to],
+    [order(t.get.props), t.from],
+  ];
+  for (const [ids, receiver] of moves) {
+    for (const pid of ids) {
+      const mortgaged = s.props[pid].mortgaged;
+      s = transferProperty(s, pid, receiver, "Intercambio", extra);
+      if (mortgaged) {
+        const note = `Interés ${formatRate(s.rules.mortgageInterest)} por recibir propiedad hipotecada`;
+        s = transferCash(s, receiver, "BANK", mortgageInterest(s, pid), note, {
+          ...extra,
+          propertyId: pid,
+        });
+      }
+    }
+  }
+
+  s = addTx(s, {
+    type: "trade",
+    from: t.from,
+    to: t.to,
+    groupId: t.id,
+    note: `Intercambio: ${playerDisplay(s, t.from)} ⇄ ${playerDisplay(s, t.to)}`,
+  });
+
+  return { ok: true, state: close(s, id, { status: "applied" }) };
+}
+
+/** Respuesta de un jugador a una propuesta (aceptar aplica el intercambio en el acto). */
+export function respondTrade(state: GameState, player: PlayerKey, id: string, action: "accept" | "reject" | "cancel"): RuleResult {
+  const t = state.trades.find((x) => x.id === id);
+  if (!t || t.status !== "pending") return { ok: false, reason: "Esa propuesta ya no está pendiente" };
+
+  if (action === "cancel") {
+    if (t.from !== player) return { ok: false, reason: "Solo quien propone puede cancelar" };
+    return { ok: true, state: close(state, id, { status: "cancelled" }) };
+  }
+  if (t.to !== player) return { ok: false, reason: "La propuesta no es para vos" };
+  if (action === "reject") return { ok: true, state: close(state, id, { status: "rejected" }) };
+
+  const res = applyTrade(state, id);
+  if (!res.ok) return { ok: true, state: close(state, id, { status: "failed", reason: res.reason }) };
+  return res;
+}
+
+/** El Banco puede anular cualquier propuesta pendiente. */
+export function cancelTrade(state: GameState, id: string, reason = "Anulada por el Banco"): GameState {
+  const t = state.trades.find((x) => x.id === id);
+  if (!t || t.status !== "pending") return state;
+  return close(state, id, { status: "cancelled", reason });
+}
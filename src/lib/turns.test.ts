@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { verifyLedger } from "./ledger";
+import { joinPlayer, makeGame, transferCash } from "./rules";
+import { JAIL_MAX_TURNS, MAX_DOUBLES, giveJailCard, nextTurn, payBail, recordRoll, sendToJail, useJailCard } from "./turns";
+import type { GameState } from "./types";
+
+function ok(res: { ok: true; state: GameState } | { ok: false; reason: string }): GameState {
+  if (!res.ok) throw new Error(res.reason);
+  return res.state;
+}
+
+/** Ana, Beto y Carla; arrancó la partida y juega Ana. */
+function game(): GameState {
+  let s = makeGame();
+  for (const [i, name] of ["Ana", "Beto", "Carla"].entries()) s = joinPlayer(s, `c${i}`, name, "new");
+  return ok(nextTurn(s));
+}
+
+const roll = (s: GameState, doubles: boolean) => ok(recordRoll(s, doubles));
+
+describe("recordRoll", () => {
+  it("los dobles suman a la racha y con el tercero va preso y pasa el turno", () => {
+    let s = roll(game(), true);
+    expect(s.turn).toMatchObject({ current: "ana", doubles: 1 });
+    s = roll(s, true);
+    expect(s.turn.doubles).toBe(MAX_DOUBLES - 1);
+
+    s = roll(s, true);
+    expect(s.players.ana.jail).toEqual({ turns: 0 });
+    expect(s.turn).toMatchObject({ current: "beto", doubles: 0, number: 2 });
+  });
+
+  it("una tirada sin dobles corta la racha", () => {
+    const s = roll(roll(game(), true), false);
+    expect(s.turn).toMatchObject({ current: "ana", doubles: 0 });
+  });
+
+  it("preso: cuenta los turnos sin dobles y sale con dobles sin volver a tirar", () => {
+    let s = ok(sendToJail(game(), "ana"));
+    s = roll(s, false);
+    expect(s.players.ana.jail).toEqual({ turns: 1 });
+    s = roll(s, true);
+    expect(s.players.ana).not.toHaveProperty("jail");
+    expect(s.turn.doubles).toBe(0);
+  });
+
+  it("al tercer turno sin dobles paga la fianza aunque quede en negativo y sale", () => {
+    let s = ok(sendToJail(game(), "ana"));
+    s = transferCash(s, "ana", "BANK", 1480, "gastos"); // le quedan 20, la fianza es 50
+    for (let i = 1; i < JAIL_MAX_TURNS; i++) s = roll(s, false);
+    expect(s.players.ana.jail).toEqual({ turns: JAIL_MAX_TURNS - 1 });
+
+    s = roll(s, false);
+    expect(s.players.ana).not.toHaveProperty("jail");
+    expect(s.players.ana.balance).toBe(20 - 50);
+    expect(s.tx[0]).toMatchObject({ from: "ana", to: "BANK", amount: 50, tag: "fine" });
+    expect(verifyLedger(s).ok).toBe(true);
+  });
+
+  it("sin jugador de turno no hay tirada", () => {
+    expect(recordRoll(makeGame(), true)).toEqual({ ok: false, reason: "No hay jugador de turno" });
+  });
+});
+
+describe("payBail / useJailCard / giveJailCard", () => {
+  it("la fianza voluntaria necesita saldo", () => {
+    let s = ok(sendToJail(game(), "beto"));
+    expect(payBail(s, "ana")).toEqual({ ok: false, reason: "Ana no está en la cárcel" });
+
+    const poor = transferCash(s, "beto", "BANK", 1460, "gastos");
+    expect(payBail(poor, "beto")).toEqual({ ok: false, reason: "Saldo insuficiente para la fianza" });
+
+    s = ok(payBail(s, "beto"));
+    expect(s.players.beto).not.toHaveProperty("jail");
+    expect(s.players.beto.balance).toBe(1450);
+  });
+
+  it("la tarjeta saca de la cárcel y vuelve al mazo", () => {
+    let s = ok(sendToJail(game(), "beto"));
+    expect(useJailCard(s, "beto")).toEqual({ ok: false, reason: "Beto no tiene tarjetas para salir de la cárcel" });
+
+    s = ok(giveJailCard(s, "beto"));
+    s = ok(giveJailCard(s, "carla"));
+    expect(giveJailCard(s, "ana")).toEqual({ ok: false, reason: "Las dos tarjetas ya están repartidas" });
+
+    s = ok(useJailCard(s, "beto"));
+    expect(s.players.beto).not.toHaveProperty("jail");
+    expect(s.players.beto.jailCards).toBe(0);
+    expect(s.players.beto.balance).toBe(1500);
+    expect(giveJailCard(s, "ana").ok).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+import { transferCash, type RuleResult } from "./rules";
+import type { GameState, Player, PlayerKey, TurnState } from "./types";
+
+/** Dobles seguidos que mandan a la cárcel. */
+export const MAX_DOUBLES = 3;
+/** Al tercer turno sin dobles en la cárcel se paga la fianza y se sale. */
+export const JAIL_MAX_TURNS = 3;
+/** Tarjetas "Salir de la cárcel" en el juego (una por mazo). */
+export const MAX_JAIL_CARDS = 2;
+
+/** Orden guardado + los que entraron después (incluye a los que ya no están, para ubicar al de turno). */
+function fullOrder(state: GameState): PlayerKey[] {
+  const seen = new Set(state.turn.order);
+  return [...state.turn.order, ...Object.keys(state.players).filter((k) => !seen.has(k))];
+}
+
+/** Jugadores en el orden en que juegan. */
+export function turnOrder(state: GameState): PlayerKey[] {
+  return fullOrder(state).filter((k) => state.players[k]);
+}
+
+/** Jugador de turno (null si no arrancó o si el de turno quebró y todavía no se pasó). */
+export function currentTurn(state: GameState): PlayerKey | null {
+  const k = state.turn.current;
+  return k && state.players[k] ? k : null;
+}
+
+/** Quién sigue después del de turno (el primero si no arrancó). */
+export function nextInTurn(state: GameState): PlayerKey | null {
+  const all = fullOrder(state);
+  const i = state.turn.current ? all.indexOf(state.turn.current) : -1;
+  for (let j = 1; j <= all.length; j++) {
+    const k = all[(i + j) % all.length];
+    if (state.players[k]) return k;
+  }
+  return null;
+}
+
+export function jailCardsInPlay(state: GameState): number {
+  return Object.values(state.players).reduce((n, p) => n + (p.jailCards ?? 0), 0);
+}
+
+function withTurn(state: GameState, patch: Partial<TurnState>): GameState {
+  return { ...state, turn: { ...state.turn, ...patch } };
+}
+
+function withPlayer(state: GameState, key: PlayerKey, patch: Partial<Player>): GameState {
+  const p = { ...state.players[key], ...patch };
+  if (!p.jail) delete p.jail;
+  return { ...state, players: { ...state.players, [key]: p } };
+}
+
+/** Orden de juego elegido por el Banco: tiene que incluir a todos los jugadores, una vez cada uno. */
+export function setTurnOrder(state: GameState, order: PlayerKey[]): RuleResult {
+  const keys = Object.keys(state.players);
+  if (new Set(order).size !== order.length) return { ok: false, reason: "Hay jugadores repetidos en el orden" };
+  if (order.length !== keys.length || !order.every((k) => state.players[k])) {
+    return { ok: false, reason: "El orden tiene que incluir a todos los jugadores" };
+  }
+  return { ok: true, state: withTurn(state, { order }) };
+}
+
+/** Pasa el turno al siguiente jugador (o arranca la partida con el primero). */
+export function nextTurn(state: GameState): RuleResult {
+  const next = nextInTurn(state);
+  if (!next) return { ok: false, reason: "No hay jugadores" };
+  return { ok: true, state: withTurn(state, { current: next, number: state.turn.number + 1, doubles: 0 }) };
+}
+
+/**
+ * Tirada del jugador de turno (el Banco anota si fueron dobles):
+ * - libre: dobles suma a la racha (vuelve a tirar); con la tercera va preso y pasa el turno.
+ * - preso: dobles lo libera (sin volver a tirar); si no, suma un turno fallido
+ *   y al tercero paga la fianza (aunque quede en negativo) y sale.
+ */
+export function recordRoll(state: GameState, doubles: boolean): RuleResult {
+  const key = currentTurn(state);
+  if (!key) return { ok: false, reason: "No hay jugador de turno" };
+  const jail = state.players[key].jail;
+
+  if (jail) {
+    if (doubles) return { ok: true, state: withPlayer(withTurn(state, { doubles: 0 }), key, { jail: undefined }) };
+    const turns = jail.turns + 1;
+    if (turns < JAIL_MAX_TURNS) return { ok: true, state: withPlayer(state, key, { jail: { turns } }) };
+    const paid = transferCash(state, key, "BANK", state.rules.jailBail, `Fianza obligatoria (turno ${turns} en la cárcel)`, { tag: "fine" });
+    return { ok: true, state: withPlayer(paid, key, { jail: undefined }) };
+  }
+
+  if (!doubles) return { ok: true, state: withTurn(state, { doubles: 0 }) };
+  const streak = state.turn.doubles + 1;
+  if (streak < MAX_DOUBLES) return { ok: true, state: withTurn(state, { doubles: streak }) };
+  const jailed = withPlayer(withTurn(state, { doubles: 0 }), key, { jail: { turns: 0 } });
+  return nextTurn(jailed);
+}
+
+/** Va preso (casillero, tarjeta o decisión del Banco). Si era su turno, se corta la racha de dobles. */
+export function sendToJail(state: GameState, player: PlayerKey): RuleResult {
+  const p = state.players[player];
+  if (!p) return { ok: false, reason: "Jugador inexistente" };
+  if (p.jail) return { ok: false, reason: `${p.name} ya está en la cárcel` };
+  const s = currentTurn(state) === player ? withTurn(state, { doubles: 0 }) : state;
+  return { ok: true, state: withPlayer(s, player, { jail: { turns: 0 } }) };
+}
+
+/** Sale de la cárcel pagando la fianza (antes de tirar). */
+export function payBail(state: GameState, player: PlayerKey): RuleResult {
+  const p = state.players[player];
+  if (!p) return { ok: false, reason: "Jugador inexistente" };
+  if (!p.jail) return { ok: false, reason: `${p.name} no está en la cárcel` };
+  const bail = state.rules.jailBail;
+  if (p.balance < bail) return { ok: false, reason: "Saldo insuficiente para la fianza" };
+  const paid = transferCash(state, player, "BANK", bail, "Fianza de la cárcel", { tag: "fine" });
+  return { ok: true, state: withPlayer(paid, player, { jail: undefined }) };
+}
+
+/** Sale de la cárcel con una tarjeta (vuelve al mazo). */
+export function useJailCard(state: GameState, player: PlayerKey): RuleResult {
+  const p = state.players[player];
+  if (!p) return { ok: false, reason: "Jugador inexistente" };
+  if (!p.jail) return { ok: false, reason: `${p.name} no está en la cárcel` };
+  if (!p.jailCards) return { ok: false, reason: `${p.name} no tiene tarjetas para salir de la cárcel` };
+  return { ok: true, state: withPlayer(state, player, { jail: undefined, jailCards: p.jailCards - 1 }) };
+}
+
+/** El jugador sacó una tarjeta "Salir de la cárcel" del mazo. */
+export function giveJailCard(state: GameState, player: PlayerKey): RuleResult {
+  const p = state.players[player];
+  if (!p) return { ok: false, reason: "Jugador inexistente" };
+  if (jailCardsInPlay(state) >= MAX_JAIL_CARDS) return { ok: false, reason: "Las dos tarjetas ya están repartidas" };
+  return { ok: true, state: withPlayer(state, player, { jailCards: (p.jailCards ?? 0) + 1 }) };
+}
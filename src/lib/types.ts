@@ -1,3 +1,6 @@
+import type { SignalData } from "simple-peer";
+import type { BankHandoff } from "./handoff";
+
 export type Role = "bank" | "player";
 
 /** Conexión WebRTC específica (puede cambiar en reconexiones) */
@@ -8,24 +11,38 @@ export type PlayerKey = string;
 
 export type PropertyKind = "street" | "rail" | "utility";
 
-export type PropertyGroup =
-  | "brown"
-  | "lightblue"
-  | "pink"
-  | "orange"
-  | "red"
-  | "yellow"
-  | "green"
-  | "blue"
-  | "neutral_black"
-  | "neutral_gray";
+/** Id de un grupo del tablero (ver GroupDef). */
+export type PropertyGroup = string;
 
 export type PropertyDef = {
   id: string;
   kind: PropertyKind;
   group: PropertyGroup;
   price: number;
-  label: string; // genérico
+  /**
+   * Tabla de renta según kind:
+   * - street: [base, 1 casa, 2, 3, 4, hotel]
+   * - rail: por cantidad de transportes del dueño [1, 2, 3, 4]
+   * - utility: multiplicador de dados por cantidad de servicios del dueño [1, 2]
+   */
+  rent: number[];
+  label: string;
+};
+
+/** Grupo de color: sus terrenos se construyen juntos. Transportes y servicios van en grupos propios. */
+export type GroupDef = {
+  id: PropertyGroup;
+  label: string;
+  color: string; // #rrggbb
+  buildCost: number; // casa u hotel (0 en grupos sin terrenos)
+};
+
+/** Edición del tablero: viaja dentro de la partida, así todos ven los mismos nombres y precios. */
+export type BoardDef = {
+  id: string;
+  name: string;
+  groups: GroupDef[];
+  props: PropertyDef[];
 };
 
 export type PropertyState = {
@@ -41,6 +58,22 @@ export type Player = {
   connId: ConnId | null;
   connected: boolean;
   balance: number;
+  // clave pública del dispositivo (ver session.ts); sin ella, cualquiera con el nombre podía reconectarse
+  publicKey?: string;
+  jail?: JailState; // sin este campo está libre
+  jailCards?: number; // tarjetas "Salir de la cárcel" en la mano
+};
+
+export type JailState = {
+  turns: number; // turnos fallidos (sin dobles) cumplidos en la cárcel
+};
+
+/** Turnos: lo anota el Banco (los dados son físicos); sincroniza a todos quién juega. */
+export type TurnState = {
+  order: PlayerKey[]; // orden de juego (los que entran después van al final; los quebrados se saltean)
+  current: PlayerKey | null; // null: todavía no arrancó
+  number: number; // turnos jugados
+  doubles: number; // dobles seguidos del jugador de turno
 };
 
 export type TxType =
@@ -52,23 +85,64 @@ export type TxType =
   | "sell_build"
   | "bankruptcy_player"
   | "bankruptcy_bank"
-  | "auction";
+  | "auction"
+  | "trade"
+  | "revert"; // deshacer/rehacer/volver atrás: los saldos vuelven a los de `revertTo`
+
+/** Motivo de un pago al Banco que con Free Parking va al pozo. */
+export type CashTag = "tax" | "fine";
+
+/** Acción frecuente del Banco con nombre (cobrar la salida, impuestos, fianza...): un toque en vez del formulario. */
+export type BankAction = {
+  id: string;
+  label: string;
+  dir: "to_player" | "to_bank"; // quién cobra: el jugador (el Banco le paga) o el Banco
+  amount: number;
+  netWorthPct?: number; // fracción del patrimonio del jugador; junto con `amount` se usa lo menor de los dos
+  tag?: CashTag; // solo pagos al Banco (con Free Parking van al pozo)
+};
 
 export type Tx = {
   id: string;
   ts: number;
   type: TxType;
-  from: string; // PlayerKey | "BANK"
-  to: string; // PlayerKey | "BANK"
+  from: string; // PlayerKey | "BANK" | "POT"
+  to: string; // PlayerKey | "BANK" | "POT"
   note: string;
   amount?: number;
+  tag?: CashTag;
+  action?: string; // BankAction.id que lo generó
   propertyId?: string;
+  groupId?: string; // agrupa los movimientos de una misma operación (ej: intercambio)
+  reverted?: boolean; // deshecho por el Banco (queda en el registro, sin efecto)
+  seq?: number; // evento del log que lo generó
+  // ledger encadenado (ver ledger.ts)
+  prevHash?: string;
+  hash?: string;
+  balances?: Record<PlayerKey, number>; // saldos después del movimiento
+  revertTo?: string; // solo "revert": hash del Tx cuyo estado se restauró
+};
+
+/** Reglas de la casa: se eligen al crear la partida y no cambian durante ella (ver DEFAULT_RULES). */
+export type GameRules = {
+  startingCash: number;
+  // piezas en la caja (casas/hoteles del Banco + los del tablero)
+  totalHouses: number;
+  totalHotels: number;
+  mortgageRatio: number; // fracción del precio que paga el Banco al hipotecar
+  mortgageInterest: number; // fracción del valor hipotecario que se cobra al levantar o recibir una hipotecada
+  evenBuild: boolean; // construir y vender parejo dentro del grupo
+  unlimitedBuildings: boolean; // el Banco nunca se queda sin casas/hoteles (no hay escasez)
+  freeParking: boolean; // impuestos y multas van a un pozo que cobra quien cae en Free Parking
+  bankActions: BankAction[]; // catálogo de acciones rápidas del Banco (también las pueden pedir los jugadores)
+  jailBail: number; // fianza para salir de la cárcel (obligatoria al tercer turno fallido)
 };
 
 export type GameState = {
   gameId: string;
   createdAt: number;
-  startingCash: number;
+  rules: GameRules;
+  board: BoardDef;
   players: Record<PlayerKey, Player>;
   props: Record<string, PropertyState>;
   tx: Tx[];
@@ -77,15 +151,143 @@ export type GameState = {
     housesAvailable: number;
     hotelsAvailable: number;
   };
+  // pozo de Free Parking ("POT" en los Tx); solo recibe dinero con rules.freeParking
+  pot: number;
   // propiedades a subastar (cuando alguien quiebra al banco)
   auctionQueue: string[];
+  // solicitudes de pago de jugadores (esperan aprobación del Banco)
+  requests: PayRequest[];
+  // jugadores que quieren construir (para detectar escasez)
+  buildDemand: BuildDemand[];
+  // subasta de casas/hoteles cuando la demanda supera el inventario
+  shortage: ShortageAuction | null;
+  // subasta en vivo de una propiedad (una a la vez)
+  auction: LiveAuction | null;
+  // propuestas de intercambio entre jugadores
+  trades: TradeOffer[];
+  turn: TurnState;
+};
+
+export type TradeBundle = {
+  cash: number;
+  props: string[];
+};
+
+export type TradeStatus = "pending" | "rejected" | "countered" | "cancelled" | "applied" | "failed";
+
+export type TradeOffer = {
+  id: string;
+  ts: number;
+  from: PlayerKey; // quien propone
+  to: PlayerKey; // contraparte
+  give: TradeBundle; // from → to
+  get: TradeBundle; // to → from
+  status: TradeStatus;
+  counterOf?: string; // contraoferta de otra propuesta
+  resolvedAt?: number;
+  reason?: string;
+};
+
+export type AuctionBid = {
+  player: PlayerKey;
+  amount: number;
+  ts: number;
+};
+
+export type LiveAuction = {
+  id: string;
+  propId: string;
+  source: "queue" | "declined"; // cola de bancarrota o jugador que no quiso comprar
+  openedAt: number;
+  bids: AuctionBid[]; // la última es la mejor
+  closesAt: number | null; // cuenta regresiva iniciada por el Banco
+};
+
+export type BuildKind = "house" | "hotel";
+
+export type BuildDemand = {
+  player: PlayerKey;
+  propId: string; // dónde construiría
+  kind: BuildKind;
+  ts: number;
+};
+
+export type ShortageAuction = {
+  id: string;
+  kind: BuildKind;
+  openedAt: number;
+  bids: Record<PlayerKey, number>; // mejor oferta de cada jugador con demanda
+};
+
+export type PayRequestStatus = "pending" | "approved" | "rejected";
+
+export type PayRequest = {
+  id: string;
+  ts: number;
+  by: PlayerKey; // quien envió la solicitud
+  from: string; // quien paga: PlayerKey | "BANK" (acción del catálogo que paga el Banco)
+  to: string; // PlayerKey | "BANK"
+  amount: number;
+  note: string;
+  tag?: CashTag; // impuesto/multa al Banco (con Free Parking va al pozo)
+  action?: string; // BankAction.id (el monto se calculó al pedirla)
+  propertyId?: string; // solicitudes de renta
+  dice?: number; // renta de un servicio: total de dados (la renta se recalcula al aprobar)
+  status: PayRequestStatus;
+  resolvedAt?: number;
+  reason?: string; // motivo de rechazo
+};
+
+/** Cambios entre dos versiones consecutivas del estado (ver sync.ts). */
+export type StatePatch = {
+  tx?: Tx[]; // Tx nuevos, el más nuevo primero (van adelante)
+  txUpdates?: Tx[]; // Tx existentes que cambiaron (ej: marcados revertidos)
+  players?: Record<PlayerKey, Player>; // nuevos o modificados
+  removedPlayers?: PlayerKey[];
+  props?: Record<string, PropertyState>;
+  rest?: Partial<Omit<GameState, "players" | "props" | "tx">>; // resto de campos que cambiaron
 };
 
 export type NetMsg =
-  | { t: "HELLO"; connId: ConnId; name: string }
-  | { t: "STATE"; state: GameState }
+  // `gameId`/`version`: último estado que el jugador tenía, para re-sincronizar con un PATCH al reconectar
+  // `resume`: token del último WELCOME; si es válido el Banco reengancha al jugador sin aprobación
+  | {
+      t: "HELLO";
+      connId: ConnId;
+      name: string;
+      pub?: string;
+      sig?: string;
+      gameId?: string;
+      version?: number;
+      resume?: { key: PlayerKey; token: string };
+    }
+  | { t: "WELCOME"; key: PlayerKey; token: string } // aceptado: token para reconectar (ver reconnect.ts)
+  | { t: "STATE"; state: GameState; version?: number; ledgerSig?: string } // firma de la cabeza del ledger con la clave de la partida
+  | { t: "PATCH"; from: number; to: number; patch: StatePatch; ledgerSig?: string }
+  | { t: "RESYNC"; version: number | null } // jugador: PATCH fuera de secuencia, mandame el STATE completo
   | { t: "REJECT"; reason: string }
-  | { t: "REQUEST"; connId: ConnId; req: PlayerRequest };
+  | { t: "REQUEST"; connId: ConnId; req: PlayerRequest }
+  | { t: "REQUEST_RESULT"; requestId: string; status: "approved" | "rejected"; reason?: string }
+  | { t: "NOTICE"; text: string; warn?: boolean }
+  | { t: "BID"; connId: ConnId; auctionId: string; amount: number }
+  | { t: "BID_RESULT"; auctionId: string; ok: boolean; reason?: string }
+  // enlace directo entre jugadores; el Banco reenvía la señalización cambiando `peer` por el remitente
+  | { t: "MESH"; op: "link"; peer: PlayerKey } // Banco: iniciá un enlace con `peer`
+  | { t: "MESH"; op: "signal"; peer: PlayerKey; signal: SignalData }
+  | { t: "MESH"; op: "lost"; peer: PlayerKey } // jugador: se cortó el enlace con `peer`
+  // reconexión por un compañero: offer jugador → compañero → Banco, answer/fail de vuelta por el mismo camino
+  | { t: "RESUME"; op: "offer"; key: PlayerKey; token: string; signal: SignalData }
+  | { t: "RESUME"; op: "answer"; key: PlayerKey; connId: ConnId; signal: SignalData }
+  | { t: "RESUME"; op: "fail"; key: PlayerKey; reason: string }
+  | { t: "HANDOFF"; handoff: BankHandoff } // el Banco le pasa la partida a este jugador (ver handoff.ts)
+  | { t: "BANK_MOVED" }; // el Banco se mudó de dispositivo: escanear un Offer del nuevo
 
 export type PlayerRequest =
-  | { k: "PAY"; toName: string; amount: number; note?: string };
+  | { k: "PAY"; toName: string; amount: number; note?: string; tag?: CashTag }
+  | { k: "RENT"; propId: string; payer: PlayerKey; dice?: number }
+  | { k: "BANK_ACTION"; actionId: string } // acción del catálogo para uno mismo (la aprueba el Banco)
+  | { k: "JAIL_OUT"; how: "bail" | "card" } // salir de la cárcel pagando la fianza o con una tarjeta
+  | { k: "BUILD_DEMAND"; propId: string | null } // null = retirar demanda
+  | { k: "SHORTAGE_BID"; amount: number }
+  | { k: "TRADE_PROPOSE"; to: PlayerKey; give: TradeBundle; get: TradeBundle; counterOf?: string }
+  | { k: "TRADE_RESPOND"; tradeId: string; action: "accept" | "reject" | "cancel" };
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { joinPlayer, makeGame, transferCash } from "./rules";
+import { MAX_MESSAGE_CHARS, RATE_LIMIT, checkGameState, checkPlayerRequest, createRateLimiter, parseNetMsg } from "./validate";
+
+/** PRNG con semilla (mulberry32): el fuzz es reproducible. */
+function rng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const KEYS = ["t", "k", "op", "amount", "toName", "connId", "req", "state", "players", "props", "tx", "__proto__", "constructor", "name", "id"];
+const TAGS = ["HELLO", "REQUEST", "STATE", "PATCH", "BID", "MESH", "PAY", "RENT", "SHORTAGE_BID", "TRADE_PROPOSE", "JAIL_OUT", "signal"];
+
+/** Cualquier valor JSON, con sesgo hacia claves y etiquetas que existen (para pasar los primeros filtros). */
+function randomJson(r: () => number, depth = 0): unknown {
+  const pick = <T,>(xs: readonly T[]) => xs[Math.floor(r() * xs.length)];
+  switch (Math.floor(r() * (depth > 3 ? 6 : 8))) {
+    case 0:
+      return null;
+    case 1:
+      return r() < 0.5;
+    case 2:
+      return pick([0, -1, 1.5, 1e9, 1e21, Number.MAX_SAFE_INTEGER, Math.floor(r() * 2000)]);
+    case 3:
+      return pick(["", "1e9", "NaN", "x".repeat(600), ...TAGS]);
+    case 4:
+      return pick(TAGS);
+    case 5:
+      return Math.floor(r() * 100);
+    case 6:
+      return Array.from({ length: Math.floor(r() * 4) }, () => randomJson(r, depth + 1));
+    default: {
+      const o: Record<string, unknown> = {};
+      for (let i = Math.floor(r() * 5); i > 0; i--) o[pick(KEYS)] = i === 1 ? pick(TAGS) : randomJson(r, depth + 1);
+      return o;
+    }
+  }
+}
+
+function validState() {
+  let s = makeGame();
+  s = joinPlayer(s, "c1", "Ana", "new");
+  s = joinPlayer(s, "c2", "Beto", "new");
+  return transferCash(s, "ana", "beto", 40, "renta");
+}
+
+const msg = (v: unknown) => parseNetMsg(JSON.stringify(v));
+
+describe("parseNetMsg / checkPlayerRequest / checkGameState", () => {
+  it("fuzz: nunca tira excepción y siempre devuelve ok o un motivo", () => {
+    const r = rng(2024);
+    for (let i = 0; i < 3000; i++) {
+      const v = randomJson(r);
+      for (const res of [parseNetMsg(JSON.stringify(v) ?? "null"), checkPlayerRequest(v), checkGameState(v)]) {
+        if (res.ok) continue;
+        expect(typeof res.reason).toBe("string");
+        expect(res.reason.length).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it("acepta mensajes bien formados", () => {
+    expect(msg({ t: "REQUEST", connId: "c1", req: { k: "PAY", toName: "BANK", amount: 50 } }).ok).toBe(true);
+    expect(msg({ t: "BID", connId: "c1", auctionId: "a1", amount: 10 }).ok).toBe(true);
+    expect(parseNetMsg(new TextEncoder().encode(JSON.stringify({ t: "NOTICE", text: "hola" }))).ok).toBe(true);
+    expect(checkGameState(validState()).ok).toBe(true);
+  });
+
+  it("rechaza tipos equivocados", () => {
+    for (const amount of ["1e9", 1.5, -1, 0, 1e10, null, NaN, [1], { v: 1 }]) {
+      expect(checkPlayerRequest({ k: "PAY", toName: "BANK", amount }).ok).toBe(false);
+      expect(checkPlayerRequest({ k: "SHORTAGE_BID", amount }).ok).toBe(false);
+    }
+    expect(checkPlayerRequest({ k: "PAY", toName: "BANK", amount: "1e9" })).toEqual({ ok: false, reason: "req.amount no es un entero" });
+    expect(checkPlayerRequest({ k: "RENT", propId: "P01", payer: "ana", dice: 13 }).ok).toBe(false);
+    expect(checkPlayerRequest({ k: "JAIL_OUT", how: "bribe" }).ok).toBe(false);
+    expect(msg({ t: "NOTICE", text: 42 }).ok).toBe(false);
+    expect(checkGameState({ ...validState(), createdAt: "ayer" }).ok).toBe(false);
+  });
+
+  it("rechaza campos faltantes", () => {
+    const full = { k: "TRADE_PROPOSE", to: "beto", give: { cash: 10, props: [] }, get: { cash: 0, props: ["P01"] } };
+    expect(checkPlayerRequest(full).ok).toBe(true);
+    for (const k of ["to", "give", "get"]) {
+      const { [k]: _, ...rest } = full as Record<string, unknown>;
+      expect(checkPlayerRequest(rest)).toEqual({ ok: false, reason: expect.stringContaining(`req.${k}`) });
+    }
+    expect(checkPlayerRequest({ toName: "BANK", amount: 5 }).ok).toBe(false);
+    expect(msg({ connId: "c1", req: { k: "PAY", toName: "BANK", amount: 5 } }).ok).toBe(false);
+    expect(msg({ t: "REQUEST", connId: "c1" }).ok).toBe(false);
+
+    const state = validState();
+    for (const k of ["gameId", "players", "props", "tx", "bank"] as const) {
+      const { [k]: _, ...rest } = state;
+      expect(checkGameState(rest).ok).toBe(false);
+    }
+  });
+
+  it("rechaza cargas demasiado grandes", () => {
+    const huge = JSON.stringify({ t: "NOTICE", text: "x".repeat(MAX_MESSAGE_CHARS) });
+    expect(parseNetMsg(huge)).toEqual({ ok: false, reason: "mensaje demasiado grande" });
+    expect(parseNetMsg(new TextEncoder().encode(huge))).toEqual({ ok: false, reason: "mensaje demasiado grande" });
+    expect(msg({ t: "NOTICE", text: "x".repeat(501) })).toEqual({ ok: false, reason: "msg.text es demasiado largo" });
+    const props = Array.from({ length: 101 }, (_, i) => `P${i}`);
+    expect(checkPlayerRequest({ k: "TRADE_PROPOSE", to: "beto", give: { cash: 0, props }, get: { cash: 0, props: [] } }).ok).toBe(false);
+  });
+
+  it("rechaza claves de prototipo sin contaminar Object.prototype", () => {
+    const state = validState();
+    const json = JSON.stringify(state).replace('"players":{', '"players":{"__proto__":{"key":"x","name":"X","connId":null,"connected":false,"balance":1},');
+    expect(parseNetMsg(`{"t":"STATE","state":${json}}`)).toEqual({ ok: false, reason: "msg.state.players tiene una clave no permitida (__proto__)" });
+    expect(checkGameState({ ...state, props: { ...state.props, constructor: state.props.P01 } }).ok).toBe(false);
+    expect(msg({ t: "__proto__" }).ok).toBe(false);
+    expect(msg({ t: "constructor" }).ok).toBe(false);
+    expect(checkPlayerRequest({ k: "toString" }).ok).toBe(false);
+    expect(({} as Record<string, unknown>).key).toBeUndefined();
+  });
+});
+
+describe("createRateLimiter", () => {
+  it("deja pasar la ráfaga, descarta lo que sigue y recarga con el tiempo", () => {
+    const limiter = createRateLimiter();
+    for (let i = 0; i < RATE_LIMIT.burst; i++) expect(limiter.take("c1", 0).ok).toBe(true);
+    expect(limiter.take("c1", 0)).toEqual({ ok: false, dropped: 1 });
+    expect(limiter.take("c1", 0)).toEqual({ ok: false, dropped: 2 });
+
+    // 10 por segundo: a los 100 ms hay una ficha nueva
+    expect(limiter.take("c1", 100)).toEqual({ ok: true, dropped: 0 });
+    expect(limiter.take("c1", 100).ok).toBe(false);
+    // el balde no pasa de la ráfaga aunque pase mucho tiempo
+    let passed = 0;
+    while (limiter.take("c1", 60_000).ok) passed++;
+    expect(passed).toBe(RATE_LIMIT.burst);
+  });
+
+  it("cada conexión tiene su propio balde y forget lo reinicia", () => {
+    const limiter = createRateLimiter({ burst: 2, perSecond: 1 });
+    limiter.take("c1", 0);
+    limiter.take("c1", 0);
+    expect(limiter.take("c1", 0).ok).toBe(false);
+    expect(limiter.take("c2", 0).ok).toBe(true);
+
+    limiter.forget("c1");
+    expect(limiter.take("c1", 0).ok).toBe(true);
+  });
+});
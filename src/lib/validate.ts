@@ -0,0 +1,443 @@
+import { validateBoard } from "./board";
+import { checkInventory, checkRules, normalizeGame } from "./rules";
+import { JAIL_MAX_TURNS, MAX_DOUBLES, MAX_JAIL_CARDS } from "./turns";
+import type { GameState, NetMsg, PlayerRequest } from "./types";
+
+/**
+ * Validación en tiempo de ejecución de todo lo que llega por la red.
+ * Un peer con bugs (o malicioso) puede mandar cualquier JSON: nada se castea a NetMsg sin pasar por acá.
+ * Cada chequeo devuelve el motivo del rechazo (con la ruta del campo) o null si está bien.
+ */
+
+type Check = (v: unknown, path: string) => string | null;
+
+/** Tope de texto libre (nombres, notas, motivos) para que nadie llene la UI o la memoria. */
+const MAX_TEXT = 500;
+/** Tope de ids, claves y firmas. */
+const MAX_ID = 4096;
+/** Tope de un mensaje entero (un STATE grande con mucho historial entra de sobra). */
+export const MAX_MESSAGE_CHARS = 2_000_000;
+
+const str =
+  (max = MAX_ID, min = 0): Check =>
+  (v, path) =>
+    typeof v !== "string" ? `${path} no es texto` : v.length > max ? `${path} es demasiado largo` : v.length < min ? `${path} está vacío` : null;
+
+const text = str(MAX_TEXT);
+const id = str(MAX_ID, 1);
+
+const int =
+  (min = -Infinity, max = Infinity): Check =>
+  (v, path) =>
+    typeof v !== "number" || !Number.isInteger(v) ? `${path} no es un entero` : v < min || v > max ? `${path} fuera de rango (${v})` : null;
+
+/** Montos: enteros positivos y razonables (no "1e9" como texto, ni NaN, ni negativos). */
+const amount = int(1, 1_000_000_000);
+
+const finite: Check = (v, path) => (typeof v === "number" && Number.isFinite(v) ? null : `${path} no es un número finito`);
+
+const bool: Check = (v, path) => (typeof v !== "boolean" ? `${path} no es booleano` : null);
+
+const oneOf =
+  (...values: readonly unknown[]): Check =>
+  (v, path) =>
+    values.includes(v) ? null : `${path} inválido (${JSON.stringify(v)?.slice(0, 40)})`;
+
+const opt =
+  (check: Check): Check =>
+  (v, path) =>
+    v === undefined ? null : check(v, path);
+
+const nullable =
+  (check: Check): Check =>
+  (v, path) =>
+    v === null ? null : check(v, path);
+
+const isObj = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+const obj =
+  (shape: Record<string, Check>): Check =>
+  (v, path) => {
+    if (!isObj(v)) return `${path} no es un objeto`;
+    for (const [k, check] of Object.entries(shape)) {
+      const err = check(v[k], `${path}.${k}`);
+      if (err) return err;
+    }
+    return null;
+  };
+
+const anyObj: Check = (v, path) => (isObj(v) ? null : `${path} no es un objeto`);
+
+const arr =
+  (item: Check, max = 10_000): Check =>
+  (v, path) => {
+    if (!Array.isArray(v)) return `${path} no es una lista`;
+    if (v.length > max) return `${path} tiene demasiados elementos`;
+    for (let i = 0; i < v.length; i++) {
+      const err = item(v[i], `${path}[${i}]`);
+      if (err) return err;
+    }
+    return null;
+  };
+
+/** Claves que, copiadas con `obj[k] = ...`, tocarían el prototipo en vez de agregar una entrada. */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+const rec =
+  (item: Check): Check =>
+  (v, path) => {
+    if (!isObj(v)) return `${path} no es un objeto`;
+    for (const [k, x] of Object.entries(v)) {
+      if (UNSAFE_KEYS.has(k)) return `${path} tiene una clave no permitida (${k})`;
+      const err = item(x, `${path}.${k}`);
+      if (err) return err;
+    }
+    return null;
+  };
+
+/** Unión discriminada por un campo (`t`, `k`, `op`...). */
+const tagged =
+  (tag: string, variants: Record<string, Check>): Check =>
+  (v, path) => {
+    if (!isObj(v)) return `${path} no es un objeto`;
+    const t = v[tag];
+    if (typeof t !== "string" || !Object.prototype.hasOwnProperty.call(variants, t)) {
+      return `${path}.${tag} desconocido (${JSON.stringify(t)?.slice(0, 40)})`;
+    }
+    return variants[t](v, path);
+  };
+
+/* ------------------------------ piezas ------------------------------ */
+
+const cashTag = oneOf("tax", "fine");
+
+const bankAction = obj({
+  id,
+  label: text,
+  dir: oneOf("to_player", "to_bank"),
+  amount: int(0),
+  netWorthPct: opt(finite),
+  tag: opt(cashTag),
+});
+
+const tradeBundle = obj({ cash: int(0, 1_000_000_000), props: arr(id, 100) });
+
+const signal = anyObj; // lo interpreta simple-peer; solo tiene que ser un objeto
+
+const tx = obj({
+  id,
+  ts: int(0),
+  type: oneOf("cash", "property_transfer", "mortgage", "unmortgage", "build", "sell_build", "bankruptcy_player", "bankruptcy_bank", "auction", "trade", "revert"),
+  from: id,
+  to: id,
+  note: str(MAX_TEXT * 4),
+  amount: opt(finite),
+  tag: opt(cashTag),
+  action: opt(id),
+  propertyId: opt(id),
+  groupId: opt(id),
+  reverted: opt(bool),
+  prevHash: opt(str()),
+  hash: opt(str()),
+  seq: opt(int(0)),
+  balances: opt(rec(finite)),
+  revertTo: opt(str()),
+});
+
+const player = obj({
+  key: id,
+  name: str(MAX_TEXT, 1),
+  connId: nullable(str()),
+  connected: bool,
+  balance: finite,
+  publicKey: opt(str()),
+  jail: opt(obj({ turns: int(0, 2) })),
+  jailCards: opt(int(0, 2)),
+});
+
+const propState = obj({ id, owner: nullable(id), mortgaged: bool, buildings: int(0, 5) });
+
+const payRequest = obj({
+  id,
+  ts: int(0),
+  by: id,
+  from: id,
+  to: id,
+  amount: finite,
+  note: str(MAX_TEXT),
+  tag: opt(cashTag),
+  action: opt(id),
+  propertyId: opt(id),
+  dice: opt(int(2, 12)),
+  status: oneOf("pending", "approved", "rejected"),
+  resolvedAt: opt(int(0)),
+  reason: opt(text),
+});
+
+const tradeOffer = obj({
+  id,
+  ts: int(0),
+  from: id,
+  to: id,
+  give: tradeBundle,
+  get: tradeBundle,
+  status: oneOf("pending", "rejected", "countered", "cancelled", "applied", "failed"),
+  counterOf: opt(id),
+  resolvedAt: opt(int(0)),
+  reason: opt(text),
+});
+
+const buildKind = oneOf("house", "hotel");
+
+const liveAuction = obj({
+  id,
+  propId: id,
+  source: oneOf("queue", "declined"),
+  openedAt: int(0),
+  bids: arr(obj({ player: id, amount: finite, ts: int(0) })),
+  closesAt: nullable(int(0)),
+});
+
+const board: Check = (v, path) => {
+  const errors = validateBoard(v);
+  return errors.length ? `${path}: ${errors[0]}` : null;
+};
+
+/** Campos de GameState fuera de players/props/tx (los mismos que puede traer `rest` en un PATCH). */
+const stateRest: Record<string, Check> = {
+  gameId: id,
+  createdAt: int(0),
+  // con edificios ilimitados el inventario del Banco puede ser negativo
+  bank: obj({ housesAvailable: int(), hotelsAvailable: int() }),
+  // pueden faltar en estados de versiones viejas: normalizeGame los completa
+  rules: opt(
+    obj({
+      startingCash: int(0),
+      totalHouses: int(0),
+      totalHotels: int(0),
+      mortgageRatio: finite,
+      mortgageInterest: finite,
+      evenBuild: bool,
+      unlimitedBuildings: bool,
+      freeParking: opt(bool),
+      bankActions: opt(arr(bankAction, 20)),
+      jailBail: opt(int(1)),
+    })
+  ),
+  pot: opt(int(0)),
+  board: opt(board),
+  auctionQueue: opt(arr(id)),
+  requests: opt(arr(payRequest)),
+  buildDemand: opt(arr(obj({ player: id, propId: id, kind: buildKind, ts: int(0) }))),
+  shortage: opt(nullable(obj({ id, kind: buildKind, openedAt: int(0), bids: rec(finite) }))),
+  auction: opt(nullable(liveAuction)),
+  trades: opt(arr(tradeOffer)),
+  turn: opt(obj({ order: arr(id, 100), current: nullable(id), number: int(0), doubles: int(0, 2) })),
+};
+
+/** Forma de un GameState: campos y colecciones con el tipo correcto (las reglas se chequean en validateGame). */
+const gameStateShape = obj({
+  ...stateRest,
+  players: rec(player),
+  props: rec(propState),
+  tx: arr(tx, 100_000),
+});
+
+/**
+ * Reglas de una partida que la forma sola no cubre (vacío si está bien): inventario, tablero,
+ * referencias a propiedades, cárcel y turnos. Se llama con un estado que ya pasó gameStateShape.
+ */
+export function validateGame(state: GameState): string[] {
+  const errors: string[] = [];
+  for (const e of checkRules(state.rules)) errors.push(`rules: ${e}`);
+  if (state.pot > 0 && !state.rules.freeParking) errors.push("pot: hay dinero en el pozo pero la partida no juega con Free Parking");
+
+  const players = Object.entries(state.players);
+  for (const [k, p] of players) {
+    if (p.key !== k) errors.push(`Jugador ${k}: key no coincide (${p.key})`);
+    if (p.jail && p.jail.turns >= JAIL_MAX_TURNS) errors.push(`Jugador ${k}: turnos en la cárcel inválidos`);
+  }
+  const cards = players.reduce((n, [, p]) => n + (p.jailCards ?? 0), 0);
+  if (cards > MAX_JAIL_CARDS) errors.push(`players: hay ${cards} tarjetas para salir de la cárcel (máximo ${MAX_JAIL_CARDS})`);
+
+  const { turn } = state;
+  if (new Set(turn.order).size !== turn.order.length) errors.push("turn: jugadores repetidos en el orden");
+  if (turn.doubles >= MAX_DOUBLES) errors.push("turn: racha de dobles inválida");
+
+  const boardErrors = validateBoard(state.board);
+  for (const e of boardErrors) errors.push(`board: ${e}`);
+  if (boardErrors.length) return errors;
+
+  const defs = state.board.props;
+  const known = new Set(defs.map((d) => d.id));
+  for (const d of defs) if (!state.props[d.id]) errors.push(`props: falta la propiedad "${d.id}" (${d.label})`);
+  for (const [id, ps] of Object.entries(state.props)) {
+    if (!known.has(id)) {
+      errors.push(`props: propiedad desconocida "${id}"`);
+      continue;
+    }
+    if (ps.id !== id) errors.push(`props.${id}: id no coincide`);
+    if (ps.owner !== null && !state.players[ps.owner]) errors.push(`props.${id}: dueño desconocido (${ps.owner})`);
+    if (ps.mortgaged && ps.buildings > 0) errors.push(`props.${id}: hipotecada con edificios`);
+    if (!ps.owner && (ps.buildings > 0 || ps.mortgaged)) errors.push(`props.${id}: sin dueño pero con edificios o hipoteca`);
+  }
+
+  // lo pendiente tiene que apuntar a propiedades del tablero (los jugadores pueden haber quebrado desde entonces)
+  const unknownProp = (where: string, ids: Array<string | undefined>) => {
+    for (const id of ids) if (id !== undefined && !known.has(id)) errors.push(`${where}: propiedad desconocida "${id}"`);
+  };
+  unknownProp("auctionQueue", state.auctionQueue);
+  unknownProp("buildDemand", state.buildDemand.map((d) => d.propId));
+  for (const r of state.requests) if (r.status === "pending") unknownProp(`requests.${r.id}`, [r.propertyId]);
+  for (const t of state.trades) if (t.status === "pending") unknownProp(`trades.${t.id}`, [...t.give.props, ...t.get.props]);
+  if (state.auction) {
+    unknownProp("auction", [state.auction.propId]);
+    if (state.props[state.auction.propId]?.owner) errors.push("auction: la propiedad en subasta ya tiene dueño");
+  }
+  if (errors.length) return errors;
+
+  // con edificios ilimitados el Banco puede quedar en negativo
+  const { housesAvailable, hotelsAvailable } = state.bank;
+  if (!state.rules.unlimitedBuildings && (housesAvailable < 0 || hotelsAvailable < 0)) {
+    errors.push("bank: inventario de casas/hoteles inválido");
+    return errors;
+  }
+  // casas/hoteles del banco + los del tablero tienen que dar el total de la caja
+  const inv = checkInventory(state);
+  const { totalHouses, totalHotels } = state.rules;
+  if (inv.houses.total !== totalHouses) {
+    errors.push(`bank: ${inv.houses.bank} casas en el banco + ${inv.houses.board} en el tablero no dan ${totalHouses}`);
+  }
+  if (inv.hotels.total !== totalHotels) {
+    errors.push(`bank: ${inv.hotels.bank} hoteles en el banco + ${inv.hotels.board} en el tablero no dan ${totalHotels}`);
+  }
+  return errors;
+}
+
+const gameState: Check = (v, path) => {
+  const err = gameStateShape(v, path);
+  if (err) return err;
+  const errors = validateGame(normalizeGame(v as GameState));
+  return errors.length ? `${path}: ${errors[0]}` : null;
+};
+
+const statePatch = obj({
+  tx: opt(arr(tx)),
+  txUpdates: opt(arr(tx)),
+  players: opt(rec(player)),
+  removedPlayers: opt(arr(id)),
+  props: opt(rec(propState)),
+  rest: opt(obj(Object.fromEntries(Object.entries(stateRest).map(([k, c]) => [k, opt(c)])))),
+});
+
+const playerRequest = tagged("k", {
+  PAY: obj({ toName: id, amount, note: opt(text), tag: opt(cashTag) }),
+  RENT: obj({ propId: id, payer: id, dice: opt(int(2, 12)) }),
+  BANK_ACTION: obj({ actionId: id }),
+  BUILD_DEMAND: obj({ propId: nullable(id) }),
+  SHORTAGE_BID: obj({ amount }),
+  TRADE_PROPOSE: obj({ to: id, give: tradeBundle, get: tradeBundle, counterOf: opt(id) }),
+  TRADE_RESPOND: obj({ tradeId: id, action: oneOf("accept", "reject", "cancel") }),
+  JAIL_OUT: obj({ how: oneOf("bail", "card") }),
+});
+
+const netMsg = tagged("t", {
+  HELLO: obj({
+    connId: id,
+    name: str(MAX_TEXT),
+    pub: opt(str()),
+    sig: opt(str()),
+    gameId: opt(id),
+    version: opt(int(-1)),
+    resume: opt(obj({ key: id, token: id })),
+  }),
+  WELCOME: obj({ key: id, token: id }),
+  STATE: obj({ state: gameState, version: opt(int(-1)), ledgerSig: opt(str()) }),
+  PATCH: obj({ from: int(-1), to: int(0), patch: statePatch, ledgerSig: opt(str()) }),
+  RESYNC: obj({ version: nullable(int(-1)) }),
+  REJECT: obj({ reason: text }),
+  REQUEST: obj({ connId: id, req: playerRequest }),
+  REQUEST_RESULT: obj({ requestId: id, status: oneOf("approved", "rejected"), reason: opt(text) }),
+  NOTICE: obj({ text, warn: opt(bool) }),
+  BID: obj({ connId: id, auctionId: id, amount }),
+  BID_RESULT: obj({ auctionId: id, ok: bool, reason: opt(text) }),
+  MESH: tagged("op", {
+    link: obj({ peer: id }),
+    signal: obj({ peer: id, signal }),
+    lost: obj({ peer: id }),
+  }),
+  RESUME: tagged("op", {
+    offer: obj({ key: id, token: id, signal }),
+    answer: obj({ key: id, connId: id, signal }),
+    fail: obj({ key: id, reason: text }),
+  }),
+  HANDOFF: obj({ handoff: obj({ kind: oneOf("HANDOFF") }) }), // el contenido lo valida readHandoff
+  BANK_MOVED: anyObj,
+});
+
+/* ------------------------------ API ------------------------------ */
+
+export type Parsed<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+/** Decodifica y valida un mensaje del data channel (texto o bytes). */
+export function parseNetMsg(data: unknown): Parsed<NetMsg> {
+  let str: string;
+  try {
+    str = typeof data === "string" ? data : new TextDecoder().decode(data as ArrayBuffer | Uint8Array);
+  } catch {
+    return { ok: false, reason: "mensaje ilegible" };
+  }
+  if (str.length > MAX_MESSAGE_CHARS) return { ok: false, reason: "mensaje demasiado grande" };
+  let raw: unknown;
+  try {
+    raw = JSON.parse(str);
+  } catch {
+    return { ok: false, reason: "mensaje no es JSON" };
+  }
+  const err = netMsg(raw, "msg");
+  return err ? { ok: false, reason: err } : { ok: true, value: raw as NetMsg };
+}
+
+export function checkPlayerRequest(raw: unknown): Parsed<PlayerRequest> {
+  const err = playerRequest(raw, "req");
+  return err ? { ok: false, reason: err } : { ok: true, value: raw as PlayerRequest };
+}
+
+export function checkGameState(raw: unknown): Parsed<GameState> {
+  const err = gameState(raw, "state");
+  return err ? { ok: false, reason: err } : { ok: true, value: raw as GameState };
+}
+
+/** Todos los motivos por los que un estado completo no sirve (primero la forma, después las reglas). */
+export function gameStateErrors(raw: unknown, path = "state"): string[] {
+  const err = gameStateShape(raw, path);
+  return err ? [err] : validateGame(normalizeGame(raw as GameState));
+}
+
+/* ------------------------------ rate limit ------------------------------ */
+
+/** Balde de fichas por conexión: `burst` mensajes seguidos y después `perSecond`. */
+export const RATE_LIMIT = { burst: 30, perSecond: 10 };
+
+export function createRateLimiter(limit = RATE_LIMIT) {
+  const buckets = new Map<string, { tokens: number; at: number; dropped: number }>();
+  return {
+    /** true si el mensaje pasa; `dropped` cuenta los descartados seguidos (para loguear solo el primero). */
+    take(key: string, now = Date.now()): { ok: boolean; dropped: number } {
+      const b = buckets.get(key) ?? { tokens: limit.burst, at: now, dropped: 0 };
+      b.tokens = Math.min(limit.burst, b.tokens + ((now - b.at) / 1000) * limit.perSecond);
+      b.at = now;
+      buckets.set(key, b);
+      if (b.tokens < 1) {
+        b.dropped++;
+        return { ok: false, dropped: b.dropped };
+      }
+      b.tokens -= 1;
+      b.dropped = 0;
+      return { ok: true, dropped: 0 };
+    },
+    forget(key: string) {
+      buckets.delete(key);
+    },
+  };
+}